@@ -0,0 +1,358 @@
+/**
+ * In-process implementation of the ApiBackend wire
+ * protocol. Its fetch() can be handed to ApiBackend so
+ * the client can be tested or demoed without a network.
+ */
+
+import type {
+  BoardDefinition,
+  SaveOptions,
+  SystemTheme,
+} from '../editor/types';
+import {
+  blobToDataUrl,
+  copyBoardAs,
+  stampNewBoard,
+  summarizeBoard,
+} from './board-utils';
+import { ResourceTree } from './resource-tree';
+import { RevisionLog, restoreOptions } from './revision-log';
+import { BoardConflictError, checkRevision } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
+
+export interface MockApiServerOptions {
+  /** If set, requests must send this exact Authorization header */
+  authorization?: string;
+
+  /** Artificial latency in milliseconds for every request */
+  delayMs?: number;
+}
+
+/**
+ * Fake board server. Boards, resource folders and themes
+ * are plain in-memory data that tests can seed directly.
+ * Boards written through the protocol also get revisions.
+ */
+export class MockApiServer {
+  readonly boards = new Map<string, BoardDefinition>();
+
+  /** Revision history keyed by board ID */
+  readonly revisions = new Map<string, RevisionLog>();
+
+  /** Resource folders keyed by board ID */
+  readonly resources = new Map<string, ResourceTree>();
+
+  themes: SystemTheme[] = [];
+
+  /** Every request received, for assertions */
+  readonly requests: { method: string; url: string; headers: Headers }[] = [];
+
+  private readonly options: MockApiServerOptions;
+
+  constructor(options: MockApiServerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * fetch-compatible entry point. Honors the abort signal
+   * while waiting out the configured delay.
+   */
+  readonly fetch = async (
+    input: RequestInfo | URL,
+    init?: RequestInit
+  ): Promise<Response> => {
+    const request = new Request(input, init);
+    this.requests.push({
+      method: request.method,
+      url: request.url,
+      headers: request.headers,
+    });
+
+    if (this.options.delayMs) {
+      await abortableDelay(this.options.delayMs, init?.signal ?? undefined);
+    }
+
+    return this.handle(request);
+  };
+
+  private async handle(request: Request): Promise<Response> {
+    if (
+      this.options.authorization !== undefined &&
+      request.headers.get('Authorization') !== this.options.authorization
+    ) {
+      return jsonResponse(401, { error: 'Unauthorized' });
+    }
+
+    const url = new URL(request.url);
+    const parts = url.pathname.split('/').filter((p) => p);
+    const boardsIndex = parts.lastIndexOf('boards');
+
+    if (
+      boardsIndex === -1 &&
+      parts[parts.length - 1] === 'themes' &&
+      request.method === 'GET'
+    ) {
+      return jsonResponse(200, this.themes);
+    }
+
+    if (boardsIndex === -1) {
+      return jsonResponse(404, { error: 'Not found' });
+    }
+
+    if (boardsIndex + 1 === parts.length) {
+      return this.handleCollection(request);
+    }
+
+    const boardId = decodeURIComponent(parts[boardsIndex + 1]);
+    const rest = parts.slice(boardsIndex + 2);
+
+    if (rest.length === 0) {
+      return this.handleBoard(request, boardId);
+    }
+
+    if (
+      rest.length === 1 &&
+      rest[0] === 'duplicate' &&
+      request.method === 'POST'
+    ) {
+      return this.handleDuplicate(request, boardId);
+    }
+
+    if (rest[0] === 'resources') {
+      return this.handleResources(request, boardId, rest.slice(1));
+    }
+
+    if (rest[0] === 'revisions') {
+      return this.handleRevisions(request, boardId, rest.slice(1));
+    }
+
+    return jsonResponse(404, { error: 'Not found' });
+  }
+
+  /** Everything under /boards/{id}/revisions */
+  private async handleRevisions(
+    request: Request,
+    boardId: string,
+    rest: string[]
+  ): Promise<Response> {
+    if (!this.boards.has(boardId)) {
+      return jsonResponse(404, { error: `Board not found: ${boardId}` });
+    }
+    const log = this.history(boardId);
+
+    try {
+      if (rest.length === 0 && request.method === 'GET') {
+        return jsonResponse(200, log.list());
+      }
+      const revisionId = decodeURIComponent(rest[0] ?? '');
+      if (rest.length === 1 && request.method === 'GET') {
+        return jsonResponse(200, log.get(revisionId));
+      }
+      if (
+        rest.length === 2 &&
+        rest[1] === 'restore' &&
+        request.method === 'POST'
+      ) {
+        const options = (await request.json()) as SaveOptions;
+        const board = log.restore(boardId, revisionId);
+        this.store(board, restoreOptions(revisionId, options));
+        return jsonResponse(200, board);
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return jsonResponse(404, { error: message });
+    }
+
+    return jsonResponse(404, { error: 'Not found' });
+  }
+
+  private history(boardId: string): RevisionLog {
+    let log = this.revisions.get(boardId);
+    if (!log) {
+      log = new RevisionLog();
+      this.revisions.set(boardId, log);
+    }
+    return log;
+  }
+
+  /** Make a board current and record it as a revision */
+  private store(board: BoardDefinition, options?: SaveOptions): void {
+    this.boards.set(board.id, board);
+    this.history(board.id).record(board, options);
+  }
+
+  /** Everything under /boards/{id}/resources */
+  private async handleResources(
+    request: Request,
+    boardId: string,
+    rest: string[]
+  ): Promise<Response> {
+    const url = new URL(request.url);
+    let tree = this.resources.get(boardId);
+    if (!tree) {
+      tree = new ResourceTree();
+      this.resources.set(boardId, tree);
+    }
+
+    try {
+      if (rest.length === 0) {
+        const path = url.searchParams.get('path') ?? '';
+        switch (request.method) {
+          case 'GET':
+            return jsonResponse(
+              200,
+              tree.list(url.searchParams.get('folder') ?? '/')
+            );
+          case 'PUT': {
+            const data = await request.blob();
+            const dataUrl = await blobToDataUrl(data);
+            return jsonResponse(200, tree.put(path, dataUrl, data.size));
+          }
+          case 'DELETE':
+            tree.delete(path);
+            return new Response(null, { status: 204 });
+        }
+      } else if (request.method === 'POST' && rest.length === 1) {
+        if (rest[0] === 'move') {
+          const body = (await request.json()) as { from: string; to: string };
+          return jsonResponse(200, tree.rename(body.from, body.to));
+        }
+        if (rest[0] === 'folders') {
+          const body = (await request.json()) as { path: string };
+          tree.mkdir(body.path);
+          return new Response(null, { status: 204 });
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const status =
+        err instanceof NotFoundError
+          ? 404
+          : err instanceof AlreadyExistsError
+            ? 409
+            : 400;
+      return jsonResponse(status, { error: message });
+    }
+
+    return jsonResponse(404, { error: 'Not found' });
+  }
+
+  /** GET and POST on /boards */
+  private async handleCollection(request: Request): Promise<Response> {
+    if (request.method === 'GET') {
+      return jsonResponse(200, [...this.boards.values()].map(summarizeBoard));
+    }
+    if (request.method === 'POST') {
+      const board = (await request.json()) as BoardDefinition;
+      if (this.boards.has(board.id)) {
+        return jsonResponse(409, {
+          error: `Board already exists: ${board.id}`,
+        });
+      }
+      stampNewBoard(board);
+      this.store(board, { message: 'Created' });
+      return jsonResponse(201, summarizeBoard(board));
+    }
+    return jsonResponse(405, { error: 'Method not allowed' });
+  }
+
+  /** POST /boards/{id}/duplicate */
+  private async handleDuplicate(
+    request: Request,
+    boardId: string
+  ): Promise<Response> {
+    const source = this.boards.get(boardId);
+    if (!source) {
+      return jsonResponse(404, { error: `Board not found: ${boardId}` });
+    }
+    const body = (await request.json()) as { id: string; name?: string };
+    if (this.boards.has(body.id)) {
+      return jsonResponse(409, {
+        error: `Board already exists: ${body.id}`,
+      });
+    }
+    const board = copyBoardAs(source, body.id, body.name);
+    this.store(board, { message: `Duplicated from ${boardId}` });
+    return jsonResponse(201, summarizeBoard(board));
+  }
+
+  /** Everything on /boards/{id} itself */
+  private async handleBoard(
+    request: Request,
+    boardId: string
+  ): Promise<Response> {
+    const existing = this.boards.get(boardId);
+
+    if (request.method === 'PUT') {
+      const board = (await request.json()) as BoardDefinition;
+      if (board.id !== boardId) {
+        return jsonResponse(400, { error: 'Board ID does not match URL' });
+      }
+      const query = new URL(request.url).searchParams;
+      const options: SaveOptions = {
+        author: query.get('author') ?? undefined,
+        message: query.get('message') ?? undefined,
+        force: query.get('force') === 'true',
+      };
+      try {
+        checkRevision(existing, board, options);
+      } catch (err) {
+        if (err instanceof BoardConflictError) {
+          return jsonResponse(409, {
+            error: err.message,
+            currentRevision: err.currentRevision,
+          });
+        }
+        throw err;
+      }
+      this.store(board, options);
+      return jsonResponse(200, { revision: board.metadata.revision });
+    }
+
+    if (!existing) {
+      return jsonResponse(404, { error: `Board not found: ${boardId}` });
+    }
+
+    switch (request.method) {
+      case 'GET':
+        return jsonResponse(200, existing);
+      case 'PATCH': {
+        const body = (await request.json()) as { name?: string };
+        if (typeof body.name !== 'string') {
+          return jsonResponse(400, { error: 'Missing name' });
+        }
+        existing.metadata.name = body.name;
+        existing.metadata.modified = new Date().toISOString();
+        this.store(existing, { message: `Renamed to ${body.name}` });
+        return jsonResponse(200, summarizeBoard(existing));
+      }
+      case 'DELETE':
+        this.boards.delete(boardId);
+        this.revisions.delete(boardId);
+        return new Response(null, { status: 204 });
+      default:
+        return jsonResponse(405, { error: 'Method not allowed' });
+    }
+  }
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    });
+  });
+}
@@ -0,0 +1,496 @@
+/**
+ * REST backend that talks to a board server over fetch.
+ *
+ * Wire protocol. All bodies are JSON, all paths are
+ * relative to the configured base URL and path params
+ * are URI encoded:
+ *
+ *   GET  /boards/{boardId}
+ *        -> 200 BoardDefinition
+ *   PUT  /boards/{boardId}?author={name}&message={text}&force=true
+ *        body: BoardDefinition. All query params are
+ *        optional. author and message describe the
+ *        recorded revision. Unless force is set, the
+ *        server compares metadata.revision with the stored
+ *        board's and refuses a mismatch
+ *        -> 200 { revision: string } with the new token,
+ *           or 204 if the server does not track revisions,
+ *           409 { error, currentRevision? } on a conflict
+ *   GET  /boards
+ *        -> 200 BoardSummary[]
+ *   POST /boards               body: BoardDefinition
+ *        -> 201 BoardSummary, 409 if the ID is taken
+ *   POST /boards/{boardId}/duplicate
+ *        body: { id: string, name?: string }
+ *        -> 201 BoardSummary, 409 if the new ID is taken
+ *   PATCH /boards/{boardId}    body: { name: string }
+ *        -> 200 BoardSummary
+ *   DELETE /boards/{boardId}
+ *        -> 200 or 204
+ *   GET  /boards/{boardId}/revisions
+ *        -> 200 BoardRevision[], newest first
+ *   GET  /boards/{boardId}/revisions/{revisionId}
+ *        -> 200 BoardDefinition
+ *   POST /boards/{boardId}/revisions/{revisionId}/restore
+ *        body: { author?: string, message?: string }
+ *        -> 200 BoardDefinition, the restored board
+ *   GET  /boards/{boardId}/resources?folder={path}
+ *        -> 200 FileMetadata[]
+ *   PUT  /boards/{boardId}/resources?path={path}
+ *        body: raw file bytes with the file's Content-Type
+ *        -> 200 FileMetadata
+ *   DELETE /boards/{boardId}/resources?path={path}
+ *        -> 200 or 204
+ *   POST /boards/{boardId}/resources/move
+ *        body: { from: string, to: string }
+ *        -> 200 FileMetadata, 409 if the destination exists
+ *   POST /boards/{boardId}/resources/folders
+ *        body: { path: string }
+ *        -> 200, 201 or 204
+ *   GET  /themes
+ *        -> 200 SystemTheme[]
+ *
+ * Any other status is an error. Servers should send
+ * { "error": "message" } as the body of error responses,
+ * which becomes the message of the thrown ApiHttpError.
+ */
+
+import type {
+  BoardDefinition,
+  BoardRevision,
+  BoardSummary,
+  FileMetadata,
+  IBoardBackend,
+  SaveOptions,
+  SystemTheme,
+} from '../editor/types';
+import { resourceMimeType } from './board-utils';
+import { BoardConflictError } from './conflict';
+
+/** Static headers, or a function called before every request */
+export type ApiHeaders =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+export interface ApiBackendOptions {
+  /** Server base URL, e.g. 'https://example.com/api' */
+  baseUrl: string;
+
+  /** Board loaded when load() is called without an ID */
+  boardId: string;
+
+  /** Extra headers such as Authorization */
+  headers?: ApiHeaders;
+
+  /** Per-request timeout in milliseconds. Default 10000 */
+  timeoutMs?: number;
+
+  /** fetch implementation, defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Base class for the request errors thrown by ApiBackend.
+ * Save conflicts are reported as BoardConflictError.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly url: string
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** The server answered with a non-success status */
+export class ApiHttpError extends ApiError {
+  constructor(
+    message: string,
+    url: string,
+    readonly status: number,
+    /** Parsed JSON error body, or null if it was not JSON */
+    readonly body: unknown = null
+  ) {
+    super(message, url);
+    this.name = 'ApiHttpError';
+  }
+}
+
+/** The request did not complete within the timeout */
+export class ApiTimeoutError extends ApiError {
+  constructor(
+    url: string,
+    readonly timeoutMs: number
+  ) {
+    super(`Request to ${url} timed out after ${timeoutMs}ms`, url);
+    this.name = 'ApiTimeoutError';
+  }
+}
+
+/** The request failed before any response was received */
+export class ApiNetworkError extends ApiError {
+  constructor(
+    url: string,
+    readonly cause: unknown
+  ) {
+    super(`Network error requesting ${url}: ${String(cause)}`, url);
+    this.name = 'ApiNetworkError';
+  }
+}
+
+/** The response body was not the JSON we expected */
+export class ApiProtocolError extends ApiError {
+  constructor(message: string, url: string) {
+    super(message, url);
+    this.name = 'ApiProtocolError';
+  }
+}
+
+/**
+ * Board backend for a remote server. See the module
+ * comment for the protocol.
+ */
+export class ApiBackend implements IBoardBackend {
+  readonly boardId: string;
+  private readonly baseUrl: string;
+  private readonly headers: ApiHeaders;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: ApiBackendOptions) {
+    if (!options.baseUrl) {
+      throw new Error('ApiBackend requires a base URL');
+    }
+    if (!options.boardId) {
+      throw new Error('ApiBackend requires a board ID');
+    }
+    const timeoutMs = options.timeoutMs ?? 10000;
+    if (!(timeoutMs > 0)) {
+      throw new Error('ApiBackend timeout must be positive');
+    }
+
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.boardId = options.boardId;
+    this.headers = options.headers ?? {};
+    this.timeoutMs = timeoutMs;
+    this.fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  }
+
+  private boardPath(boardId: string = this.boardId): string {
+    return `/boards/${encodeURIComponent(boardId)}`;
+  }
+
+  async load(boardId: string = this.boardId): Promise<BoardDefinition> {
+    return this.boardRequest('GET', this.boardPath(boardId));
+  }
+
+  async save(board: BoardDefinition, options: SaveOptions = {}): Promise<void> {
+    if (!board.id) {
+      throw new Error('Board ID must not be empty');
+    }
+    board.metadata.modified = new Date().toISOString();
+    const query = new URLSearchParams();
+    if (options.author !== undefined) {
+      query.set('author', options.author);
+    }
+    if (options.message !== undefined) {
+      query.set('message', options.message);
+    }
+    if (options.force) {
+      query.set('force', 'true');
+    }
+    const search = query.toString();
+    const path = this.boardPath(board.id) + (search ? `?${search}` : '');
+
+    let result: unknown;
+    try {
+      result = await this.request('PUT', path, board);
+    } catch (err) {
+      if (err instanceof ApiHttpError && err.status === 409) {
+        const current = isObject(err.body) ? err.body.currentRevision : null;
+        throw new BoardConflictError(
+          board.id,
+          board.metadata.revision ?? '',
+          typeof current === 'string' ? current : undefined
+        );
+      }
+      throw err;
+    }
+    board.metadata.revision =
+      isObject(result) && typeof result.revision === 'string'
+        ? result.revision
+        : undefined;
+  }
+
+  async listBoards(): Promise<BoardSummary[]> {
+    const boards = await this.request('GET', '/boards');
+    if (!Array.isArray(boards)) {
+      throw new ApiProtocolError(
+        'Server returned an invalid board list',
+        this.url('/boards')
+      );
+    }
+    return boards as BoardSummary[];
+  }
+
+  async createBoard(board: BoardDefinition): Promise<BoardSummary> {
+    if (!board.id) {
+      throw new Error('Board ID must not be empty');
+    }
+    return this.summaryRequest('POST', '/boards', board);
+  }
+
+  async duplicateBoard(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary> {
+    return this.summaryRequest(
+      'POST',
+      `${this.boardPath(sourceId)}/duplicate`,
+      { id: newId, name: newName }
+    );
+  }
+
+  async renameBoard(boardId: string, name: string): Promise<BoardSummary> {
+    return this.summaryRequest('PATCH', this.boardPath(boardId), { name });
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    await this.request('DELETE', this.boardPath(boardId));
+  }
+
+  async listRevisions(boardId: string): Promise<BoardRevision[]> {
+    const path = `${this.boardPath(boardId)}/revisions`;
+    const revisions = await this.request('GET', path);
+    if (!Array.isArray(revisions)) {
+      throw new ApiProtocolError(
+        'Server returned an invalid revision list',
+        this.url(path)
+      );
+    }
+    return revisions as BoardRevision[];
+  }
+
+  async loadRevision(
+    boardId: string,
+    revisionId: string
+  ): Promise<BoardDefinition> {
+    return this.boardRequest('GET', this.revisionPath(boardId, revisionId));
+  }
+
+  async restoreRevision(
+    boardId: string,
+    revisionId: string,
+    options: SaveOptions = {}
+  ): Promise<BoardDefinition> {
+    return this.boardRequest(
+      'POST',
+      `${this.revisionPath(boardId, revisionId)}/restore`,
+      options
+    );
+  }
+
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    const path = `${this.resourcesPath()}?folder=` + encodeURIComponent(folder);
+    const items = await this.request('GET', path);
+    if (!Array.isArray(items)) {
+      throw new ApiProtocolError(
+        'Server returned an invalid folder listing',
+        this.url(path)
+      );
+    }
+    return items as FileMetadata[];
+  }
+
+  async uploadResource(path: string, data: Blob): Promise<FileMetadata> {
+    return this.fileRequest(
+      'PUT',
+      `${this.resourcesPath()}?path=${encodeURIComponent(path)}`,
+      new Blob([data], { type: resourceMimeType(path, data) })
+    );
+  }
+
+  async deleteResource(path: string): Promise<void> {
+    await this.request(
+      'DELETE',
+      `${this.resourcesPath()}?path=${encodeURIComponent(path)}`
+    );
+  }
+
+  async renameResource(
+    fromPath: string,
+    toPath: string
+  ): Promise<FileMetadata> {
+    return this.fileRequest('POST', `${this.resourcesPath()}/move`, {
+      from: fromPath,
+      to: toPath,
+    });
+  }
+
+  async createResourceFolder(path: string): Promise<void> {
+    await this.request('POST', `${this.resourcesPath()}/folders`, { path });
+  }
+
+  async getSystemThemes(): Promise<SystemTheme[]> {
+    const themes = await this.request('GET', '/themes');
+    if (!Array.isArray(themes)) {
+      throw new ApiProtocolError(
+        'Server returned an invalid theme list',
+        this.url('/themes')
+      );
+    }
+    return themes as SystemTheme[];
+  }
+
+  private resourcesPath(): string {
+    return `${this.boardPath()}/resources`;
+  }
+
+  private revisionPath(boardId: string, revisionId: string): string {
+    return (
+      `${this.boardPath(boardId)}/revisions/` + encodeURIComponent(revisionId)
+    );
+  }
+
+  private async boardRequest(
+    method: 'GET' | 'POST',
+    path: string,
+    body?: unknown
+  ): Promise<BoardDefinition> {
+    const board = await this.request(method, path, body);
+    if (!isObject(board) || typeof board.id !== 'string') {
+      throw new ApiProtocolError(
+        'Server returned an invalid board',
+        this.url(path)
+      );
+    }
+    return board as unknown as BoardDefinition;
+  }
+
+  private async fileRequest(
+    method: 'PUT' | 'POST',
+    path: string,
+    body: unknown
+  ): Promise<FileMetadata> {
+    const item = await this.request(method, path, body);
+    if (!isObject(item) || typeof item.name !== 'string') {
+      throw new ApiProtocolError(
+        'Server returned invalid file metadata',
+        this.url(path)
+      );
+    }
+    return item as unknown as FileMetadata;
+  }
+
+  private async summaryRequest(
+    method: 'POST' | 'PATCH',
+    path: string,
+    body: unknown
+  ): Promise<BoardSummary> {
+    const summary = await this.request(method, path, body);
+    if (!isObject(summary) || typeof summary.id !== 'string') {
+      throw new ApiProtocolError(
+        'Server returned an invalid board summary',
+        this.url(path)
+      );
+    }
+    return summary as unknown as BoardSummary;
+  }
+
+  private url(path: string): string {
+    return this.baseUrl + path;
+  }
+
+  private async resolveHeaders(): Promise<Record<string, string>> {
+    if (typeof this.headers === 'function') {
+      return await this.headers();
+    }
+    return this.headers;
+  }
+
+  /**
+   * Perform a request and return the parsed JSON body,
+   * or null for an empty body. Blob bodies are sent as-is,
+   * anything else as JSON.
+   */
+  private async request(
+    method: 'GET' | 'PUT' | 'POST' | 'PATCH' | 'DELETE',
+    path: string,
+    body?: unknown
+  ): Promise<unknown> {
+    const url = this.url(path);
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      ...(await this.resolveHeaders()),
+    };
+    let payload: BodyInit | undefined;
+    if (body instanceof Blob) {
+      headers['Content-Type'] = body.type;
+      payload = body;
+    } else if (body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      payload = JSON.stringify(body);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetchImpl(url, {
+        method,
+        headers,
+        body: payload,
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (err) {
+      if (controller.signal.aborted) {
+        throw new ApiTimeoutError(url, this.timeoutMs);
+      }
+      throw new ApiNetworkError(url, err);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      const body = parseJson(text);
+      throw new ApiHttpError(
+        errorMessage(body) ?? `HTTP ${response.status} from ${url}`,
+        url,
+        response.status,
+        body
+      );
+    }
+
+    if (!text) {
+      return null;
+    }
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      throw new ApiProtocolError(`Invalid JSON from ${url}`, url);
+    }
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Parse JSON, or null if the text is not JSON */
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/** Extract { error } from a parsed error response body */
+function errorMessage(body: unknown): string | null {
+  return isObject(body) && typeof body.error === 'string' ? body.error : null;
+}
@@ -0,0 +1,442 @@
+/**
+ * Small HTTP server for a FileSystemBackend. Speaks the
+ * ApiBackend wire protocol documented in api.ts, so the
+ * browser side is a plain ApiBackend:
+ *
+ *   new ApiBackend({ baseUrl: 'http://host:8787', boardId: 'main' })
+ *
+ * In addition it serves the resource files themselves:
+ *
+ *   GET  /resources/{path}
+ *        -> 200 file bytes, Content-Type from the extension
+ *
+ * The resource folder is shared by all boards, so every
+ * /boards/{boardId}/resources route reaches the same one.
+ *
+ * Node.js only. createBoardHandler() works on fetch
+ * Request and Response objects; createNodeListener()
+ * adapts it to node:http and to Connect-style middleware
+ * such as the Vite dev server's.
+ */
+
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { lookup } from 'mime-types';
+import type { BoardDefinition, SaveOptions } from '../editor/types';
+import { validateBoard } from '../boards/board-validator';
+import { BoardConflictError } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
+import { FileSystemBackend, type FileSystemBackendOptions } from './filesystem';
+
+export interface BoardHandlerOptions {
+  /** Path prefix the protocol is served under, e.g. '/api'. Default '' */
+  basePath?: string;
+
+  /** If set, requests must send this exact Authorization header */
+  authorization?: string;
+}
+
+/** Handles a request, or returns null if it is outside the base path */
+export type BoardHandler = (request: Request) => Promise<Response | null>;
+
+/**
+ * Serve a backend over the ApiBackend protocol.
+ */
+export function createBoardHandler(
+  backend: FileSystemBackend,
+  options: BoardHandlerOptions = {}
+): BoardHandler {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+
+  return async (request) => {
+    const url = new URL(request.url);
+    if (url.pathname !== basePath && !url.pathname.startsWith(basePath + '/')) {
+      return null;
+    }
+    if (
+      options.authorization !== undefined &&
+      request.headers.get('Authorization') !== options.authorization
+    ) {
+      return jsonResponse(401, { error: 'Unauthorized' });
+    }
+
+    try {
+      const parts = url.pathname
+        .slice(basePath.length)
+        .split('/')
+        .filter((p) => p)
+        .map((p) => decodeURIComponent(p));
+      return await route(backend, request, url, parts);
+    } catch (err) {
+      return errorResponse(err);
+    }
+  };
+}
+
+async function route(
+  backend: FileSystemBackend,
+  request: Request,
+  url: URL,
+  parts: string[]
+): Promise<Response> {
+  const method = request.method;
+  const [collection, boardId, section, ...rest] = parts;
+
+  if (collection === 'themes' && parts.length === 1 && method === 'GET') {
+    return jsonResponse(200, await backend.getSystemThemes());
+  }
+
+  if (collection === 'resources' && method === 'GET') {
+    const file = backend.resourceFile('/' + parts.slice(1).join('/'));
+    const data = await readFile(file);
+    return new Response(data, {
+      headers: {
+        'Content-Type': lookup(file) || 'application/octet-stream',
+      },
+    });
+  }
+
+  if (collection !== 'boards') {
+    return notFound();
+  }
+
+  if (boardId === undefined) {
+    if (method === 'GET') {
+      return jsonResponse(200, await backend.listBoards());
+    }
+    if (method === 'POST') {
+      const board = validateBoard(await readBody(request));
+      return jsonResponse(201, await backend.createBoard(board));
+    }
+    return methodNotAllowed();
+  }
+
+  if (section === undefined) {
+    return handleBoard(backend, request, url, boardId);
+  }
+
+  if (section === 'duplicate' && rest.length === 0 && method === 'POST') {
+    const body = (await readBody(request)) as { id?: unknown; name?: unknown };
+    if (typeof body.id !== 'string') {
+      return jsonResponse(400, { error: 'Missing id' });
+    }
+    const name = typeof body.name === 'string' ? body.name : undefined;
+    return jsonResponse(
+      201,
+      await backend.duplicateBoard(boardId, body.id, name)
+    );
+  }
+
+  if (section === 'revisions') {
+    const [revisionId, action] = rest;
+    if (revisionId === undefined && method === 'GET') {
+      return jsonResponse(200, await backend.listRevisions(boardId));
+    }
+    if (rest.length === 1 && method === 'GET') {
+      return jsonResponse(200, await backend.loadRevision(boardId, revisionId));
+    }
+    if (rest.length === 2 && action === 'restore' && method === 'POST') {
+      const options = saveOptions(await readBody(request));
+      return jsonResponse(
+        200,
+        await backend.restoreRevision(boardId, revisionId, options)
+      );
+    }
+    return notFound();
+  }
+
+  if (section === 'resources') {
+    return handleResources(backend, request, url, rest);
+  }
+
+  return notFound();
+}
+
+/** Everything on /boards/{id} itself */
+async function handleBoard(
+  backend: FileSystemBackend,
+  request: Request,
+  url: URL,
+  boardId: string
+): Promise<Response> {
+  switch (request.method) {
+    case 'GET':
+      return jsonResponse(200, await backend.load(boardId));
+    case 'PUT': {
+      const board: BoardDefinition = validateBoard(await readBody(request));
+      if (board.id !== boardId) {
+        return jsonResponse(400, { error: 'Board ID does not match URL' });
+      }
+      const query = url.searchParams;
+      await backend.save(board, {
+        author: query.get('author') ?? undefined,
+        message: query.get('message') ?? undefined,
+        force: query.get('force') === 'true',
+      });
+      return jsonResponse(200, { revision: board.metadata.revision });
+    }
+    case 'PATCH': {
+      const body = (await readBody(request)) as { name?: unknown };
+      if (typeof body.name !== 'string') {
+        return jsonResponse(400, { error: 'Missing name' });
+      }
+      return jsonResponse(200, await backend.renameBoard(boardId, body.name));
+    }
+    case 'DELETE':
+      await backend.deleteBoard(boardId);
+      return new Response(null, { status: 204 });
+    default:
+      return methodNotAllowed();
+  }
+}
+
+/** Everything under /boards/{id}/resources */
+async function handleResources(
+  backend: FileSystemBackend,
+  request: Request,
+  url: URL,
+  rest: string[]
+): Promise<Response> {
+  const method = request.method;
+  if (rest.length === 0) {
+    const path = url.searchParams.get('path') ?? '';
+    switch (method) {
+      case 'GET':
+        return jsonResponse(
+          200,
+          await backend.listResourceFolder(
+            url.searchParams.get('folder') ?? '/'
+          )
+        );
+      case 'PUT':
+        return jsonResponse(
+          200,
+          await backend.uploadResource(path, await request.blob())
+        );
+      case 'DELETE':
+        await backend.deleteResource(path);
+        return new Response(null, { status: 204 });
+      default:
+        return methodNotAllowed();
+    }
+  }
+
+  if (rest.length === 1 && method === 'POST') {
+    const body = (await readBody(request)) as Record<string, unknown>;
+    if (rest[0] === 'move') {
+      if (typeof body.from !== 'string' || typeof body.to !== 'string') {
+        return jsonResponse(400, { error: 'Missing from or to' });
+      }
+      return jsonResponse(
+        200,
+        await backend.renameResource(body.from, body.to)
+      );
+    }
+    if (rest[0] === 'folders') {
+      if (typeof body.path !== 'string') {
+        return jsonResponse(400, { error: 'Missing path' });
+      }
+      await backend.createResourceFolder(body.path);
+      return new Response(null, { status: 204 });
+    }
+  }
+  return notFound();
+}
+
+/**
+ * Adapt a handler to node:http. When used as middleware,
+ * requests outside the base path go to next().
+ */
+export function createNodeListener(
+  handler: BoardHandler,
+  maxBodyBytes: number = 64 * 1024 * 1024
+): (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (err?: unknown) => void
+) => void {
+  return (req, res, next) => {
+    handleNodeRequest(handler, maxBodyBytes, req, res)
+      .then((handled) => {
+        if (!handled) {
+          if (next) {
+            next();
+          } else {
+            res.writeHead(404, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ error: 'Not found' }));
+          }
+        }
+      })
+      .catch((err: unknown) => {
+        if (!res.headersSent) {
+          res.writeHead(500, { 'Content-Type': 'application/json' });
+        }
+        res.end(JSON.stringify({ error: String(err) }));
+      });
+  };
+}
+
+async function handleNodeRequest(
+  handler: BoardHandler,
+  maxBodyBytes: number,
+  req: IncomingMessage,
+  res: ServerResponse
+): Promise<boolean> {
+  const url = `http://${req.headers.host ?? 'localhost'}${req.url ?? '/'}`;
+  const method = req.method ?? 'GET';
+  let body: Buffer | undefined;
+  if (method !== 'GET' && method !== 'HEAD') {
+    body = await readNodeBody(req, maxBodyBytes);
+    if (body === undefined) {
+      res.writeHead(413, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Request body too large' }));
+      return true;
+    }
+  }
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') {
+      headers.set(name, value);
+    } else if (Array.isArray(value)) {
+      value.forEach((v) => headers.append(name, v));
+    }
+  }
+
+  const response = await handler(
+    new Request(url, {
+      method,
+      headers,
+      body: body ? new Uint8Array(body) : null,
+    })
+  );
+  if (!response) {
+    return false;
+  }
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(Buffer.from(await response.arrayBuffer()));
+  return true;
+}
+
+/** The request body, or undefined if it exceeds the limit */
+function readNodeBody(
+  req: IncomingMessage,
+  maxBytes: number
+): Promise<Buffer | undefined> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        req.destroy();
+        resolve(undefined);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+export interface BoardServerOptions
+  extends FileSystemBackendOptions, BoardHandlerOptions {
+  /** Port to listen on. Default 8787; 0 picks a free port */
+  port?: number;
+
+  /** Interface to listen on. Default '127.0.0.1' */
+  host?: string;
+}
+
+/**
+ * Start a board server for a directory. Resource URLs
+ * point at this server's /resources route.
+ */
+export async function startBoardServer(
+  options: BoardServerOptions
+): Promise<Server> {
+  const basePath = (options.basePath ?? '').replace(/\/+$/, '');
+  const backend = new FileSystemBackend({
+    resourceBaseUrl: `${basePath}/resources/`,
+    ...options,
+  });
+  const server = createServer(
+    createNodeListener(createBoardHandler(backend, options))
+  );
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 8787, options.host ?? '127.0.0.1', () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  return server;
+}
+
+async function readBody(request: Request): Promise<unknown> {
+  try {
+    return (await request.json()) as unknown;
+  } catch {
+    throw new RequestError('Request body must be JSON');
+  }
+}
+
+function saveOptions(body: unknown): SaveOptions {
+  const { author, message } = (body ?? {}) as Record<string, unknown>;
+  return {
+    author: typeof author === 'string' ? author : undefined,
+    message: typeof message === 'string' ? message : undefined,
+  };
+}
+
+/** A malformed request, answered with 400 */
+class RequestError extends Error {}
+
+/**
+ * Map an error from the backend to a response by its
+ * class. Other backend errors reject the request; errors
+ * from the filesystem itself are server errors.
+ */
+function errorResponse(err: unknown): Response {
+  if (err instanceof BoardConflictError) {
+    return jsonResponse(409, {
+      error: err.message,
+      currentRevision: err.currentRevision,
+    });
+  }
+  const code = (err as NodeJS.ErrnoException | null)?.code;
+  if (code === 'ENOENT' || code === 'EISDIR') {
+    return notFound();
+  }
+  if (!(err instanceof Error) || code !== undefined) {
+    return jsonResponse(500, { error: 'Internal server error' });
+  }
+  const status =
+    err instanceof NotFoundError
+      ? 404
+      : err instanceof AlreadyExistsError
+        ? 409
+        : 400;
+  return jsonResponse(status, { error: err.message });
+}
+
+function notFound(): Response {
+  return jsonResponse(404, { error: 'Not found' });
+}
+
+function methodNotAllowed(): Response {
+  return jsonResponse(405, { error: 'Method not allowed' });
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
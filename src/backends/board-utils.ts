@@ -0,0 +1,92 @@
+/**
+ * Helpers shared by the board backends.
+ */
+
+import { lookupMimeType } from './mime';
+import type { BoardDefinition, BoardSummary } from '../editor/types';
+
+/**
+ * Build a listing entry from a board's ID and metadata.
+ */
+export function summarizeBoard(board: BoardDefinition): BoardSummary {
+  return {
+    id: board.id,
+    name: board.metadata.name,
+    description: board.metadata.description,
+    author: board.metadata.author,
+    created: board.metadata.created,
+    modified: board.metadata.modified,
+    revision: board.metadata.revision,
+  };
+}
+
+/**
+ * Deep copy a board under a new ID, with fresh timestamps.
+ * The name defaults to the source name plus " (copy)".
+ */
+export function copyBoardAs(
+  source: BoardDefinition,
+  newId: string,
+  newName?: string
+): BoardDefinition {
+  if (!newId) {
+    throw new Error('New board ID must not be empty');
+  }
+  const board = JSON.parse(JSON.stringify(source)) as BoardDefinition;
+  const now = new Date().toISOString();
+  board.id = newId;
+  board.metadata.name =
+    newName ?? `${source.metadata.name ?? source.id} (copy)`;
+  board.metadata.created = now;
+  board.metadata.modified = now;
+  return board;
+}
+
+/**
+ * Set created/modified on a board that is about to be
+ * stored for the first time.
+ */
+export function stampNewBoard(board: BoardDefinition): void {
+  if (!board.id) {
+    throw new Error('Board ID must not be empty');
+  }
+  const now = new Date().toISOString();
+  board.metadata.created ??= now;
+  board.metadata.modified = now;
+}
+
+/**
+ * Encode a Blob as a base64 data: URL. Works in browsers
+ * and Node, unlike FileReader.
+ */
+export async function blobToDataUrl(
+  data: Blob,
+  mimeType: string = data.type || 'application/octet-stream'
+): Promise<string> {
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+}
+
+/**
+ * MIME type for an uploaded resource: the Blob's own type,
+ * else a guess from the file name.
+ */
+export function resourceMimeType(path: string, data: Blob): string {
+  return data.type || lookupMimeType(path) || 'application/octet-stream';
+}
+
+/**
+ * Deep copy a JSON value such as a board, passing every
+ * string in it through a function. Used to rewrite
+ * resource URLs wherever they appear.
+ */
+export function mapStrings<T>(value: T, map: (text: string) => string): T {
+  return JSON.parse(JSON.stringify(value), (_key, item: unknown) =>
+    typeof item === 'string' ? map(item) : item
+  ) as T;
+}
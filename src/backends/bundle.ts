@@ -0,0 +1,249 @@
+/**
+ * Portable board bundles: a zip holding a board and the
+ * resources it references, for moving boards between
+ * installations.
+ *
+ * Layout:
+ *
+ *   manifest.json   { format: 'dashbeard-bundle', version: 1 }
+ *   board.json      BoardDefinition
+ *   resources/...   one entry per referenced resource,
+ *                   at its path in the resource folder
+ *
+ * In board.json every string that was the URL of a
+ * resource is replaced by the relative path of its entry,
+ * such as 'resources/img/logo.png'. Import uploads the
+ * entries and swaps in the URLs the target backend gives.
+ */
+
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { BoardDefinition, IBoardBackend } from '../editor/types';
+import { mapStrings } from './board-utils';
+import { normalizeFilePath, normalizeResourcePath } from './resource-tree';
+
+const BUNDLE_FORMAT = 'dashbeard-bundle';
+const BUNDLE_VERSION = 1;
+const RESOURCE_PREFIX = 'resources/';
+
+/** Stop walking resource folders after this many */
+const MAX_RESOURCE_FOLDERS = 10000;
+
+/** The contents of a bundle, ready to import */
+export interface BoardBundle {
+  /** Board with resource URLs replaced by relative paths */
+  board: BoardDefinition;
+
+  /** File contents keyed by relative path, e.g. 'resources/a.png' */
+  resources: Map<string, Blob>;
+}
+
+export interface ExportBundleOptions {
+  /** Used to download resource contents. Defaults to the global fetch */
+  fetch?: typeof fetch;
+}
+
+export interface ImportBundleOptions {
+  /** Store the board under this ID instead of the bundled one */
+  boardId?: string;
+
+  /**
+   * Folder to upload resources into, keeping their paths
+   * below it. Defaults to '/'. Existing files at the same
+   * paths are replaced.
+   */
+  resourceFolder?: string;
+}
+
+/**
+ * Package a board and every resource it references into
+ * a zip. A resource counts as referenced if some string
+ * in the board is exactly its URL.
+ */
+export async function exportBoardBundle(
+  backend: IBoardBackend,
+  boardId: string,
+  options: ExportBundleOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const board = await backend.load(boardId);
+  delete board.metadata.revision;
+
+  const pathsByUrl = await listResourceUrls(backend);
+  const files: Record<string, Uint8Array> = {};
+  const relativeByUrl = new Map<string, string>();
+
+  for (const url of collectStrings(board)) {
+    const path = pathsByUrl.get(url);
+    if (path === undefined || relativeByUrl.has(url)) {
+      continue;
+    }
+    const response = await fetchImpl(url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to read resource ${path}: HTTP ${response.status}`
+      );
+    }
+    const relative = RESOURCE_PREFIX + path.slice(1);
+    files[relative] = new Uint8Array(await response.arrayBuffer());
+    relativeByUrl.set(url, relative);
+  }
+
+  files['board.json'] = strToU8(
+    JSON.stringify(
+      mapStrings(board, (s) => relativeByUrl.get(s) ?? s),
+      null,
+      2
+    )
+  );
+  files['manifest.json'] = strToU8(
+    JSON.stringify({ format: BUNDLE_FORMAT, version: BUNDLE_VERSION })
+  );
+  // zipSync allocates a new ArrayBuffer for the archive
+  return zipSync(files) as Uint8Array<ArrayBuffer>;
+}
+
+/**
+ * Unpack and check a bundle made by exportBoardBundle.
+ */
+export async function readBoardBundle(
+  data: Uint8Array | Blob
+): Promise<BoardBundle> {
+  const bytes =
+    data instanceof Uint8Array
+      ? data
+      : new Uint8Array(await data.arrayBuffer());
+
+  // unzipSync allocates a new ArrayBuffer for every entry
+  let entries: Record<string, Uint8Array<ArrayBuffer>>;
+  try {
+    entries = unzipSync(bytes) as Record<string, Uint8Array<ArrayBuffer>>;
+  } catch (err) {
+    throw new Error(`Not a valid board bundle: ${String(err)}`);
+  }
+
+  const manifest = parseEntry(entries, 'manifest.json') as {
+    format?: unknown;
+    version?: unknown;
+  };
+  if (manifest.format !== BUNDLE_FORMAT) {
+    throw new Error('Not a board bundle');
+  }
+  if (manifest.version !== BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${String(manifest.version)}`);
+  }
+
+  const board = parseEntry(entries, 'board.json') as BoardDefinition;
+  if (typeof board?.id !== 'string' || typeof board.metadata !== 'object') {
+    throw new Error('Bundle does not contain a valid board');
+  }
+
+  const resources = new Map<string, Blob>();
+  for (const [name, content] of Object.entries(entries)) {
+    if (!name.startsWith(RESOURCE_PREFIX) || name.endsWith('/')) {
+      continue;
+    }
+    // Rejects '..' so entries cannot escape the resource folder
+    normalizeFilePath(name.slice(RESOURCE_PREFIX.length));
+    resources.set(name, new Blob([content]));
+  }
+  return { board, resources };
+}
+
+/**
+ * Upload a bundle's resources into a backend, point the
+ * board at their new URLs and store the board. Uses
+ * createBoard if the backend has it, so an existing board
+ * is never overwritten. Returns the stored board.
+ */
+export async function importBoardBundle(
+  backend: IBoardBackend,
+  bundle: BoardBundle,
+  options: ImportBundleOptions = {}
+): Promise<BoardDefinition> {
+  if (bundle.resources.size > 0 && !backend.uploadResource) {
+    throw new Error('Backend does not support uploading resources');
+  }
+  const folder = normalizeResourcePath(options.resourceFolder ?? '/');
+  const base = folder === '/' ? '' : folder;
+
+  const urlByRelative = new Map<string, string>();
+  for (const [relative, data] of bundle.resources) {
+    const path = base + '/' + relative.slice(RESOURCE_PREFIX.length);
+    const item = await backend.uploadResource!(path, data);
+    if (!item.url) {
+      throw new Error(`Backend returned no URL for ${path}`);
+    }
+    urlByRelative.set(relative, item.url);
+  }
+
+  const board = mapStrings(bundle.board, (s) => urlByRelative.get(s) ?? s);
+  board.id = options.boardId ?? board.id;
+  delete board.metadata.revision;
+
+  if (backend.createBoard) {
+    await backend.createBoard(board);
+  } else {
+    await backend.save(board);
+  }
+  return backend.load(board.id);
+}
+
+/**
+ * Map the URL of every file in the resource folder to
+ * its path, walking folders recursively.
+ */
+async function listResourceUrls(
+  backend: IBoardBackend
+): Promise<Map<string, string>> {
+  const pathsByUrl = new Map<string, string>();
+  const pending = ['/'];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    if (visited.size >= MAX_RESOURCE_FOLDERS) {
+      throw new Error(
+        `More than ${MAX_RESOURCE_FOLDERS} resource folders, not exporting`
+      );
+    }
+    const folder = pending.pop()!;
+    if (visited.has(folder)) {
+      continue;
+    }
+    visited.add(folder);
+    const prefix = folder === '/' ? '/' : folder + '/';
+    for (const item of await backend.listResourceFolder(folder)) {
+      if (item.type === 'folder') {
+        pending.push(prefix + item.name);
+      } else if (item.url && !pathsByUrl.has(item.url)) {
+        pathsByUrl.set(item.url, prefix + item.name);
+      }
+    }
+  }
+  return pathsByUrl;
+}
+
+/** Every string value anywhere in a JSON value */
+function collectStrings(value: unknown, out: string[] = []): string[] {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => collectStrings(item, out));
+  } else if (typeof value === 'object' && value !== null) {
+    Object.values(value).forEach((item) => collectStrings(item, out));
+  }
+  return out;
+}
+
+function parseEntry(
+  entries: Record<string, Uint8Array>,
+  name: string
+): unknown {
+  const content = entries[name];
+  if (!content) {
+    throw new Error(`Bundle is missing ${name}`);
+  }
+  try {
+    return JSON.parse(strFromU8(content)) as unknown;
+  } catch {
+    throw new Error(`Bundle has an invalid ${name}`);
+  }
+}
@@ -0,0 +1,274 @@
+import type {
+  BoardDefinition,
+  BoardRevision,
+  BoardSummary,
+  FileMetadata,
+  IBoardBackend,
+  SaveOptions,
+  SystemTheme,
+} from '../editor/types';
+import { copyBoardAs } from './board-utils';
+import { NotFoundError } from './errors';
+
+export interface CompositeBackendOptions {
+  /** Backend consulted first for every read */
+  primary: IBoardBackend;
+
+  /** Read-only fallbacks, consulted in order after the primary */
+  secondaries?: IBoardBackend[];
+
+  /** Backend that receives saves. Defaults to the primary */
+  writeTarget?: IBoardBackend;
+}
+
+/**
+ * Layers several backends into one. Boards load from the
+ * first backend that has them, resource folders and
+ * system themes are merged, and writes go to a single
+ * target. Typical use is user boards in one store with
+ * shared themes and resources served from another.
+ *
+ * On name collisions the earlier backend wins, so the
+ * primary can override shared resources and themes.
+ * Board management and resource writes go to the write
+ * target, except that duplicateBoard can copy a board
+ * from any layer, so shared boards work as templates.
+ * Revision history is read from the first layer that
+ * has it; restores go to the write target.
+ */
+export class CompositeBackend implements IBoardBackend {
+  private readonly layers: IBoardBackend[];
+  private readonly writeTarget: IBoardBackend;
+
+  constructor(options: CompositeBackendOptions) {
+    if (!options.primary) {
+      throw new Error('CompositeBackend requires a primary backend');
+    }
+    this.layers = [options.primary, ...(options.secondaries ?? [])];
+    this.writeTarget = options.writeTarget ?? options.primary;
+  }
+
+  /**
+   * Load from the first layer that succeeds. If every
+   * layer fails, the primary's error is rethrown.
+   */
+  async load(boardId?: string): Promise<BoardDefinition> {
+    let firstError: unknown = null;
+    for (const layer of this.layers) {
+      try {
+        return await layer.load(boardId);
+      } catch (err) {
+        firstError ??= err;
+      }
+    }
+    throw firstError;
+  }
+
+  async save(board: BoardDefinition, options?: SaveOptions): Promise<void> {
+    await this.writeTarget.save(board, options);
+  }
+
+  /**
+   * List the boards of every layer that can list them,
+   * dropping later duplicates by ID.
+   */
+  async listBoards(): Promise<BoardSummary[]> {
+    const merged = new Map<string, BoardSummary>();
+    for (const layer of this.layers) {
+      if (!layer.listBoards) {
+        continue;
+      }
+      for (const summary of await layer.listBoards()) {
+        if (!merged.has(summary.id)) {
+          merged.set(summary.id, summary);
+        }
+      }
+    }
+    return [...merged.values()];
+  }
+
+  async createBoard(board: BoardDefinition): Promise<BoardSummary> {
+    if (!this.writeTarget.createBoard) {
+      throw new Error('Write target does not support creating boards');
+    }
+    return this.writeTarget.createBoard(board);
+  }
+
+  async duplicateBoard(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary> {
+    const source = await this.load(sourceId);
+    return this.createBoard(copyBoardAs(source, newId, newName));
+  }
+
+  async renameBoard(boardId: string, name: string): Promise<BoardSummary> {
+    if (!this.writeTarget.renameBoard) {
+      throw new Error('Write target does not support renaming boards');
+    }
+    return this.writeTarget.renameBoard(boardId, name);
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    if (!this.writeTarget.deleteBoard) {
+      throw new Error('Write target does not support deleting boards');
+    }
+    await this.writeTarget.deleteBoard(boardId);
+  }
+
+  /**
+   * List revisions from the first layer that keeps
+   * history for the board. Empty if no layer keeps any.
+   */
+  async listRevisions(boardId: string): Promise<BoardRevision[]> {
+    return this.firstWithHistory((layer) => layer.listRevisions?.(boardId), []);
+  }
+
+  async loadRevision(
+    boardId: string,
+    revisionId: string
+  ): Promise<BoardDefinition> {
+    const board = await this.firstWithHistory(
+      (layer) => layer.loadRevision?.(boardId, revisionId),
+      null
+    );
+    if (!board) {
+      throw new NotFoundError(`Revision not found: ${revisionId}`);
+    }
+    return board;
+  }
+
+  async restoreRevision(
+    boardId: string,
+    revisionId: string,
+    options?: SaveOptions
+  ): Promise<BoardDefinition> {
+    if (!this.writeTarget.restoreRevision) {
+      throw new Error('Write target does not support restoring revisions');
+    }
+    return this.writeTarget.restoreRevision(boardId, revisionId, options);
+  }
+
+  /**
+   * Run a history read on each layer that supports it and
+   * return the first success. Layers without the method
+   * are skipped; if none has it, returns the fallback.
+   */
+  private async firstWithHistory<T, F>(
+    read: (layer: IBoardBackend) => Promise<T> | undefined,
+    fallback: F
+  ): Promise<T | F> {
+    let firstError: unknown = null;
+    let supported = false;
+    for (const layer of this.layers) {
+      const pending = read(layer);
+      if (!pending) {
+        continue;
+      }
+      supported = true;
+      try {
+        return await pending;
+      } catch (err) {
+        firstError ??= err;
+      }
+    }
+    if (supported) {
+      throw firstError;
+    }
+    return fallback;
+  }
+
+  /**
+   * Merge the folder listing of every layer. A layer that
+   * does not have the folder is skipped; it is only an
+   * error if no layer has it.
+   */
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    const results = await Promise.allSettled(
+      this.layers.map((layer) => layer.listResourceFolder(folder))
+    );
+
+    const merged = new Map<string, FileMetadata>();
+    let anySucceeded = false;
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        continue;
+      }
+      anySucceeded = true;
+      for (const item of result.value) {
+        if (!merged.has(item.name)) {
+          merged.set(item.name, item);
+        }
+      }
+    }
+
+    if (!anySucceeded) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return [...merged.values()];
+  }
+
+  async uploadResource(path: string, data: Blob): Promise<FileMetadata> {
+    if (!this.writeTarget.uploadResource) {
+      throw new Error('Write target does not support uploading resources');
+    }
+    return this.writeTarget.uploadResource(path, data);
+  }
+
+  async deleteResource(path: string): Promise<void> {
+    if (!this.writeTarget.deleteResource) {
+      throw new Error('Write target does not support deleting resources');
+    }
+    await this.writeTarget.deleteResource(path);
+  }
+
+  async renameResource(
+    fromPath: string,
+    toPath: string
+  ): Promise<FileMetadata> {
+    if (!this.writeTarget.renameResource) {
+      throw new Error('Write target does not support renaming resources');
+    }
+    return this.writeTarget.renameResource(fromPath, toPath);
+  }
+
+  async createResourceFolder(path: string): Promise<void> {
+    if (!this.writeTarget.createResourceFolder) {
+      throw new Error('Write target does not support creating folders');
+    }
+    await this.writeTarget.createResourceFolder(path);
+  }
+
+  /**
+   * Concatenate the themes of every layer that provides
+   * them, dropping later duplicates by name.
+   */
+  async getSystemThemes(): Promise<SystemTheme[]> {
+    const providers = this.layers.filter(
+      (layer) => layer.getSystemThemes !== undefined
+    );
+    const results = await Promise.allSettled(
+      providers.map((layer) => layer.getSystemThemes!())
+    );
+
+    const merged = new Map<string, SystemTheme>();
+    let anySucceeded = providers.length === 0;
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        continue;
+      }
+      anySucceeded = true;
+      for (const theme of result.value) {
+        if (!merged.has(theme.name)) {
+          merged.set(theme.name, theme);
+        }
+      }
+    }
+
+    if (!anySucceeded) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+    return [...merged.values()];
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Optimistic concurrency for board saves. Backends stamp
+ * each stored board with a revision token, and a save is
+ * refused if the token it carries is no longer current.
+ */
+
+import type { BoardDefinition, SaveOptions } from '../editor/types';
+
+/**
+ * The stored board changed after the saved copy was
+ * loaded. Reload, or save again with { force: true }.
+ */
+export class BoardConflictError extends Error {
+  constructor(
+    readonly boardId: string,
+    /** Revision the saved copy was loaded from */
+    readonly expectedRevision: string,
+    /** Revision currently stored, if the backend reported it */
+    readonly currentRevision?: string
+  ) {
+    super(`Board ${boardId} was changed by someone else`);
+    this.name = 'BoardConflictError';
+  }
+}
+
+/**
+ * Throw BoardConflictError if a board may not be saved
+ * over the stored copy. Boards without a token, new
+ * boards and forced saves always pass.
+ */
+export function checkRevision(
+  stored: BoardDefinition | null | undefined,
+  board: BoardDefinition,
+  options: SaveOptions = {}
+): void {
+  const expected = board.metadata.revision;
+  if (options.force || expected === undefined || !stored) {
+    return;
+  }
+  if (stored.metadata.revision !== expected) {
+    throw new BoardConflictError(board.id, expected, stored.metadata.revision);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Board server for the Vite dev server, loaded by the
+ * plugin in vite.config.ts. Serves the protocol on /api
+ * from a directory, starting with the example board.
+ */
+
+import { createBoardHandler, createNodeListener } from './board-server';
+import { FileSystemBackend } from './filesystem';
+import { defaultBoard } from './memory';
+
+export function createDevListener(
+  root: string
+): ReturnType<typeof createNodeListener> {
+  const backend = new FileSystemBackend({
+    root,
+    resourceBaseUrl: '/api/resources/',
+    initialBoard: defaultBoard,
+  });
+  return createNodeListener(createBoardHandler(backend, { basePath: '/api' }));
+}
@@ -0,0 +1,21 @@
+/**
+ * Errors backends throw for requests that can't be served,
+ * so callers like the board server can tell them apart
+ * without reading the message.
+ */
+
+/** The board, folder or resource does not exist */
+export class NotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NotFoundError';
+  }
+}
+
+/** Something already exists where a new one would go */
+export class AlreadyExistsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AlreadyExistsError';
+  }
+}
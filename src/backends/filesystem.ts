@@ -0,0 +1,506 @@
+/**
+ * Node.js filesystem backend. Not for the browser: serve
+ * it with board-server.ts and use ApiBackend there.
+ *
+ * Layout below the root directory:
+ *
+ *   boards/{boardId}.json     current board
+ *   history/{boardId}.json    StoredRevision[], oldest first
+ *   resources/...             resource files and folders,
+ *                             shared by all boards
+ *
+ * Board IDs are URI encoded in file names. Every file is
+ * written to a temporary file first and renamed into
+ * place, so a crash never leaves a half-written board.
+ */
+
+import { randomBytes } from 'node:crypto';
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rmdir,
+  stat,
+  unlink,
+  writeFile,
+} from 'node:fs/promises';
+import { dirname, join, resolve, sep } from 'node:path';
+import type {
+  BoardDefinition,
+  BoardRevision,
+  BoardSummary,
+  FileMetadata,
+  IBoardBackend,
+  SaveOptions,
+  SystemTheme,
+} from '../editor/types';
+import { copyBoardAs, stampNewBoard, summarizeBoard } from './board-utils';
+import { normalizeFilePath, normalizeResourcePath } from './resource-tree';
+import {
+  RevisionLog,
+  restoreOptions,
+  type StoredRevision,
+} from './revision-log';
+import { checkRevision } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
+
+export interface FileSystemBackendOptions {
+  /** Directory holding boards, history and resources */
+  root: string;
+
+  /** Board loaded when load() is called without an ID. Default 'main' */
+  boardId?: string;
+
+  /**
+   * URL prefix under which the resources directory is
+   * served, used to build resource URLs. Default
+   * '/resources/'.
+   */
+  resourceBaseUrl?: string;
+
+  /** Board returned by load() if nothing has been saved yet */
+  initialBoard?: BoardDefinition;
+
+  /** Themes returned by getSystemThemes() */
+  systemThemes?: SystemTheme[];
+
+  /** Revisions kept per board, oldest dropped first. Default 50 */
+  maxRevisions?: number;
+}
+
+export class FileSystemBackend implements IBoardBackend {
+  readonly boardId: string;
+  readonly root: string;
+  private readonly resourceBaseUrl: string;
+  private readonly initialBoard: BoardDefinition | null;
+  private readonly systemThemes: SystemTheme[];
+  private readonly maxRevisions: number;
+
+  /** Serializes writes, so read-check-write sequences do not interleave */
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: FileSystemBackendOptions) {
+    if (!options.root) {
+      throw new Error('FileSystemBackend requires a root directory');
+    }
+    this.root = resolve(options.root);
+    this.boardId = options.boardId ?? 'main';
+    this.resourceBaseUrl = (options.resourceBaseUrl ?? '/resources/').replace(
+      /\/*$/,
+      '/'
+    );
+    this.initialBoard = options.initialBoard
+      ? copy(options.initialBoard)
+      : null;
+    this.systemThemes = copy(options.systemThemes ?? []);
+    this.maxRevisions = options.maxRevisions ?? 50;
+    if (!(this.maxRevisions >= 1)) {
+      throw new Error('maxRevisions must be at least 1');
+    }
+  }
+
+  private get resourcesDir(): string {
+    return join(this.root, 'resources');
+  }
+
+  private boardFile(boardId: string): string {
+    if (!boardId) {
+      throw new Error('Board ID must not be empty');
+    }
+    return join(this.root, 'boards', fileName(boardId));
+  }
+
+  private historyFile(boardId: string): string {
+    return join(this.root, 'history', fileName(boardId));
+  }
+
+  async load(boardId: string = this.boardId): Promise<BoardDefinition> {
+    const stored = await this.stored(boardId);
+    if (stored === null) {
+      if (this.initialBoard && boardId === this.boardId) {
+        const board = copy(this.initialBoard);
+        board.id = this.boardId;
+        return board;
+      }
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return stored;
+  }
+
+  async save(board: BoardDefinition, options?: SaveOptions): Promise<void> {
+    await this.exclusive(async () => {
+      checkRevision(await this.stored(board.id), board, options);
+      board.metadata.modified = new Date().toISOString();
+      await this.writeBoard(board, options);
+    });
+  }
+
+  async listBoards(): Promise<BoardSummary[]> {
+    const dir = join(this.root, 'boards');
+    const names = await readdir(dir).catch(ignoreMissing([]));
+    const summaries: BoardSummary[] = [];
+    for (const name of names) {
+      if (name.endsWith('.json') && !name.startsWith('.')) {
+        const board = await this.stored(decodeURIComponent(name.slice(0, -5)));
+        if (board) {
+          summaries.push(summarizeBoard(board));
+        }
+      }
+    }
+    return summaries.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async createBoard(board: BoardDefinition): Promise<BoardSummary> {
+    return this.exclusive(async () => {
+      await this.assertFree(board.id);
+      stampNewBoard(board);
+      await this.writeBoard(board, { message: 'Created' });
+      return summarizeBoard(board);
+    });
+  }
+
+  async duplicateBoard(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary> {
+    return this.exclusive(async () => {
+      const source = await this.load(sourceId);
+      await this.assertFree(newId);
+      const board = copyBoardAs(source, newId, newName);
+      await this.writeBoard(board, { message: `Duplicated from ${sourceId}` });
+      return summarizeBoard(board);
+    });
+  }
+
+  async renameBoard(boardId: string, name: string): Promise<BoardSummary> {
+    const board = await this.load(boardId);
+    board.metadata.name = name;
+    await this.save(board, { message: `Renamed to ${name}` });
+    return summarizeBoard(board);
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    await this.exclusive(async () => {
+      try {
+        await unlink(this.boardFile(boardId));
+      } catch (err) {
+        if (isMissing(err)) {
+          throw new NotFoundError(`Board not found: ${boardId}`);
+        }
+        throw err;
+      }
+      await unlink(this.historyFile(boardId)).catch(ignoreMissing(undefined));
+    });
+  }
+
+  async listRevisions(boardId: string): Promise<BoardRevision[]> {
+    return (await this.history(boardId)).list();
+  }
+
+  async loadRevision(
+    boardId: string,
+    revisionId: string
+  ): Promise<BoardDefinition> {
+    return (await this.history(boardId)).get(revisionId);
+  }
+
+  async restoreRevision(
+    boardId: string,
+    revisionId: string,
+    options?: SaveOptions
+  ): Promise<BoardDefinition> {
+    return this.exclusive(async () => {
+      const log = await this.history(boardId);
+      const board = log.restore(boardId, revisionId);
+      await this.writeBoard(board, restoreOptions(revisionId, options));
+      return board;
+    });
+  }
+
+  /** The stored copy of a board, or null */
+  private async stored(boardId: string): Promise<BoardDefinition | null> {
+    return readJson<BoardDefinition | null>(this.boardFile(boardId), null);
+  }
+
+  /** History of an existing board */
+  private async history(boardId: string): Promise<RevisionLog> {
+    if ((await this.stored(boardId)) === null) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return this.readRevisions(boardId);
+  }
+
+  private async readRevisions(boardId: string): Promise<RevisionLog> {
+    return new RevisionLog(
+      await readJson<StoredRevision[]>(this.historyFile(boardId), []),
+      this.maxRevisions
+    );
+  }
+
+  /**
+   * Record a board as a revision, which stamps it with
+   * the new revision token, and store it. History goes
+   * first, so the board file never names a revision that
+   * is missing from it.
+   */
+  private async writeBoard(
+    board: BoardDefinition,
+    options?: SaveOptions
+  ): Promise<void> {
+    const log = await this.readRevisions(board.id);
+    const previous = board.metadata.revision;
+    log.record(board, options);
+    try {
+      await writeFileAtomic(
+        this.historyFile(board.id),
+        JSON.stringify(log.entries)
+      );
+      await writeFileAtomic(
+        this.boardFile(board.id),
+        JSON.stringify(board, null, 2)
+      );
+    } catch (err) {
+      board.metadata.revision = previous;
+      throw err;
+    }
+  }
+
+  private async assertFree(boardId: string): Promise<void> {
+    if ((await this.stored(boardId)) !== null) {
+      throw new AlreadyExistsError(`Board already exists: ${boardId}`);
+    }
+  }
+
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    const base = normalizeResourcePath(folder);
+    let entries;
+    try {
+      entries = await readdir(this.resourceFile(base), {
+        withFileTypes: true,
+      });
+    } catch (err) {
+      if (base === '/' && isMissing(err)) {
+        return [];
+      }
+      if (isMissing(err) || isCode(err, 'ENOTDIR')) {
+        throw new NotFoundError('No such folder ' + folder);
+      }
+      throw err;
+    }
+
+    const prefix = base === '/' ? '/' : base + '/';
+    const folders: FileMetadata[] = [];
+    const files: FileMetadata[] = [];
+    for (const entry of entries) {
+      // Dot files include in-progress atomic writes
+      if (entry.name.startsWith('.')) {
+        continue;
+      }
+      const path = prefix + entry.name;
+      if (entry.isDirectory()) {
+        folders.push({ name: entry.name, size: 0, type: 'folder' });
+      } else if (entry.isFile()) {
+        const { size } = await stat(this.resourceFile(path));
+        files.push({
+          name: entry.name,
+          url: this.resourceUrl(path),
+          size,
+          type: 'file',
+        });
+      }
+    }
+    folders.sort((a, b) => a.name.localeCompare(b.name));
+    files.sort((a, b) => a.name.localeCompare(b.name));
+    return [...folders, ...files];
+  }
+
+  async uploadResource(path: string, data: Blob): Promise<FileMetadata> {
+    const normalized = normalizeFilePath(path);
+    const file = this.resourceFile(normalized);
+    return this.exclusive(async () => {
+      if ((await statOrNull(file))?.isDirectory()) {
+        throw new AlreadyExistsError(
+          `A folder already exists at ${normalized}`
+        );
+      }
+      await writeFileAtomic(file, new Uint8Array(await data.arrayBuffer()));
+      return {
+        name: normalized.slice(normalized.lastIndexOf('/') + 1),
+        url: this.resourceUrl(normalized),
+        size: data.size,
+        type: 'file',
+      };
+    });
+  }
+
+  async deleteResource(path: string): Promise<void> {
+    const normalized = normalizeFilePath(path);
+    const file = this.resourceFile(normalized);
+    await this.exclusive(async () => {
+      const stats = await statOrNull(file);
+      if (!stats) {
+        throw new NotFoundError(`Resource not found: ${normalized}`);
+      }
+      if (!stats.isDirectory()) {
+        await unlink(file);
+        return;
+      }
+      try {
+        await rmdir(file);
+      } catch (err) {
+        if (isCode(err, 'ENOTEMPTY') || isCode(err, 'EEXIST')) {
+          throw new Error(`Folder is not empty: ${normalized}`);
+        }
+        throw err;
+      }
+    });
+  }
+
+  async renameResource(
+    fromPath: string,
+    toPath: string
+  ): Promise<FileMetadata> {
+    const source = normalizeFilePath(fromPath);
+    const target = normalizeFilePath(toPath);
+    return this.exclusive(async () => {
+      const stats = await statOrNull(this.resourceFile(source));
+      if (!stats) {
+        throw new NotFoundError(`Resource not found: ${source}`);
+      }
+      if (await statOrNull(this.resourceFile(target))) {
+        throw new AlreadyExistsError(`Resource already exists: ${target}`);
+      }
+      if (target.startsWith(source + '/')) {
+        throw new Error('Cannot move a folder into itself');
+      }
+      const file = this.resourceFile(target);
+      await mkdir(dirname(file), { recursive: true });
+      await rename(this.resourceFile(source), file);
+
+      const name = target.slice(target.lastIndexOf('/') + 1);
+      return stats.isDirectory()
+        ? { name, size: 0, type: 'folder' }
+        : {
+            name,
+            url: this.resourceUrl(target),
+            size: stats.size,
+            type: 'file',
+          };
+    });
+  }
+
+  async createResourceFolder(path: string): Promise<void> {
+    const normalized = normalizeFilePath(path);
+    const dir = this.resourceFile(normalized);
+    await this.exclusive(async () => {
+      const stats = await statOrNull(dir);
+      if (stats && !stats.isDirectory()) {
+        throw new AlreadyExistsError(`A file already exists at ${normalized}`);
+      }
+      await mkdir(dir, { recursive: true });
+    });
+  }
+
+  async getSystemThemes(): Promise<SystemTheme[]> {
+    return copy(this.systemThemes);
+  }
+
+  /**
+   * Absolute filesystem path of a resource path such as
+   * '/img/logo.png'. Throws for paths that would resolve
+   * outside the resources directory.
+   */
+  resourceFile(path: string): string {
+    if (path.includes('\0') || path.includes('\\')) {
+      throw new Error('Invalid resource path ' + path);
+    }
+    const root = this.resourcesDir;
+    const file = resolve(root, '.' + normalizeResourcePath(path));
+    if (file !== root && !file.startsWith(root + sep)) {
+      throw new Error('Invalid resource path ' + path);
+    }
+    return file;
+  }
+
+  private resourceUrl(path: string): string {
+    return (
+      this.resourceBaseUrl +
+      path.slice(1).split('/').map(encodeURIComponent).join('/')
+    );
+  }
+
+  private exclusive<T>(action: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(action);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * File name for a board ID. A leading dot is encoded too,
+ * as dot files are skipped when listing.
+ */
+function fileName(boardId: string): string {
+  return encodeURIComponent(boardId).replace(/^\./, '%2E') + '.json';
+}
+
+/**
+ * Write a file by writing a temporary file next to it and
+ * renaming it into place. Creates missing directories.
+ */
+async function writeFileAtomic(
+  file: string,
+  data: string | Uint8Array
+): Promise<void> {
+  const dir = dirname(file);
+  await mkdir(dir, { recursive: true });
+  const temp = join(dir, `.${randomBytes(6).toString('hex')}.tmp`);
+  try {
+    await writeFile(temp, data, { flush: true });
+    await rename(temp, file);
+  } catch (err) {
+    await unlink(temp).catch(() => undefined);
+    throw err;
+  }
+}
+
+async function readJson<T>(file: string, fallback: T): Promise<T> {
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (err) {
+    if (isMissing(err)) {
+      return fallback;
+    }
+    throw err;
+  }
+  return JSON.parse(text) as T;
+}
+
+async function statOrNull(file: string) {
+  return stat(file).catch(ignoreMissing(null));
+}
+
+/** Rejection handler that turns ENOENT into a value */
+function ignoreMissing<T>(value: T): (err: unknown) => T {
+  return (err) => {
+    if (isMissing(err)) {
+      return value;
+    }
+    throw err;
+  };
+}
+
+function isMissing(err: unknown): boolean {
+  return isCode(err, 'ENOENT');
+}
+
+function isCode(err: unknown, code: string): boolean {
+  return (err as NodeJS.ErrnoException | null)?.code === code;
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
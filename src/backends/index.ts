@@ -1,11 +1,56 @@
-import { MemoryBackend } from "./memory"
+import { MemoryBackend } from './memory';
+import { LocalStorageBackend } from './local-storage';
+import { IndexedDbBackend } from './indexed-db';
+import {
+  ApiBackend,
+  ApiError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiProtocolError,
+  ApiTimeoutError,
+} from './api';
+import { MockApiServer } from './api-mock-server';
+import { CompositeBackend } from './composite';
+import { BoardConflictError } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
+import {
+  exportBoardBundle,
+  importBoardBundle,
+  readBoardBundle,
+} from './bundle';
 
 /**
  * Storage abstraction layer for boards.
  * Different backends can persist boards in
  * various ways (filesystem, database, API, etc).
- */  
+ */
 
-export{
-  MemoryBackend
-}
\ No newline at end of file
+export {
+  MemoryBackend,
+  LocalStorageBackend,
+  IndexedDbBackend,
+  ApiBackend,
+  ApiError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiProtocolError,
+  ApiTimeoutError,
+  MockApiServer,
+  CompositeBackend,
+  BoardConflictError,
+  NotFoundError,
+  AlreadyExistsError,
+  exportBoardBundle,
+  importBoardBundle,
+  readBoardBundle,
+};
+export type { LocalStorageBackendOptions } from './local-storage';
+export type { IndexedDbBackendOptions } from './indexed-db';
+export type { ApiBackendOptions, ApiHeaders } from './api';
+export type { MockApiServerOptions } from './api-mock-server';
+export type { CompositeBackendOptions } from './composite';
+export type {
+  BoardBundle,
+  ExportBundleOptions,
+  ImportBundleOptions,
+} from './bundle';
@@ -0,0 +1,502 @@
+import {
+  openDB,
+  type DBSchema,
+  type IDBPDatabase,
+  type IDBPTransaction,
+} from 'idb';
+import type {
+  BoardDefinition,
+  BoardRevision,
+  BoardSummary,
+  FileMetadata,
+  IBoardBackend,
+  SaveOptions,
+  SystemTheme,
+} from '../editor/types';
+import {
+  copyBoardAs,
+  mapStrings,
+  resourceMimeType,
+  stampNewBoard,
+  summarizeBoard,
+} from './board-utils';
+import {
+  ResourceTree,
+  normalizeFilePath,
+  type StoredResource,
+} from './resource-tree';
+import {
+  RevisionLog,
+  restoreOptions,
+  type StoredRevision,
+} from './revision-log';
+import { checkRevision } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
+
+export interface IndexedDbBackendOptions {
+  /** Database name, so several apps can share one origin */
+  databaseName?: string;
+
+  /** Board returned by load() if nothing has been saved yet */
+  initialBoard?: BoardDefinition;
+
+  /** Themes returned by getSystemThemes() */
+  systemThemes?: SystemTheme[];
+
+  /** Revisions kept per board, oldest dropped first. Default 50 */
+  maxRevisions?: number;
+}
+
+/** A resource file as stored in the database */
+interface StoredBlob {
+  /** Stays the same across renames, so the file keeps its object URL */
+  id: string;
+  data: Blob;
+}
+
+interface BoardDatabase extends DBSchema {
+  /** Boards keyed by ID */
+  boards: { key: string; value: BoardDefinition };
+
+  /** Revision history keyed by board ID, oldest first */
+  revisions: { key: string; value: StoredRevision[] };
+
+  /** Resource files keyed by path */
+  resources: { key: string; value: StoredBlob };
+
+  /** Explicitly created folders, keyed and valued by path */
+  folders: { key: string; value: string };
+}
+
+const DATABASE_VERSION = 1;
+
+/**
+ * Object URLs only live as long as the page, so stored
+ * boards refer to resources as 'idb-resource:/path' and
+ * get current object URLs when loaded.
+ */
+const RESOURCE_REF = 'idb-resource:';
+
+/**
+ * IndexedDB storage backend.
+ * Holds any number of boards with their revision history,
+ * plus a resource folder shared by all boards. Resources
+ * are stored as Blobs, so images and video are not limited
+ * by localStorage quotas or inflated by base64, and are
+ * listed with object URLs. The constructor's board ID is
+ * the default for load().
+ */
+export class IndexedDbBackend implements IBoardBackend {
+  readonly boardId: string;
+  private readonly databaseName: string;
+  private readonly initialBoard: BoardDefinition | null;
+  private readonly systemThemes: SystemTheme[];
+  private readonly maxRevisions: number;
+  private database: Promise<IDBPDatabase<BoardDatabase>> | null = null;
+
+  /** Object URL of each resource file, by file ID */
+  private objectUrls = new Map<string, string>();
+
+  /** Resource path of each object URL handed out */
+  private urlPaths = new Map<string, string>();
+
+  constructor(boardId: string, options: IndexedDbBackendOptions = {}) {
+    if (!boardId) {
+      throw new Error('IndexedDbBackend requires a board ID');
+    }
+    if (!globalThis.indexedDB) {
+      throw new Error('IndexedDB is not available in this environment');
+    }
+
+    this.boardId = boardId;
+    this.databaseName = options.databaseName ?? 'dashbeard';
+    this.initialBoard = options.initialBoard
+      ? copy(options.initialBoard)
+      : null;
+    this.systemThemes = copy(options.systemThemes ?? []);
+    this.maxRevisions = options.maxRevisions ?? 50;
+    if (!(this.maxRevisions >= 1)) {
+      throw new Error('maxRevisions must be at least 1');
+    }
+  }
+
+  private db(): Promise<IDBPDatabase<BoardDatabase>> {
+    this.database ??= openDB<BoardDatabase>(
+      this.databaseName,
+      DATABASE_VERSION,
+      {
+        upgrade(db) {
+          db.createObjectStore('boards');
+          db.createObjectStore('revisions');
+          db.createObjectStore('resources');
+          db.createObjectStore('folders');
+        },
+      }
+    );
+    return this.database;
+  }
+
+  async load(boardId: string = this.boardId): Promise<BoardDefinition> {
+    const stored = await (await this.db()).get('boards', boardId);
+    if (!stored) {
+      if (this.initialBoard && boardId === this.boardId) {
+        const board = copy(this.initialBoard);
+        board.id = this.boardId;
+        return board;
+      }
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return this.resolveResources(stored);
+  }
+
+  async save(board: BoardDefinition, options?: SaveOptions): Promise<void> {
+    if (!board.id) {
+      throw new Error('Board ID must not be empty');
+    }
+    const tx = (await this.db()).transaction(
+      ['boards', 'revisions'],
+      'readwrite'
+    );
+    checkRevision(await tx.objectStore('boards').get(board.id), board, options);
+    board.metadata.modified = new Date().toISOString();
+    const revision = await this.writeBoard(tx, board, options);
+    await tx.done;
+    board.metadata.revision = revision;
+  }
+
+  async listBoards(): Promise<BoardSummary[]> {
+    const boards = await (await this.db()).getAll('boards');
+    return boards.map(summarizeBoard).sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async createBoard(board: BoardDefinition): Promise<BoardSummary> {
+    stampNewBoard(board);
+    const tx = (await this.db()).transaction(
+      ['boards', 'revisions'],
+      'readwrite'
+    );
+    if ((await tx.objectStore('boards').getKey(board.id)) !== undefined) {
+      throw new AlreadyExistsError(`Board already exists: ${board.id}`);
+    }
+    board.metadata.revision = await this.writeBoard(tx, board, {
+      message: 'Created',
+    });
+    await tx.done;
+    return summarizeBoard(board);
+  }
+
+  async duplicateBoard(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary> {
+    const tx = (await this.db()).transaction(
+      ['boards', 'revisions'],
+      'readwrite'
+    );
+    const boards = tx.objectStore('boards');
+    const source = await boards.get(sourceId);
+    if (!source) {
+      throw new NotFoundError(`Board not found: ${sourceId}`);
+    }
+    if ((await boards.getKey(newId)) !== undefined) {
+      throw new AlreadyExistsError(`Board already exists: ${newId}`);
+    }
+    const board = copyBoardAs(source, newId, newName);
+    board.metadata.revision = await this.writeBoard(tx, board, {
+      message: `Duplicated from ${sourceId}`,
+    });
+    await tx.done;
+    return summarizeBoard(board);
+  }
+
+  async renameBoard(boardId: string, name: string): Promise<BoardSummary> {
+    const board = await this.load(boardId);
+    board.metadata.name = name;
+    await this.save(board, { message: `Renamed to ${name}` });
+    return summarizeBoard(board);
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    const tx = (await this.db()).transaction(
+      ['boards', 'revisions'],
+      'readwrite'
+    );
+    if ((await tx.objectStore('boards').getKey(boardId)) === undefined) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    await tx.objectStore('boards').delete(boardId);
+    await tx.objectStore('revisions').delete(boardId);
+    await tx.done;
+  }
+
+  async listRevisions(boardId: string): Promise<BoardRevision[]> {
+    return (await this.history(boardId)).list();
+  }
+
+  async loadRevision(
+    boardId: string,
+    revisionId: string
+  ): Promise<BoardDefinition> {
+    const board = (await this.history(boardId)).get(revisionId);
+    return this.resolveResources(board);
+  }
+
+  async restoreRevision(
+    boardId: string,
+    revisionId: string,
+    options?: SaveOptions
+  ): Promise<BoardDefinition> {
+    const board = (await this.history(boardId)).restore(boardId, revisionId);
+    const tx = (await this.db()).transaction(
+      ['boards', 'revisions'],
+      'readwrite'
+    );
+    board.metadata.revision = await this.writeBoard(
+      tx,
+      board,
+      restoreOptions(revisionId, options)
+    );
+    await tx.done;
+    return this.resolveResources(board);
+  }
+
+  /**
+   * Record a board as a revision and store it, in the
+   * caller's transaction. Resource object URLs are stored
+   * as references. Returns the new revision token.
+   */
+  private async writeBoard(
+    tx: BoardTransaction,
+    board: BoardDefinition,
+    options?: SaveOptions
+  ): Promise<string> {
+    const stored = mapStrings(board, (text) => {
+      const path = this.urlPaths.get(text);
+      return path === undefined ? text : RESOURCE_REF + path;
+    });
+    const revisions = tx.objectStore('revisions');
+    const log = new RevisionLog(
+      (await revisions.get(board.id)) ?? [],
+      this.maxRevisions
+    );
+    log.record(stored, options);
+    await tx.objectStore('boards').put(stored, board.id);
+    await revisions.put(log.entries, board.id);
+    return stored.metadata.revision!;
+  }
+
+  private async history(boardId: string): Promise<RevisionLog> {
+    const tx = (await this.db()).transaction(['boards', 'revisions']);
+    if ((await tx.objectStore('boards').getKey(boardId)) === undefined) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return new RevisionLog(
+      (await tx.objectStore('revisions').get(boardId)) ?? []
+    );
+  }
+
+  /**
+   * Replace resource references in a stored board with
+   * the current object URLs. References to files that no
+   * longer exist are left as they are.
+   */
+  private async resolveResources(
+    board: BoardDefinition
+  ): Promise<BoardDefinition> {
+    if (!JSON.stringify(board).includes(RESOURCE_REF)) {
+      return board;
+    }
+    const { files } = await this.readResources();
+    return mapStrings(board, (text) =>
+      text.startsWith(RESOURCE_REF)
+        ? (files.get(text.slice(RESOURCE_REF.length))?.url ?? text)
+        : text
+    );
+  }
+
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    return (await this.readResources()).list(folder);
+  }
+
+  async uploadResource(path: string, data: Blob): Promise<FileMetadata> {
+    const normalized = normalizeFilePath(path);
+    const blob = new Blob([data], { type: resourceMimeType(path, data) });
+    const file: StoredBlob = { id: newFileId(), data: blob };
+
+    const tx = (await this.db()).transaction(
+      ['resources', 'folders'],
+      'readwrite'
+    );
+    const tree = await this.readResources(tx);
+    // Validates the path against existing folders
+    tree.put(normalized, '', blob.size);
+    const replaced = await tx.objectStore('resources').get(normalized);
+    await tx.objectStore('resources').put(file, normalized);
+    await tx.done;
+
+    if (replaced) {
+      this.forgetUrl(replaced.id);
+    }
+    const url = this.objectUrl(file);
+    this.urlPaths.set(url, normalized);
+    return {
+      name: normalized.slice(normalized.lastIndexOf('/') + 1),
+      url,
+      size: blob.size,
+      type: 'file',
+    };
+  }
+
+  async deleteResource(path: string): Promise<void> {
+    await this.updateResources((tree) => tree.delete(path));
+  }
+
+  async renameResource(
+    fromPath: string,
+    toPath: string
+  ): Promise<FileMetadata> {
+    return this.updateResources((tree) => tree.rename(fromPath, toPath));
+  }
+
+  async createResourceFolder(path: string): Promise<void> {
+    await this.updateResources((tree) => tree.mkdir(path));
+  }
+
+  async getSystemThemes(): Promise<SystemTheme[]> {
+    return copy(this.systemThemes);
+  }
+
+  /**
+   * Close the database and revoke all object URLs handed
+   * out. The backend reopens the database if used again.
+   */
+  async close(): Promise<void> {
+    const database = this.database;
+    this.database = null;
+    (await database)?.close();
+    for (const url of this.objectUrls.values()) {
+      URL.revokeObjectURL(url);
+    }
+    this.objectUrls.clear();
+    this.urlPaths.clear();
+  }
+
+  /**
+   * Build the resource tree from the database, with an
+   * object URL for every file. URLs of files that are
+   * gone are revoked.
+   */
+  private async readResources(tx?: ResourceTransaction): Promise<ResourceTree> {
+    tx ??= (await this.db()).transaction(['resources', 'folders']);
+    const resources = tx.objectStore('resources');
+    const [paths, stored, folders] = await Promise.all([
+      resources.getAllKeys(),
+      resources.getAll(),
+      tx.objectStore('folders').getAllKeys(),
+    ]);
+
+    const files: Record<string, StoredResource> = {};
+    const seen = new Set<string>();
+    this.urlPaths.clear();
+    stored.forEach((file, i) => {
+      const url = this.objectUrl(file);
+      files[paths[i]] = { url, size: file.data.size };
+      this.urlPaths.set(url, paths[i]);
+      seen.add(file.id);
+    });
+    for (const id of [...this.objectUrls.keys()]) {
+      if (!seen.has(id)) {
+        this.forgetUrl(id);
+      }
+    }
+    return new ResourceTree(files, folders);
+  }
+
+  /**
+   * Apply a change to the resource tree and write back
+   * what changed, in one transaction. Files are matched
+   * to their stored Blobs by object URL, so moved files
+   * keep their data and URL.
+   */
+  private async updateResources<T>(
+    change: (tree: ResourceTree) => T
+  ): Promise<T> {
+    const tx = (await this.db()).transaction(
+      ['resources', 'folders'],
+      'readwrite'
+    );
+    const tree = await this.readResources(tx);
+    const before = new Map(tree.files);
+    const foldersBefore = new Set(tree.folders);
+    const result = change(tree);
+
+    const resources = tx.objectStore('resources');
+    const moved = new Map<string, StoredBlob>();
+    for (const [path, file] of before) {
+      if (tree.files.get(path) !== file) {
+        moved.set(file.url, (await resources.get(path))!);
+        await resources.delete(path);
+      }
+    }
+    for (const [path, file] of tree.files) {
+      const data = moved.get(file.url);
+      if (data && before.get(path) !== file) {
+        await resources.put(data, path);
+      }
+    }
+
+    const folders = tx.objectStore('folders');
+    for (const path of foldersBefore) {
+      if (!tree.folders.has(path)) {
+        await folders.delete(path);
+      }
+    }
+    for (const path of tree.folders) {
+      if (!foldersBefore.has(path)) {
+        await folders.put(path, path);
+      }
+    }
+    await tx.done;
+    return result;
+  }
+
+  private objectUrl(file: StoredBlob): string {
+    let url = this.objectUrls.get(file.id);
+    if (!url) {
+      url = URL.createObjectURL(file.data);
+      this.objectUrls.set(file.id, url);
+    }
+    return url;
+  }
+
+  private forgetUrl(fileId: string): void {
+    const url = this.objectUrls.get(fileId);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.objectUrls.delete(fileId);
+      this.urlPaths.delete(url);
+    }
+  }
+}
+
+type BoardTransaction = IDBPTransaction<
+  BoardDatabase,
+  ('boards' | 'revisions')[],
+  'readwrite'
+>;
+
+type ResourceTransaction = IDBPTransaction<
+  BoardDatabase,
+  ('resources' | 'folders')[],
+  IDBTransactionMode
+>;
+
+/** Unique enough to tell files apart within one database */
+function newFileId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
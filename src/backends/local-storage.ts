@@ -0,0 +1,335 @@
+import type {
+  BoardDefinition,
+  BoardRevision,
+  BoardSummary,
+  FileMetadata,
+  IBoardBackend,
+  SaveOptions,
+  SystemTheme,
+} from '../editor/types';
+import {
+  blobToDataUrl,
+  copyBoardAs,
+  resourceMimeType,
+  stampNewBoard,
+  summarizeBoard,
+} from './board-utils';
+import { ResourceTree, type StoredResource } from './resource-tree';
+import {
+  RevisionLog,
+  restoreOptions,
+  type StoredRevision,
+} from './revision-log';
+import { checkRevision } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
+
+export interface LocalStorageBackendOptions {
+  /** Storage area to use. Defaults to window.localStorage */
+  storage?: Storage;
+
+  /** Key prefix, so several apps can share one origin */
+  prefix?: string;
+
+  /** Board returned by load() if nothing has been saved yet */
+  initialBoard?: BoardDefinition;
+
+  /** Themes returned by getSystemThemes() */
+  systemThemes?: SystemTheme[];
+
+  /** Revisions kept per board, oldest dropped first. Default 50 */
+  maxRevisions?: number;
+}
+
+/**
+ * Browser storage backend.
+ * Persists boards and a resource folder in localStorage
+ * so they survive page reloads, which makes it suitable
+ * for offline kiosks. The constructor's board ID is the
+ * default board, and the resource folder belongs to it.
+ * Each board keeps a bounded revision history.
+ */
+export class LocalStorageBackend implements IBoardBackend {
+  readonly boardId: string;
+  private readonly storage: Storage;
+  private readonly prefix: string;
+  private readonly initialBoard: BoardDefinition | null;
+  private readonly systemThemes: SystemTheme[];
+  private readonly maxRevisions: number;
+
+  constructor(boardId: string, options: LocalStorageBackendOptions = {}) {
+    if (!boardId) {
+      throw new Error('LocalStorageBackend requires a board ID');
+    }
+
+    const storage = options.storage ?? globalThis.localStorage;
+    if (!storage) {
+      throw new Error('localStorage is not available in this environment');
+    }
+
+    this.boardId = boardId;
+    this.storage = storage;
+    this.prefix = options.prefix ?? 'dashbeard_';
+    this.initialBoard = options.initialBoard
+      ? copy(options.initialBoard)
+      : null;
+    this.systemThemes = copy(options.systemThemes ?? []);
+    this.maxRevisions = options.maxRevisions ?? 50;
+    if (!(this.maxRevisions >= 1)) {
+      throw new Error('maxRevisions must be at least 1');
+    }
+  }
+
+  private boardKey(boardId: string): string {
+    return `${this.prefix}board_${boardId}`;
+  }
+
+  private revisionsKey(boardId: string): string {
+    return `${this.prefix}revisions_${boardId}`;
+  }
+
+  private get resourcesKey(): string {
+    return `${this.prefix}resources_${this.boardId}`;
+  }
+
+  private get foldersKey(): string {
+    return `${this.prefix}folders_${this.boardId}`;
+  }
+
+  async load(boardId: string = this.boardId): Promise<BoardDefinition> {
+    const stored = this.stored(boardId);
+    if (stored === null) {
+      if (this.initialBoard && boardId === this.boardId) {
+        const board = copy(this.initialBoard);
+        board.id = this.boardId;
+        return board;
+      }
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return stored;
+  }
+
+  async save(board: BoardDefinition, options?: SaveOptions): Promise<void> {
+    if (!board.id) {
+      throw new Error('Board ID must not be empty');
+    }
+    checkRevision(this.stored(board.id), board, options);
+    board.metadata.modified = new Date().toISOString();
+    this.writeBoard(board, options);
+  }
+
+  async listBoards(): Promise<BoardSummary[]> {
+    const keyPrefix = this.boardKey('');
+    const summaries: BoardSummary[] = [];
+    for (let i = 0; i < this.storage.length; i++) {
+      const key = this.storage.key(i);
+      if (key === null || !key.startsWith(keyPrefix)) {
+        continue;
+      }
+      const board = JSON.parse(
+        this.storage.getItem(key) ?? 'null'
+      ) as BoardDefinition | null;
+      if (board) {
+        summaries.push(summarizeBoard(board));
+      }
+    }
+    return summaries.sort((a, b) => a.id.localeCompare(b.id));
+  }
+
+  async createBoard(board: BoardDefinition): Promise<BoardSummary> {
+    this.assertFree(board.id);
+    stampNewBoard(board);
+    this.writeBoard(board, { message: 'Created' });
+    return summarizeBoard(board);
+  }
+
+  async duplicateBoard(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary> {
+    const source = await this.load(sourceId);
+    this.assertFree(newId);
+    const board = copyBoardAs(source, newId, newName);
+    this.writeBoard(board, { message: `Duplicated from ${sourceId}` });
+    return summarizeBoard(board);
+  }
+
+  async renameBoard(boardId: string, name: string): Promise<BoardSummary> {
+    const board = await this.load(boardId);
+    board.metadata.name = name;
+    await this.save(board, { message: `Renamed to ${name}` });
+    return summarizeBoard(board);
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    const key = this.boardKey(boardId);
+    if (this.storage.getItem(key) === null) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    this.storage.removeItem(key);
+    this.storage.removeItem(this.revisionsKey(boardId));
+    if (boardId === this.boardId) {
+      this.storage.removeItem(this.resourcesKey);
+      this.storage.removeItem(this.foldersKey);
+    }
+  }
+
+  async listRevisions(boardId: string): Promise<BoardRevision[]> {
+    await this.load(boardId);
+    return this.readRevisions(boardId).list();
+  }
+
+  async loadRevision(
+    boardId: string,
+    revisionId: string
+  ): Promise<BoardDefinition> {
+    await this.load(boardId);
+    return this.readRevisions(boardId).get(revisionId);
+  }
+
+  async restoreRevision(
+    boardId: string,
+    revisionId: string,
+    options?: SaveOptions
+  ): Promise<BoardDefinition> {
+    await this.load(boardId);
+    const board = this.readRevisions(boardId).restore(boardId, revisionId);
+    this.writeBoard(board, restoreOptions(revisionId, options));
+    return board;
+  }
+
+  /** The stored copy of a board, or null */
+  private stored(boardId: string): BoardDefinition | null {
+    const raw = this.storage.getItem(this.boardKey(boardId));
+    return raw === null ? null : (JSON.parse(raw) as BoardDefinition);
+  }
+
+  /**
+   * Record a board as a revision, which stamps it with
+   * the new revision token, and store it.
+   */
+  private writeBoard(board: BoardDefinition, options?: SaveOptions): void {
+    const log = this.readRevisions(board.id);
+    const previous = board.metadata.revision;
+    log.record(board, options);
+    try {
+      this.setItem(this.boardKey(board.id), JSON.stringify(board));
+    } catch (err) {
+      board.metadata.revision = previous;
+      throw err;
+    }
+    const key = this.revisionsKey(board.id);
+    try {
+      this.setItem(key, JSON.stringify(log.entries));
+    } catch {
+      // The board itself is saved. Rather than fail, keep
+      // only the newest revision when history does not fit.
+      this.setItem(key, JSON.stringify(log.entries.slice(-1)));
+    }
+  }
+
+  private readRevisions(boardId: string): RevisionLog {
+    const raw = this.storage.getItem(this.revisionsKey(boardId));
+    return new RevisionLog(
+      raw === null ? [] : (JSON.parse(raw) as StoredRevision[]),
+      this.maxRevisions
+    );
+  }
+
+  private assertFree(boardId: string): void {
+    if (this.storage.getItem(this.boardKey(boardId)) !== null) {
+      throw new AlreadyExistsError(`Board already exists: ${boardId}`);
+    }
+  }
+
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    return this.readResources().list(folder);
+  }
+
+  async uploadResource(path: string, data: Blob): Promise<FileMetadata> {
+    const url = await blobToDataUrl(data, resourceMimeType(path, data));
+    const tree = this.readResources();
+    const item = tree.put(path, url, data.size);
+    this.writeResources(tree);
+    return item;
+  }
+
+  async deleteResource(path: string): Promise<void> {
+    const tree = this.readResources();
+    tree.delete(path);
+    this.writeResources(tree);
+  }
+
+  async renameResource(
+    fromPath: string,
+    toPath: string
+  ): Promise<FileMetadata> {
+    const tree = this.readResources();
+    const item = tree.rename(fromPath, toPath);
+    this.writeResources(tree);
+    return item;
+  }
+
+  async createResourceFolder(path: string): Promise<void> {
+    const tree = this.readResources();
+    tree.mkdir(path);
+    this.writeResources(tree);
+  }
+
+  async getSystemThemes(): Promise<SystemTheme[]> {
+    return copy(this.systemThemes);
+  }
+
+  /**
+   * Store a resource from an existing URL at an absolute
+   * path such as '/images/logo.png'. Intermediate folders
+   * are implied by the path and do not need to be created.
+   */
+  addResource(path: string, url: string, size: number = url.length): void {
+    const tree = this.readResources();
+    tree.put(path, url, size);
+    this.writeResources(tree);
+  }
+
+  /**
+   * Remove the default board, its history and all of its
+   * resources from storage.
+   */
+  clear(): void {
+    this.storage.removeItem(this.boardKey(this.boardId));
+    this.storage.removeItem(this.revisionsKey(this.boardId));
+    this.storage.removeItem(this.resourcesKey);
+    this.storage.removeItem(this.foldersKey);
+  }
+
+  private readResources(): ResourceTree {
+    const files = this.storage.getItem(this.resourcesKey);
+    const folders = this.storage.getItem(this.foldersKey);
+    return new ResourceTree(
+      files === null
+        ? {}
+        : (JSON.parse(files) as Record<string, StoredResource>),
+      folders === null ? [] : (JSON.parse(folders) as string[])
+    );
+  }
+
+  private writeResources(tree: ResourceTree): void {
+    this.setItem(this.resourcesKey, JSON.stringify(tree.filesRecord()));
+    this.setItem(this.foldersKey, JSON.stringify([...tree.folders]));
+  }
+
+  private setItem(key: string, value: string): void {
+    try {
+      this.storage.setItem(key, value);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+        throw new Error(`localStorage quota exceeded while writing ${key}`);
+      }
+      throw err;
+    }
+  }
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
@@ -1,9 +1,23 @@
 import type {
   BoardDefinition,
+  BoardRevision,
+  BoardSummary,
   FileMetadata,
   IBoardBackend,
+  SaveOptions,
   SystemTheme,
 } from '../editor/types';
+import {
+  blobToDataUrl,
+  copyBoardAs,
+  resourceMimeType,
+  stampNewBoard,
+  summarizeBoard,
+} from './board-utils';
+import { ResourceTree } from './resource-tree';
+import { RevisionLog, restoreOptions } from './revision-log';
+import { checkRevision } from './conflict';
+import { AlreadyExistsError, NotFoundError } from './errors';
 
 // Sample board for testing
 // Uses unified BoardDefinition format
@@ -18,8 +32,7 @@ export const defaultBoard: BoardDefinition = {
   rootComponent: {
     id: 'root',
     type: 'plain-layout',
-    config: {
-    },
+    config: {},
     children: [
       {
         id: 'comp-1',
@@ -37,7 +50,7 @@ export const defaultBoard: BoardDefinition = {
         config: {
           defaultValue: '89',
           label: 'Output',
-          type: "number"
+          type: 'number',
         },
       },
     ],
@@ -48,48 +61,162 @@ export const defaultBoard: BoardDefinition = {
 /**
  * In-memory storage backend.
  * Useful for development and testing.
+ * Starts with the given boards, or the example board.
+ * Keeps every revision of every board.
  */
 export class MemoryBackend implements IBoardBackend {
   private boards = new Map<string, BoardDefinition>();
 
-  async listResourceFolder(
-    _boardid: string,
-    folder: string
-  ): Promise<FileMetadata[]> {
-    if (folder == '/') {
-      return [
-        {
-          name: 'dot.png',
-          url: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAUAAAAFCAYAAACNbyblAAAAHElEQVQI12P4//8/w38GIAXDIBKE0DHxgljNBAAO9TXL0Y4OHwAAAABJRU5ErkJggg==',
-          size: 85,
-          type: 'file',
-        },
-        {
-          name: 'red.css',
-          url: 'data:text/css;charset=utf-8;base64,OnJvb3Qgew0KICAtLWJnOiByZWQ7DQogIC0tYm94LWJnOiByZWQ7DQp9',
-          size: 1000,
-          type: 'file',
-        },
-      ];
-    } else {
-      throw new Error('No such folder ' + folder);
+  /** Revision history keyed by board ID */
+  private revisions = new Map<string, RevisionLog>();
+
+  /** Resource folder, shared by all boards */
+  private resources = new ResourceTree({
+    '/dot.png': {
+      url: 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAUAAAAFCAYAAACNbyblAAAAHElEQVQI12P4//8/w38GIAXDIBKE0DHxgljNBAAO9TXL0Y4OHwAAAABJRU5ErkJggg==',
+      size: 85,
+    },
+    '/red.css': {
+      url: 'data:text/css;charset=utf-8;base64,OnJvb3Qgew0KICAtLWJnOiByZWQ7DQogIC0tYm94LWJnOiByZWQ7DQp9',
+      size: 1000,
+    },
+  });
+
+  /** Board returned by load() without an ID */
+  readonly defaultBoardId: string;
+
+  constructor(initialBoards: BoardDefinition[] = [defaultBoard]) {
+    for (const board of initialBoards) {
+      this.store(copy(board));
     }
+    this.defaultBoardId = initialBoards[0]?.id ?? defaultBoard.id;
   }
 
-  async load(id: string): Promise<BoardDefinition> {
-    const board = this.boards.get(id);
-    if (!board) {
-      return defaultBoard as unknown as BoardDefinition;
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    return this.resources.list(folder);
+  }
+
+  async uploadResource(path: string, data: Blob): Promise<FileMetadata> {
+    const url = await blobToDataUrl(data, resourceMimeType(path, data));
+    return this.resources.put(path, url, data.size);
+  }
+
+  async deleteResource(path: string): Promise<void> {
+    this.resources.delete(path);
+  }
+
+  async renameResource(
+    fromPath: string,
+    toPath: string
+  ): Promise<FileMetadata> {
+    return this.resources.rename(fromPath, toPath);
+  }
+
+  async createResourceFolder(path: string): Promise<void> {
+    this.resources.mkdir(path);
+  }
+
+  async load(boardId: string = this.defaultBoardId): Promise<BoardDefinition> {
+    return copy(this.get(boardId));
+  }
+
+  async save(board: BoardDefinition, options?: SaveOptions): Promise<void> {
+    checkRevision(this.boards.get(board.id), board, options);
+    board.metadata.modified = new Date().toISOString();
+    this.store(board, options);
+  }
+
+  async listBoards(): Promise<BoardSummary[]> {
+    return [...this.boards.values()].map(summarizeBoard);
+  }
+
+  async createBoard(board: BoardDefinition): Promise<BoardSummary> {
+    if (this.boards.has(board.id)) {
+      throw new AlreadyExistsError(`Board already exists: ${board.id}`);
+    }
+    stampNewBoard(board);
+    this.store(board, { message: 'Created' });
+    return summarizeBoard(board);
+  }
+
+  async duplicateBoard(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary> {
+    const source = this.get(sourceId);
+    if (this.boards.has(newId)) {
+      throw new AlreadyExistsError(`Board already exists: ${newId}`);
     }
-    return JSON.parse(JSON.stringify(board)) as unknown as BoardDefinition;
+    const board = copyBoardAs(source, newId, newName);
+    this.store(board, { message: `Duplicated from ${sourceId}` });
+    return summarizeBoard(board);
   }
 
-  async save(board: BoardDefinition): Promise<void> {
+  async renameBoard(boardId: string, name: string): Promise<BoardSummary> {
+    const board = this.get(boardId);
+    board.metadata.name = name;
     board.metadata.modified = new Date().toISOString();
-    this.boards.set(
-      board.id,
-      JSON.parse(JSON.stringify(board)) as unknown as BoardDefinition
-    );
+    this.store(board, { message: `Renamed to ${name}` });
+    return summarizeBoard(board);
+  }
+
+  async deleteBoard(boardId: string): Promise<void> {
+    if (!this.boards.delete(boardId)) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    this.revisions.delete(boardId);
+  }
+
+  async listRevisions(boardId: string): Promise<BoardRevision[]> {
+    return this.history(boardId).list();
+  }
+
+  async loadRevision(
+    boardId: string,
+    revisionId: string
+  ): Promise<BoardDefinition> {
+    return this.history(boardId).get(revisionId);
+  }
+
+  async restoreRevision(
+    boardId: string,
+    revisionId: string,
+    options?: SaveOptions
+  ): Promise<BoardDefinition> {
+    const board = this.history(boardId).restore(boardId, revisionId);
+    this.store(board, restoreOptions(revisionId, options));
+    return board;
+  }
+
+  private get(boardId: string): BoardDefinition {
+    const board = this.boards.get(boardId);
+    if (!board) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return board;
+  }
+
+  private history(boardId: string): RevisionLog {
+    const log = this.revisions.get(boardId);
+    if (!log) {
+      throw new NotFoundError(`Board not found: ${boardId}`);
+    }
+    return log;
+  }
+
+  /**
+   * Record a board as a revision, which stamps it with
+   * the new revision token, and make a copy current.
+   */
+  private store(board: BoardDefinition, options?: SaveOptions): void {
+    let log = this.revisions.get(board.id);
+    if (!log) {
+      log = new RevisionLog();
+      this.revisions.set(board.id, log);
+    }
+    log.record(board, options);
+    this.boards.set(board.id, copy(board));
   }
 
   async getSystemThemes(): Promise<SystemTheme[]> {
@@ -97,3 +224,7 @@ export class MemoryBackend implements IBoardBackend {
     return [];
   }
 }
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
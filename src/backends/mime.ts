@@ -0,0 +1,64 @@
+/**
+ * MIME types for resource file names. The mime-types package
+ * needs Node's path module, so browser code uses this table
+ * of the types dashboards are likely to reference instead.
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  // Images
+  apng: 'image/apng',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  gif: 'image/gif',
+  ico: 'image/x-icon',
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  svg: 'image/svg+xml',
+  webp: 'image/webp',
+
+  // Text and documents
+  css: 'text/css',
+  csv: 'text/csv',
+  htm: 'text/html',
+  html: 'text/html',
+  js: 'text/javascript',
+  json: 'application/json',
+  md: 'text/markdown',
+  mjs: 'text/javascript',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  xml: 'application/xml',
+
+  // Fonts
+  otf: 'font/otf',
+  ttf: 'font/ttf',
+  woff: 'font/woff',
+  woff2: 'font/woff2',
+
+  // Audio and video
+  flac: 'audio/flac',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4',
+  oga: 'audio/ogg',
+  ogg: 'audio/ogg',
+  ogv: 'video/ogg',
+  opus: 'audio/opus',
+  wav: 'audio/wav',
+  weba: 'audio/webm',
+  webm: 'video/webm',
+
+  // Archives
+  zip: 'application/zip',
+};
+
+/**
+ * MIME type for a file name or path, from its extension.
+ * Undefined when the extension is missing or unknown.
+ */
+export function lookupMimeType(path: string): string | undefined {
+  const name = path.slice(path.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  if (dot < 0) return undefined;
+  return MIME_TYPES[name.slice(dot + 1).toLowerCase()];
+}
@@ -0,0 +1,25 @@
+import { FileSystemBackend } from './filesystem';
+import {
+  createBoardHandler,
+  createNodeListener,
+  startBoardServer,
+} from './board-server';
+
+/**
+ * Backends and servers that need Node.js. Kept out of the
+ * main backends module so browser bundles do not pull in
+ * node: imports.
+ */
+
+export {
+  FileSystemBackend,
+  createBoardHandler,
+  createNodeListener,
+  startBoardServer,
+};
+export type { FileSystemBackendOptions } from './filesystem';
+export type {
+  BoardHandler,
+  BoardHandlerOptions,
+  BoardServerOptions,
+} from './board-server';
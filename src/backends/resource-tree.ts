@@ -0,0 +1,199 @@
+/**
+ * In-memory resource folder shared by the local backends.
+ * Files are keyed by absolute path like '/img/logo.png'.
+ * Folders exist if they contain files or were created
+ * explicitly, so empty folders survive.
+ */
+
+import type { FileMetadata } from '../editor/types';
+import { AlreadyExistsError, NotFoundError } from './errors';
+
+/** A stored file. The URL is usually a data: URL */
+export interface StoredResource {
+  url: string;
+  size: number;
+}
+
+export class ResourceTree {
+  readonly files: Map<string, StoredResource>;
+  readonly folders: Set<string>;
+
+  constructor(
+    files: Record<string, StoredResource> = {},
+    folders: string[] = []
+  ) {
+    this.files = new Map(Object.entries(files));
+    this.folders = new Set(folders);
+  }
+
+  /** Files as a plain object, for JSON storage */
+  filesRecord(): Record<string, StoredResource> {
+    return Object.fromEntries(this.files);
+  }
+
+  folderExists(path: string): boolean {
+    const folder = normalizeResourcePath(path);
+    if (folder === '/' || this.folders.has(folder)) {
+      return true;
+    }
+    const prefix = folder + '/';
+    for (const key of [...this.files.keys(), ...this.folders]) {
+      if (key.startsWith(prefix)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * List the direct children of a folder, folders first,
+   * each group sorted by name.
+   */
+  list(folder: string): FileMetadata[] {
+    const base = normalizeResourcePath(folder);
+    if (!this.folderExists(base)) {
+      throw new NotFoundError('No such folder ' + folder);
+    }
+    const prefix = base === '/' ? '/' : base + '/';
+
+    const folderNames = new Set<string>();
+    const files: FileMetadata[] = [];
+
+    for (const [path, resource] of this.files) {
+      if (!path.startsWith(prefix)) {
+        continue;
+      }
+      const rest = path.slice(prefix.length);
+      const slash = rest.indexOf('/');
+      if (slash === -1) {
+        files.push({
+          name: rest,
+          url: resource.url,
+          size: resource.size,
+          type: 'file',
+        });
+      } else {
+        folderNames.add(rest.slice(0, slash));
+      }
+    }
+    for (const path of this.folders) {
+      if (path.startsWith(prefix)) {
+        folderNames.add(path.slice(prefix.length).split('/')[0]);
+      }
+    }
+
+    const folderItems: FileMetadata[] = [...folderNames]
+      .sort()
+      .map((name) => ({ name, size: 0, type: 'folder' }));
+    files.sort((a, b) => a.name.localeCompare(b.name));
+    return [...folderItems, ...files];
+  }
+
+  /**
+   * Store a file. Missing parent folders are implied.
+   */
+  put(path: string, url: string, size: number): FileMetadata {
+    const normalized = normalizeFilePath(path);
+    if (this.folderExists(normalized)) {
+      throw new AlreadyExistsError(`A folder already exists at ${normalized}`);
+    }
+    this.files.set(normalized, { url, size });
+    return { name: baseName(normalized), url, size, type: 'file' };
+  }
+
+  /**
+   * Delete a file or an empty folder.
+   */
+  delete(path: string): void {
+    const normalized = normalizeFilePath(path);
+    if (this.files.delete(normalized)) {
+      return;
+    }
+    if (!this.folderExists(normalized)) {
+      throw new NotFoundError(`Resource not found: ${normalized}`);
+    }
+    if (this.list(normalized).length > 0) {
+      throw new Error(`Folder is not empty: ${normalized}`);
+    }
+    this.folders.delete(normalized);
+  }
+
+  /**
+   * Move or rename a file or folder. Refuses to overwrite
+   * anything at the destination.
+   */
+  rename(from: string, to: string): FileMetadata {
+    const source = normalizeFilePath(from);
+    const target = normalizeFilePath(to);
+    if (this.files.has(target) || this.folderExists(target)) {
+      throw new AlreadyExistsError(`Resource already exists: ${target}`);
+    }
+
+    const file = this.files.get(source);
+    if (file) {
+      this.files.delete(source);
+      this.files.set(target, file);
+      return { name: baseName(target), ...file, type: 'file' };
+    }
+
+    if (!this.folderExists(source)) {
+      throw new NotFoundError(`Resource not found: ${source}`);
+    }
+    if (target.startsWith(source + '/')) {
+      throw new Error('Cannot move a folder into itself');
+    }
+    const prefix = source + '/';
+    for (const [path, resource] of [...this.files]) {
+      if (path.startsWith(prefix)) {
+        this.files.delete(path);
+        this.files.set(target + path.slice(source.length), resource);
+      }
+    }
+    for (const path of [...this.folders]) {
+      if (path === source || path.startsWith(prefix)) {
+        this.folders.delete(path);
+        this.folders.add(target + path.slice(source.length));
+      }
+    }
+    return { name: baseName(target), size: 0, type: 'folder' };
+  }
+
+  /**
+   * Create a folder. Does nothing if it already exists.
+   */
+  mkdir(path: string): void {
+    const normalized = normalizeFilePath(path);
+    if (this.files.has(normalized)) {
+      throw new AlreadyExistsError(`A file already exists at ${normalized}`);
+    }
+    this.folders.add(normalized);
+  }
+}
+
+/**
+ * Normalize a folder or file path to a leading slash
+ * and no trailing slash. Rejects '..' segments.
+ */
+export function normalizeResourcePath(path: string): string {
+  const parts = path.split('/').filter((p) => p && p !== '.');
+  if (parts.includes('..')) {
+    throw new Error('Invalid resource path ' + path);
+  }
+  return '/' + parts.join('/');
+}
+
+/**
+ * Like normalizeResourcePath, but the path must name
+ * something below the root.
+ */
+export function normalizeFilePath(path: string): string {
+  const normalized = normalizeResourcePath(path);
+  if (normalized === '/') {
+    throw new Error('Resource path must include a name');
+  }
+  return normalized;
+}
+
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
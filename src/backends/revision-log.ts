@@ -0,0 +1,99 @@
+/**
+ * Revision history of one board, shared by the local
+ * backends. Each entry is a full snapshot of the board,
+ * oldest first, so the whole log serializes as JSON.
+ */
+
+import type {
+  BoardDefinition,
+  BoardRevision,
+  SaveOptions,
+} from '../editor/types';
+import { NotFoundError } from './errors';
+
+/** A revision together with its board snapshot */
+export interface StoredRevision {
+  revision: BoardRevision;
+  board: BoardDefinition;
+}
+
+export class RevisionLog {
+  readonly entries: StoredRevision[];
+
+  /**
+   * @param entries Existing history, oldest first
+   * @param maxRevisions Oldest entries beyond this many are dropped
+   */
+  constructor(
+    entries: StoredRevision[] = [],
+    private readonly maxRevisions: number = Infinity
+  ) {
+    this.entries = entries;
+  }
+
+  /**
+   * Snapshot a board that is being stored, and stamp it
+   * with the new revision ID as its revision token.
+   * Revision IDs count up from 1 and are never reused.
+   */
+  record(board: BoardDefinition, options: SaveOptions = {}): BoardRevision {
+    const last = this.entries[this.entries.length - 1];
+    const revision: BoardRevision = {
+      id: String(last ? Number(last.revision.id) + 1 : 1),
+      boardId: board.id,
+      timestamp: board.metadata.modified ?? new Date().toISOString(),
+      author: options.author ?? board.metadata.author,
+      message: options.message,
+    };
+    board.metadata.revision = revision.id;
+    this.entries.push({ revision, board: copy(board) });
+    if (this.entries.length > this.maxRevisions) {
+      this.entries.splice(0, this.entries.length - this.maxRevisions);
+    }
+    return revision;
+  }
+
+  /** Revisions, newest first */
+  list(): BoardRevision[] {
+    return this.entries.map((entry) => ({ ...entry.revision })).reverse();
+  }
+
+  /** A copy of the board as it was at a revision */
+  get(revisionId: string): BoardDefinition {
+    const entry = this.entries.find((e) => e.revision.id === revisionId);
+    if (!entry) {
+      throw new NotFoundError(`Revision not found: ${revisionId}`);
+    }
+    return copy(entry.board);
+  }
+
+  /**
+   * Build the board to store when restoring a revision:
+   * the old content under the current ID, stamped as
+   * modified now. The caller stores and records it.
+   */
+  restore(boardId: string, revisionId: string): BoardDefinition {
+    const board = this.get(revisionId);
+    board.id = boardId;
+    board.metadata.modified = new Date().toISOString();
+    return board;
+  }
+}
+
+/**
+ * Options for the revision recorded by a restore, with
+ * a default message naming the restored revision.
+ */
+export function restoreOptions(
+  revisionId: string,
+  options: SaveOptions = {}
+): SaveOptions {
+  return {
+    ...options,
+    message: options.message ?? `Restored revision ${revisionId}`,
+  };
+}
+
+function copy<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
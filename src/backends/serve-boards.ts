@@ -0,0 +1,25 @@
+/**
+ * Command line entry for the board server:
+ *
+ *   npm run serve:boards -- [directory]
+ *
+ * The directory defaults to ./boards. PORT and HOST set
+ * where to listen, and BOARDS_AUTHORIZATION, if set, is
+ * the Authorization header every request must send.
+ */
+
+import { startBoardServer } from './board-server';
+
+const root = process.argv[2] ?? 'boards';
+const server = await startBoardServer({
+  root,
+  port: process.env.PORT ? Number(process.env.PORT) : undefined,
+  host: process.env.HOST,
+  authorization: process.env.BOARDS_AUTHORIZATION,
+});
+const address = server.address();
+const where =
+  typeof address === 'object' && address
+    ? `http://${address.address}:${address.port}`
+    : String(address);
+process.stdout.write(`Serving boards from ${root} at ${where}\n`);
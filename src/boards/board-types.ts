@@ -51,6 +51,28 @@ export interface BindingFilterItem {
   config: Record<string, unknown>;
 }
 
+/**
+ * Which way data may flow through a binding.
+ * - both: downstream, and written back upstream
+ * - downstream: from the upstream port to the downstream only,
+ *   e.g. a display that must never write its source
+ * - upstream: from the downstream port back to the upstream only
+ */
+export type BindingDirection = 'both' | 'downstream' | 'upstream';
+
+/**
+ * Which side's data a binding syncs when it connects.
+ * - upstream-wins: the upstream port's data is sent downstream
+ * - downstream-wins: the downstream port's data is written back
+ *   upstream, e.g. to keep a persisted setting
+ * - newest-wins: whichever side has the newer timestamp
+ * - none: nothing is sent until the first real change
+ * When the winning side has no data, nothing is sent. A sync that
+ * goes against the binding's direction is skipped.
+ */
+export type InitialSyncPolicy =
+  'upstream-wins' | 'downstream-wins' | 'newest-wins' | 'none';
+
 /**
  * A binding connects two component ports together.
  */
@@ -67,6 +89,19 @@ export interface BindingDefinition {
   /** The input port of the downstream component */
   toPort: string;
 
+  /** Which way data flows, 'both' if missing */
+  direction?: BindingDirection;
+
+  /** Which side wins on connect, 'upstream-wins' if missing */
+  initialSync?: InitialSyncPolicy;
+
+  /**
+   * False to keep the binding, filters and all, without
+   * connecting it. At runtime the `enabled` port of the node
+   * `${id}-control` switches it on and off.
+   */
+  enabled?: boolean;
+
   /** Optional value transform (Phase 4) */
   transform?: string;
 }
@@ -87,6 +122,13 @@ export interface BoardDefinition {
     author?: string;
     created?: string;
     modified?: string;
+
+    /**
+     * Token of the stored version this copy was loaded
+     * from. Set by backends and checked on save, so a
+     * save over someone else's changes fails.
+     */
+    revision?: string;
   };
 
   /** All components in this board */
@@ -146,6 +188,7 @@ export const BOARD_SCHEMA: Record<string, unknown> = {
         author: { type: 'string' },
         created: { type: 'string' },
         modified: { type: 'string' },
+        revision: { type: 'string' },
       },
       required: [],
     },
@@ -169,6 +212,15 @@ export const BOARD_SCHEMA: Record<string, unknown> = {
             },
           },
           toPort: { type: 'string' },
+          direction: {
+            type: 'string',
+            enum: ['both', 'downstream', 'upstream'],
+          },
+          initialSync: {
+            type: 'string',
+            enum: ['upstream-wins', 'downstream-wins', 'newest-wins', 'none'],
+          },
+          enabled: { type: 'boolean' },
         },
         required: ['id', 'fromPort', 'toPort'],
       },
@@ -54,12 +54,21 @@ export function validateUniqueComponentIds(rootComponent: ComponentConfig,
 
 /**
  * Validate that all bindings reference existing components.
+ * The control and filter nodes of bindings in the board
+ * count too, so bindings can switch other bindings on and
+ * off and set their filter parameters.
  *
  * @param board The board to check
  * @throws If binding references non-existent component
  */
 export function validateBindingReferences(board: BoardDefinition): void {
   const componentIds = validateUniqueComponentIds(board.rootComponent, new Set<string>());
+  for (const binding of board.bindings) {
+    componentIds.add(`${binding.id}-control`);
+    binding.filters?.forEach((_filter, i) =>
+      componentIds.add(`${binding.id}-filter-${i}`)
+    );
+  }
 
   for (const binding of board.bindings) {
     if (!componentIds.has(binding.fromPort.split('.')[0])) {
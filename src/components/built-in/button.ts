@@ -84,7 +84,7 @@ export class ButtonComponent extends DashboardComponent {
   }
 
   public override onConfigUpdate(): void {
-    const specificConfig: Record<string, unknown> = this.componentConfig.config || {};
+    const specificConfig = this.resolvedConfig();
     this.label = (specificConfig.label as string) || 'Click';
     this.backgroundImage = (specificConfig.backgroundImage as string) || '';
     this.height = (specificConfig.height as string) || '';
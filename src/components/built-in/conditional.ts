@@ -7,6 +7,7 @@ import type { ComponentTypeSchema } from '@/editor/types';
 import { html, TemplateResult } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { PlainLayoutComponent } from './plain-layout';
+import { DashboardComponent } from '../dashboard-component';
 import { Port } from '../../flow/port';
 import type { PortData } from '../../flow/data-types';
 import type { SourceType } from '../../flow/port';
@@ -27,6 +28,7 @@ export class ConditionalComponent extends PlainLayoutComponent {
           description: 'Always show contents regardless of input',
           default: false,
         },
+        merge: DashboardComponent.mergeConfigSchema,
       },
     },
   };
@@ -41,7 +43,12 @@ export class ConditionalComponent extends PlainLayoutComponent {
     super(config);
 
     this.inputPort = this.node.addPort(
-      new Port({ name: 'input', type: 'number', direction: 'input' })
+      new Port({
+        name: 'input',
+        type: 'number',
+        direction: 'input',
+        merge: this.configuredMerge(),
+      })
     );
     this.inputPort.addDataHandler(this.onInputData.bind(this));
   }
@@ -55,8 +62,21 @@ export class ConditionalComponent extends PlainLayoutComponent {
   }
 
   public override onConfigUpdate(): void {
-    const config = this.componentConfig?.config || {};
+    const config = this.resolvedConfig();
     this.forceVisible = config.forceVisible === true;
+    if (this.inputPort) {
+      this.applyMerge(this.inputPort);
+    }
+    this.requestUpdate();
+  }
+
+  /**
+   * Start from the settled input. The sources it is bound to
+   * are ready first, and a merging input only holds its
+   * combined value once they have all been connected.
+   */
+  public override onGraphReady(): void {
+    this.inputValue = Number(this.inputPort.getLastData()?.value) || 0;
     this.requestUpdate();
   }
 
@@ -7,6 +7,7 @@ import type { ComponentTypeSchema } from '@/editor/types';
 import { html, TemplateResult } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
 import { PlainLayoutComponent } from './plain-layout';
+import { DashboardComponent } from '../dashboard-component';
 
 import { PopoverManager } from '../../core/popover-manager';
 import { Port } from '../../flow/port';
@@ -75,6 +76,7 @@ export class DialogComponent extends PlainLayoutComponent {
           description: 'Close when clicking outside the dialog',
           default: true,
         },
+        merge: DashboardComponent.mergeConfigSchema,
       },
     },
   };
@@ -88,6 +90,8 @@ export class DialogComponent extends PlainLayoutComponent {
   @property({ type: Boolean }) closeOnOverlayClick = true;
 
   @state() private isOpen = false;
+  /** Set once the graph is ready, see onGraphReady */
+  private started = false;
   private durationTimer?: number;
   private unsubscribe?: () => void;
 
@@ -98,7 +102,12 @@ export class DialogComponent extends PlainLayoutComponent {
     super(config);
 
     this.triggerPort = this.node.addPort(
-      new Port({ name: 'trigger', type: 'number', direction: 'input' })
+      new Port({
+        name: 'trigger',
+        type: 'number',
+        direction: 'input',
+        merge: this.configuredMerge(),
+      })
     );
     this.triggerPort.addDataHandler(this.onTriggerData.bind(this));
 
@@ -144,6 +153,8 @@ export class DialogComponent extends PlainLayoutComponent {
     data: PortData,
     _sourceType: SourceType
   ): Promise<void> {
+    // Until then the trigger's sources are still settling
+    if (!this.started) return;
     if (data.value && (data.value as number) > 0) {
       this.openDialog();
     } else {
@@ -152,7 +163,7 @@ export class DialogComponent extends PlainLayoutComponent {
   }
 
   public override onConfigUpdate(): void {
-    const config = this.componentConfig?.config || {};
+    const config = this.resolvedConfig();
     this.showButton = config.showButton !== false;
     this.buttonLabel = (config.buttonLabel as string) || 'Open Dialog';
     this.duration = (config.duration as number) || 0;
@@ -162,15 +173,27 @@ export class DialogComponent extends PlainLayoutComponent {
     this.verticalAlign =
       (config.verticalAlign as 'top' | 'center' | 'bottom') || 'center';
     this.closeOnOverlayClick = config.closeOnOverlayClick !== false;
-
-    // Handle open at start
-    if (this.openAtStart && !this.isOpen) {
-      setTimeout(() => this.openDialog(), 30);
+    if (this.triggerPort) {
+      this.applyMerge(this.triggerPort);
     }
 
     this.requestUpdate();
   }
 
+  /**
+   * Open at start, or if the trigger is already on. The
+   * sources it is bound to are ready first, so it holds
+   * their settled value by now.
+   */
+  public override onGraphReady(): void {
+    this.started = true;
+    const trigger = Number(this.triggerPort.getLastData()?.value) || 0;
+    if ((this.openAtStart || trigger > 0) && !this.isOpen) {
+      // Give the popover time to render
+      setTimeout(() => this.openDialog(), 30);
+    }
+  }
+
   private openDialog(): void {
     if (this.isOpen) return;
 
@@ -180,6 +203,9 @@ export class DialogComponent extends PlainLayoutComponent {
     // Emit visible state
     void this.sendData('visible', 1);
 
+    // Show current values rather than whatever arrived last
+    void this.refreshContents();
+
     // Set up auto-close timer
     if (this.duration > 0) {
       this.durationTimer = window.setTimeout(() => {
@@ -190,6 +216,37 @@ export class DialogComponent extends PlainLayoutComponent {
     this.requestUpdate();
   }
 
+  /**
+   * Pull fresh data into every component inside the dialog,
+   * however deeply nested.
+   */
+  private async refreshContents(): Promise<void> {
+    await Promise.all(
+      this.contents().map((component) =>
+        component.refreshInputs().catch((err) => {
+          console.error(`Failed to refresh ${component.id}:`, err);
+        })
+      )
+    );
+  }
+
+  /**
+   * All components below the dialog. Nested children live in
+   * their parents' shadow roots, so follow the configs rather
+   * than the DOM.
+   */
+  private contents(): DashboardComponent[] {
+    const found = new Map<string, DashboardComponent>();
+    const pending = [...(this.componentConfig.children ?? [])];
+    while (pending.length > 0 && found.size < this.allComponents.size) {
+      const child = this.allComponents.get(pending.pop()!.id);
+      if (!child || found.has(child.id)) continue;
+      found.set(child.id, child);
+      pending.push(...(child.componentConfig.children ?? []));
+    }
+    return [...found.values()];
+  }
+
   private closeDialog(): void {
     if (!this.isOpen) return;
 
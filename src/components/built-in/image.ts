@@ -57,7 +57,7 @@ export class ImageComponent extends DashboardComponent {
   }
 
   public override onConfigUpdate(): void {
-    const config = this.componentConfig?.config || {};
+    const config = this.resolvedConfig();
     this.src = (config.src as string) || '';
     this.height = (config.height as string) || '';
     this.width = (config.width as string) || '';
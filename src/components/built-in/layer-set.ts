@@ -33,7 +33,7 @@ export class LayerSetComponent extends PlainLayoutComponent {
   gap = '0px';
 
   public override onConfigUpdate(): void {
-    const config = this.componentConfig?.config || {};
+    const config = this.resolvedConfig();
     this.gap = (config.gap as string) || '0px';
     this.requestUpdate();
   }
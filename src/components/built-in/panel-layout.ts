@@ -72,7 +72,7 @@ export class PanelLayoutComponent extends PlainLayoutComponent {
    * Render the flex layout container with child placeholders.
    */
   override render(): TemplateResult {
-    const config = this?.componentConfig?.config || {};
+    const config = this.resolvedConfig();
     const height = config['height'] || '';
     const maxHeight = config['max-height'] || '';
     const maxWidth = config['max-width'] || '36rem';
@@ -42,11 +42,9 @@ export class HeadingComponent extends DashboardComponent {
   @property() level: number = 2;
 
   public override onConfigUpdate(): void {
-    const config = this.componentConfig;
-    if (config) {
-      this.title = (config?.config?.title as string) || 'Heading';
-      this.level = config?.config?.level as number || 2;
-    }
+    const config = this.resolvedConfig();
+    this.title = (config.title as string) || 'Heading';
+    this.level = config.level as number || 2;
     this.requestUpdate();
   }
 
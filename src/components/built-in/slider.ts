@@ -11,6 +11,15 @@ import type { ComponentTypeSchema } from '../../editor/types';
 import { Port } from '../../flow/port';
 import type { PortData } from '../../flow/data-types';
 import type { SourceType } from '../../flow/port';
+import {
+  canConvert,
+  convertUnit,
+  convertUnitDifference,
+  displayUnitFor,
+  displayUnitSystem,
+  unitRegistry,
+} from '../../flow/units';
+import type { Unsubscribe } from '../../core/observable';
 /**
  * Slider component - numeric range input for selecting values within bounds.
  */
@@ -35,6 +44,7 @@ export class SliderComponent extends DashboardComponent {
         defaultValue: {
           type: 'number',
           description: 'Current value',
+          configPort: false,
         },
         step: {
           type: 'number',
@@ -46,6 +56,18 @@ export class SliderComponent extends DashboardComponent {
           description: 'Display label',
           default: 'Value',
         },
+        staleTimeout: {
+          type: 'number',
+          description: 'Mark the value stale after N seconds without an update (0 = never)',
+          default: 0,
+        },
+        displayUnit: {
+          type: 'string',
+          description:
+            'Unit to show the value in (default: as preferred by the operator)',
+          enum: ['', ...unitRegistry.getAll().map((unit) => unit.symbol)],
+          default: '',
+        },
       },
     },
   };
@@ -56,10 +78,18 @@ export class SliderComponent extends DashboardComponent {
   @property({ type: "number" }) value=0;
 
 
+  /**
+   * Unit of the bound port. The value is kept in it.
+   */
   @property({ type: String }) unit= '';
 
+  /**
+   * Unit the value, min, max and step are shown in.
+   */
   @property({ type: String }) displayUnit= '';
 
+  private unsubscribeUnits: Unsubscribe | null = null;
+
   /**
    * Minimum value.
    */
@@ -81,14 +111,22 @@ export class SliderComponent extends DashboardComponent {
   constructor(config: ComponentConfig) {
     super(config);
 
+    this.value = (parseFloat(config?.config?.defaultValue as string || '')) ?? 50;
+
     const port = this.node.addPort(
-      new Port({name: 'value',  type: 'number', direction: 'input' })
+      new Port(
+        {
+          name: 'value',
+          type: 'number',
+          direction: 'input',
+          staleTimeout: Number(config?.config?.staleTimeout) || 0,
+        },
+        this.defaultPortData(this.value)
+      )
     );
 
     port.addDataHandler(this.onPortData.bind(this));
 
-    this.value = (parseFloat(config?.config?.defaultValue as string || '')) ?? 50;
-
     this.onConfigUpdate();
 
     port.upstreamConnection.subscribe(() => {
@@ -110,8 +148,7 @@ export class SliderComponent extends DashboardComponent {
    * Synchronize component with node config.
    */
   public override onConfigUpdate(): void {
-    const specificConfig: Record<string, unknown> =
-      this.componentConfig.config || {};
+    const specificConfig = this.resolvedConfig();
 
     const sourceportschema = this.node
       .getInputPort('value')
@@ -119,6 +156,10 @@ export class SliderComponent extends DashboardComponent {
       ?.schema.get();
 
     this.unit = ''
+    // Converted to the display unit below, so start over
+    this.min = ''
+    this.max = ''
+    this.step = ''
 
     if (sourceportschema) {
 
@@ -157,19 +198,70 @@ export class SliderComponent extends DashboardComponent {
     }
     
 
-    this.displayUnit = this.unit
+    const wanted =
+      (specificConfig.displayUnit as string) || displayUnitFor(this.unit);
+    this.displayUnit =
+      this.unit && canConvert(this.unit, wanted) ? wanted : this.unit;
+    if (this.displayUnit !== this.unit) {
+      this.min = this.toDisplayString(this.min, convertUnit);
+      this.max = this.toDisplayString(this.max, convertUnit);
+      this.step = this.toDisplayString(this.step, convertUnitDifference);
+    }
+
     this.label = (specificConfig.label as string) || 'Slider';
+    this.applyStaleTimeout('value', Number(specificConfig.staleTimeout) || 0);
 
     this.requestUpdate();
   }
 
+  /**
+   * Convert one of the min, max or step strings from the port's
+   * unit to the display unit.
+   */
+  private toDisplayString(
+    value: string,
+    convert: (value: number, from: string, to: string) => number
+  ): string {
+    if (value === '' || isNaN(Number(value))) {
+      return value;
+    }
+    return String(convert(Number(value), this.unit, this.displayUnit));
+  }
+
+  /**
+   * The value in the display unit.
+   */
+  private displayValue(): number {
+    return convertUnit(this.value, this.unit, this.displayUnit);
+  }
+
+  /**
+   * Show values in the operator's preferred units as they change.
+   */
+  override connectedCallback(): void {
+    super.connectedCallback();
+    this.unsubscribeUnits = displayUnitSystem.onChange(() =>
+      this.onConfigUpdate()
+    );
+  }
+
+  override disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.unsubscribeUnits?.();
+    this.unsubscribeUnits = null;
+  }
+
   /**
    * Handle slider input.
    */
   private handleInput(event: Event): void {
     doSerialized(() => {
       const target = event.target as HTMLInputElement;
-      this.value = Number(target.value);
+      this.value = convertUnit(
+        Number(target.value),
+        this.displayUnit,
+        this.unit
+      );
       void this.sendData('value', this.value);
     });
   }
@@ -208,10 +300,11 @@ export class SliderComponent extends DashboardComponent {
     const intDigits = max > 0 ? Math.ceil(Math.log10(max + 1)) : 1;
 
     let formatted: string;
+    const value = this.displayValue();
     if (decimals > 0) {
-      formatted = this.value.toFixed(decimals);
+      formatted = value.toFixed(decimals);
     } else {
-      formatted = String(Math.floor(this.value));
+      formatted = String(Math.floor(value));
     }
 
     // Pad integer part with leading zeros
@@ -225,7 +318,7 @@ export class SliderComponent extends DashboardComponent {
    * Calculate percentage for visual fill effect.
    */
   private getPercentage(): number {
-    return ((this.value - parseFloat(this.min) /
+    return ((this.displayValue() - parseFloat(this.min) /
      (parseFloat(this.max)- parseFloat(this.min)))) * 100;
   }
 
@@ -237,11 +330,15 @@ export class SliderComponent extends DashboardComponent {
 
     return html`
       <label class="one-line-control"
-        ><span>${this.label} (${this.formatValue()}${this.displayUnit})</span>
+        ><span
+          >${this.label} (${this.formatValue()}${this.displayUnit})${this.renderQualityBadge(
+            this.node.getInputPort('value').getLastData()
+          )}</span
+        >
         <input
           class="max-w-12rem display-cont"
           type="range"
-          .value="${String(this.value)}"
+          .value="${String(this.displayValue())}"
           .min="${String(this.min)}"
           .max="${String(this.max)}"
           .step="${String(this.step)}"
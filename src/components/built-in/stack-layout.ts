@@ -50,10 +50,10 @@ export class StackLayoutComponent extends PlainLayoutComponent {
    * Synchronize component with node config.
    */
   public override onConfigUpdate(): void {
-    const config = this.componentConfig;
-    if (config) {
-      this.direction = (config?.config?.direction as 'row' | 'column') || 'row';
-      this.gap = (config?.config?.gap as string) ?? '8px';
+    if (this.componentConfig) {
+      const config = this.resolvedConfig();
+      this.direction = (config.direction as 'row' | 'column') || 'row';
+      this.gap = (config.gap as string) ?? '8px';
     }
     this.requestUpdate();
   }
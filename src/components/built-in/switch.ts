@@ -37,15 +37,18 @@ export class SwitchComponent extends DashboardComponent {
   constructor(config: ComponentConfig) {
     super(config);
 
+    this.value =
+      parseInt((config?.config?.defaultValue as string) || '', 10) ?? 0;
+
     const port = this.node.addPort(
-      new Port({ name: 'value', type: 'number', direction: 'input' })
+      new Port(
+        { name: 'value', type: 'number', direction: 'input' },
+        this.defaultPortData(this.value)
+      )
     );
 
     port.addDataHandler(this.onPortData.bind(this));
 
-    this.value =
-      parseInt((config?.config?.defaultValue as string) || '', 10) ?? 0;
-
     this.onConfigUpdate();
 
     port.upstreamConnection.subscribe(() => {
@@ -63,8 +66,7 @@ export class SwitchComponent extends DashboardComponent {
   }
 
   public override onConfigUpdate(): void {
-    const specificConfig: Record<string, unknown> =
-      this.componentConfig.config || {};
+    const specificConfig = this.resolvedConfig();
     this.label = (specificConfig.label as string) || 'Switch';
     this.requestUpdate();
   }
@@ -43,14 +43,17 @@ export class TextboxComponent extends DashboardComponent {
   constructor(config: ComponentConfig) {
     super(config);
 
+    this.value = config?.config?.defaultValue as string || '';
+
     const port = this.node.addPort(
-      new Port({ name: 'value', type: 'string', direction: 'input' })
+      new Port(
+        { name: 'value', type: 'string', direction: 'input' },
+        this.defaultPortData(this.value)
+      )
     );
 
     port.addDataHandler(this.onPortData.bind(this));
 
-    this.value = config?.config?.defaultValue as string || '';
-
     this.onConfigUpdate();
 
     port.upstreamConnection.subscribe(() => {
@@ -69,7 +72,7 @@ export class TextboxComponent extends DashboardComponent {
   }
 
   public override onConfigUpdate(): void {
-    const specificConfig: Record<string, unknown> = this.componentConfig.config || {};
+    const specificConfig = this.resolvedConfig();
     this.label = (specificConfig.label as string) || 'Text';
     this.placeholder = (specificConfig.placeholder as string) || '';
     this.requestUpdate();
@@ -13,6 +13,7 @@ import { doSerialized } from '../../core/serialized-actions';
 import { Port, PortSchema } from '../../flow/port';
 import type { PortData } from '../../flow/data-types';
 import { SourceType } from '../../flow/port';
+import { unitRegistry } from '../../flow/units';
 
 @customElement('dashbeard-variable')
 export class VariableComponent extends DashboardComponent {
@@ -29,11 +30,13 @@ export class VariableComponent extends DashboardComponent {
           description: 'The value type',
           enum: ['string', 'number'],
           default: 'string',
+          configPort: false,
         },
         defaultValue: {
           type: 'string',
           description: 'The default value',
           default: '',
+          configPort: false,
         },
         label: {
           type: 'string',
@@ -50,11 +53,25 @@ export class VariableComponent extends DashboardComponent {
           type: 'number',
           description: 'Min val for numeric variables',
           default: 0,
+          configPort: false,
         },
         max: {
           type: 'number',
           description: 'Max val for numeric variables',
           default: 100,
+          configPort: false,
+        },
+        staleTimeout: {
+          type: 'number',
+          description: 'Mark the value stale after N seconds without an update (0 = never)',
+          default: 0,
+        },
+        unit: {
+          type: 'string',
+          description: 'Unit of numeric values, e.g. °C',
+          enum: ['', ...unitRegistry.getAll().map((unit) => unit.symbol)],
+          default: '',
+          configPort: false,
         },
       },
     },
@@ -66,8 +83,16 @@ export class VariableComponent extends DashboardComponent {
 
   @property() visible: boolean = true;
 
+  /**
+   * The config properties the value port is made from, as they
+   * were when this instance was created. Changing them recreates
+   * the variable, so they have no config ports.
+   */
+  private portConfig: string;
+
   constructor(config: ComponentConfig) {
     super(config);
+    this.portConfig = VariableComponent.getPortConfig(config);
 
     this.value = config.config.defaultValue ?? null;
 
@@ -75,11 +100,15 @@ export class VariableComponent extends DashboardComponent {
       name: 'value',
       direction: 'output',
       type: (config.config.type as string) || 'string',
+      staleTimeout: Number(config.config?.staleTimeout) || 0,
     };
 
     if (config.config.type == 'number') {
       ps.min = config.config.min;
       ps.max = config.config.max;
+      if (config.config.unit) {
+        ps.unit = config.config.unit as string;
+      }
     }
 
     this.node
@@ -96,6 +125,8 @@ export class VariableComponent extends DashboardComponent {
     data: PortData,
     sourceType: SourceType
   ): Promise<void> {
+    // Re-render for quality changes too, which keep the value
+    this.requestUpdate();
     if (data.value === this.value) return;
     if (sourceType === SourceType.PortOwner) return;
     this.value = data.value;
@@ -103,6 +134,25 @@ export class VariableComponent extends DashboardComponent {
     await this.sendData('value', this.value);
   }
 
+  /**
+   * Bindings have synced by now, so the value counts as sent.
+   * It isn't sent again: that would override the bindings'
+   * initialSync policies. With a staleTimeout, it goes stale
+   * if nothing replaces it in time.
+   */
+  public override onGraphReady(): void {
+    this.node.getOutputPort('value').startStaleTimer();
+  }
+
+  /**
+   * The config properties that shape the value port, or set
+   * its default, serialized for comparison.
+   */
+  private static getPortConfig(config: ComponentConfig): string {
+    const { type, defaultValue, min, max, unit } = config.config ?? {};
+    return JSON.stringify([type, defaultValue, min, max, unit]);
+  }
+
   /**
    * Synchronize component value with node config.
    * Detects type changes and requests recreation if needed.
@@ -110,13 +160,18 @@ export class VariableComponent extends DashboardComponent {
   public override onConfigUpdate(): void {
     const config = this.componentConfig;
     if (config) {
-      this.label = (config.config.label as string) || 'Variable';
-      this.visible = config.config.visible as boolean;
+      const resolved = this.resolvedConfig();
+      this.label = (resolved.label as string) || 'Variable';
+      this.visible = resolved.visible as boolean;
+      this.applyStaleTimeout('value', Number(resolved.staleTimeout) || 0);
+      this.requestUpdate();
 
       // Type changed - request recreation
-      this.requestRecreation().catch((err) => {
-        console.error('Failed to recreate variable component:', err);
-      });
+      if (VariableComponent.getPortConfig(config) !== this.portConfig) {
+        this.requestRecreation().catch((err) => {
+          console.error('Failed to recreate variable component:', err);
+        });
+      }
     }
   }
 
@@ -137,6 +192,14 @@ export class VariableComponent extends DashboardComponent {
     doSerialized(() => this.sendData('value', this.value));
   }
 
+  /**
+   * The unit of the value port, shown after the label.
+   */
+  private renderUnit(): string {
+    const { unit } = this.node.getOutputPort('value').schema.get();
+    return unit ? ` (${unit})` : '';
+  }
+
   /**
    * Render the variable component.
    */
@@ -145,7 +208,11 @@ export class VariableComponent extends DashboardComponent {
       <div
         class="small-dashboard-widget-container${this.visible ? '' : ' hidden'}"
       >
-        <label>${this.label}</label>
+        <label
+          >${this.label}${this.renderUnit()}${this.renderQualityBadge(
+            this.node.getOutputPort('value').getLastData()
+          )}</label
+        >
         <input
           type="text"
           .value="${String(this.value)}"
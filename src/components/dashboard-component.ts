@@ -9,8 +9,11 @@ import { Node } from '../flow/node';
 import { PortData } from '../flow/data-types';
 import type { ComponentConfig } from '../boards/board-types';
 import type { ComponentTypeSchema } from '../editor';
-import { SourceType } from '../flow/port';
-import { createPortData } from '../flow/data-types';
+import type { ConfigSchema } from '../editor/types';
+import { Port, SourceType } from '../flow/port';
+import { MERGE_POLICIES, createPortData, getQuality } from '../flow/data-types';
+import type { MergePolicy } from '../flow/data-types';
+import { ReactiveExpression, isExpression } from '../flow/expressions';
 /**
  * Base class for dashboard components.
  * Each component:
@@ -79,10 +82,30 @@ export class DashboardComponent extends LitElement {
    */
   @property({ type: Object }) portData: Record<string, PortData | null> = {};
 
+  /**
+   * Expressions of the config properties set to an '='
+   * expression, by property name. See resolvedConfig.
+   */
+  private configExpressions = new Map<string, ReactiveExpression>();
+
+  /**
+   * Whether resolvedConfig met expressions it couldn't start yet,
+   * outside a graph or the DOM, so onConfigUpdate has to run again.
+   */
+  private configExpressionsWaiting = false;
+
+  /**
+   * Values from the config ports, by property name. They
+   * win over the configured values, see addConfigPorts.
+   */
+  private configOverrides = new Map<string, unknown>();
+
   /**Called when node graph is ready and connections
-   are made.
+   are made. Components upstream of this one are ready
+   first, and the graph waits for a returned promise
+   before starting the components that depend on this one.
    */
-  onGraphReady(): void {}
+  onGraphReady(): void | Promise<void> {}
 
   //**Tell node to claim any unrendered childred it
   // has in the shadow DOM */
@@ -96,6 +119,57 @@ export class DashboardComponent extends LitElement {
     this.componentConfig = config;
     this.id = this.componentConfig.id;
     this.node = new Node(this.id);
+    this.node.addOnReadyListener(() => this.onGraphReady());
+    this.addConfigPorts();
+  }
+
+  /**
+   * Prefix of the input ports that set config properties,
+   * e.g. `config:src` for the `src` property.
+   */
+  static readonly configPortPrefix = 'config:';
+
+  /**
+   * Add a config port for each string, number or boolean
+   * property of the config schema, so a binding can set the
+   * property, unless its schema sets configPort to false.
+   * Booleans take numbers, like other on/off ports.
+   * Data on the port overrides the configured value in
+   * resolvedConfig until null arrives, and calls onConfigUpdate.
+   */
+  private addConfigPorts(): void {
+    const { configSchema } = (this.constructor as typeof DashboardComponent)
+      .typeSchema;
+    for (const [name, schema] of Object.entries(
+      configSchema?.properties || {}
+    )) {
+      if (
+        schema.configPort === false ||
+        (schema.type !== 'string' &&
+          schema.type !== 'number' &&
+          schema.type !== 'boolean')
+      ) {
+        continue;
+      }
+      const isBoolean = schema.type === 'boolean';
+      const port = new Port({
+        name: DashboardComponent.configPortPrefix + name,
+        direction: 'input',
+        type: isBoolean ? 'number' : schema.type,
+        description: schema.description,
+      });
+      this.node.addPort(port).addDataHandler(async (data, sourceType) => {
+        if (sourceType === SourceType.PortOwner) return;
+        if (data.value === null || data.value === undefined) {
+          if (!this.configOverrides.delete(name)) return;
+        } else {
+          const value = isBoolean ? Boolean(data.value) : data.value;
+          if (this.configOverrides.get(name) === value) return;
+          this.configOverrides.set(name, value);
+        }
+        this.onConfigUpdate();
+      });
+    }
   }
 
   /**
@@ -109,6 +183,45 @@ export class DashboardComponent extends LitElement {
   }
 
 
+  /**
+   * The config with each '=' expression replaced by its latest
+   * result, which is undefined until the component is shown and
+   * in a graph, and null after an error. The expressions follow the ports
+   * they read and call onConfigUpdate when their result changes,
+   * so onConfigUpdate should read the config through this.
+   * Data on a config port wins over both.
+   */
+  protected resolvedConfig(): Record<string, unknown> {
+    const config = this.componentConfig?.config || {};
+    // Expressions run while the component is shown
+    const graph = this.isConnected ? this.node?.graph : null;
+    for (const [name, expression] of this.configExpressions) {
+      if (config[name] !== expression.expression || !graph) {
+        expression.destroy();
+        this.configExpressions.delete(name);
+      }
+    }
+
+    const resolved: Record<string, unknown> = { ...config };
+    for (const [name, value] of Object.entries(config)) {
+      if (!isExpression(value)) continue;
+      let expression = this.configExpressions.get(name);
+      if (!expression && graph) {
+        expression = new ReactiveExpression(value, graph);
+        expression.value.onChange(() => this.onConfigUpdate());
+        this.configExpressions.set(name, expression);
+      }
+      if (!expression) {
+        this.configExpressionsWaiting = true;
+      }
+      resolved[name] = expression?.value.get();
+    }
+    for (const [name, value] of this.configOverrides) {
+      resolved[name] = value;
+    }
+    return resolved;
+  }
+
   protected subscribeToPort(
     portName: string,
     onData: (data: PortData, sourceType: SourceType) => Promise<void>
@@ -134,9 +247,22 @@ export class DashboardComponent extends LitElement {
     return port.addDataHandler(handler);
   }
 
+  /**
+   * Run fn as one batch of the node graph, so everything it
+   * sends is delivered together in topological order.
+   * Joins the running batch if there is one.
+   */
+  protected async batch<T>(fn: () => T | Promise<T>): Promise<T> {
+    const graph = this.getNode().graph;
+    return graph ? graph.batch(fn) : fn();
+  }
+
   /**
    * Send data out through an output port.
    * Used by UI handlers to push data to connected components.
+   * The send is a batch of its own, or joins the running one.
+   * The data is annotated with this component's ID and the
+   * port's unit.
    *
    * @param portName Name of the output port
    * @param value The value to send
@@ -153,8 +279,139 @@ export class DashboardComponent extends LitElement {
       throw new Error(`Port not found: ${portName}`);
     }
 
-    const data = createPortData(value);
-    await port.onNewData(data, SourceType.PortOwner);
+    const { unit } = port.schema.get();
+    const data = createPortData(value, undefined, {
+      sourceId: this.id,
+      ...(unit ? { unit } : {}),
+    });
+    await this.batch(() => port.onNewData(data, SourceType.PortOwner));
+  }
+
+  /**
+   * Set a port's stale timeout, see PortSchema.staleTimeout.
+   * When it changes, the data the port holds is timed again.
+   */
+  protected applyStaleTimeout(portName: string, timeout: number): void {
+    const port = this.node.allPorts.get(portName);
+    if (!port || (port.schema.get().staleTimeout || 0) === timeout) {
+      return;
+    }
+    port.schema.set({ ...port.schema.get(), staleTimeout: timeout });
+    port.startStaleTimer();
+  }
+
+  /**
+   * Initial data for a port that holds the configured
+   * defaultValue, or null when none is set. A binding's initial
+   * sync can then let it win over the upstream data.
+   *
+   * @param value The default value as the component parsed it
+   */
+  protected defaultPortData(value: unknown): PortData | null {
+    const configured = this.componentConfig.config?.defaultValue;
+    if (configured === undefined || configured === '') return null;
+    if (typeof value === 'number' && isNaN(value)) return null;
+    return createPortData(value, undefined, { sourceId: this.id });
+  }
+
+  /**
+   * Config schema for a `merge` property, letting an input port
+   * take several bindings. See configuredMerge.
+   */
+  static readonly mergeConfigSchema: ConfigSchema = {
+    type: 'string',
+    description: 'How to combine several bindings to the input',
+    enum: ['single', ...MERGE_POLICIES],
+    default: 'single',
+    // Switching it reconnects the bindings, see applyMerge
+    configPort: false,
+  };
+
+  /**
+   * The merge policy set by the `merge` config property, or
+   * undefined for a single binding. Resolved like the rest of
+   * the config, so onConfigUpdate should apply it again
+   * with applyMerge.
+   */
+  protected configuredMerge(): MergePolicy | undefined {
+    const merge = this.resolvedConfig().merge;
+    return MERGE_POLICIES.find((policy) => policy === merge);
+  }
+
+  /**
+   * Set an input port's merge policy to the configured one.
+   * When it changes, the bindings to the port connect again to
+   * switch between single and merging.
+   */
+  protected applyMerge(port: Port): void {
+    const merge = this.configuredMerge();
+    if (port.schema.get().merge === merge) return;
+    port.schema.set({ ...port.schema.get(), merge });
+    this.node.graph?.reconnectInput(port).catch((err) => {
+      console.error(`Error reconnecting ${port.getFullName()}:`, err);
+    });
+  }
+
+  /**
+   * Ask the source bound to an input port for fresh data.
+   * The reply arrives through the port's data handlers.
+   *
+   * @param portName Name of the input port
+   */
+  async requestData(portName: string): Promise<void> {
+    await this.getNode().getInputPort(portName).requestNewData();
+  }
+
+  /**
+   * Ask the sources of all input ports for fresh data, e.g.
+   * when the component is shown again or refreshed by the user.
+   */
+  async refreshInputs(): Promise<void> {
+    await Promise.all(
+      [...this.getNode().inputPorts.values()].map((port) =>
+        port.requestNewData()
+      )
+    );
+  }
+
+  /**
+   * Answer data requests on an output port with a fresh value.
+   * Without this the port's last value is sent again.
+   *
+   * @param portName Name of the output port
+   * @param getValue Produces the current value, e.g. by polling
+   * @returns Function to stop answering
+   */
+  protected answerDataRequests(
+    portName: string,
+    getValue: () => unknown
+  ): () => void {
+    return this.getNode().setDataRequestHandler(portName, async () => {
+      await this.sendData(portName, await getValue());
+    });
+  }
+
+  /**
+   * Render a badge for data that is not good, e.g. stale or
+   * bad, with any error message as its tooltip. Renders nothing
+   * for good data or no data.
+   */
+  protected renderQualityBadge(
+    data: PortData | null | undefined
+  ): TemplateResult | string {
+    if (!data) {
+      return '';
+    }
+    const quality = getQuality(data);
+    const error = data.annotation?.error;
+    if (quality === 'good' && !error) {
+      return '';
+    }
+    return html`<span
+      class="quality-badge quality-${quality}"
+      title="${error ?? quality}"
+      >${quality === 'good' ? 'error' : quality}</span
+    >`;
   }
 
   /**
@@ -195,11 +452,28 @@ export class DashboardComponent extends LitElement {
     this.dispatchEvent(event);
   }
 
+  /**
+   * Start any config expressions that were waiting for the
+   * component to be shown.
+   */
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this.configExpressionsWaiting) {
+      this.configExpressionsWaiting = false;
+      this.onConfigUpdate();
+    }
+  }
+
   /**
    * Clean up on disconnect.
    */
   disconnectedCallback(): void {
     super.disconnectedCallback();
+    for (const expression of this.configExpressions.values()) {
+      expression.destroy();
+      this.configExpressionsWaiting = true;
+    }
+    this.configExpressions.clear();
   }
 
   /**
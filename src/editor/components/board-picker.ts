@@ -0,0 +1,371 @@
+/**
+ * Board picker - switch between and manage the boards of
+ * a multi-board backend. Renders nothing if the backend
+ * cannot list boards.
+ */
+
+import { LitElement, html, TemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { EditorState } from '../editor-state';
+import {
+  exportBoardBundle,
+  importBoardBundle,
+  readBoardBundle,
+} from '../../backends/bundle';
+import type { BoardDefinition, BoardSummary } from '../types';
+
+/**
+ * Board selector with new, duplicate, rename, delete,
+ * export and import actions. Each action is shown only if
+ * the backend implements it.
+ */
+@customElement('ds-editor-board-picker')
+export class BoardPicker extends LitElement {
+  /**
+   * Editor state, for the backend and the open board.
+   */
+  @property({ type: Object }) editorState?: EditorState;
+
+  @state() private boards: BoardSummary[] = [];
+
+  @state() private error = '';
+
+  private unsubscribe: (() => void) | null = null;
+
+  protected createRenderRoot(): HTMLElement | DocumentFragment {
+    return this; // Renders to the element's light DOM
+  }
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    this.unsubscribe =
+      this.editorState?.board.subscribe(() => this.requestUpdate()) ?? null;
+    this.refresh().catch((err: unknown) => {
+      this.error = `Failed to list boards: ${String(err)}`;
+    });
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Reload the board list from the backend.
+   */
+  async refresh(): Promise<void> {
+    const backend = this.editorState?.backend;
+    if (!backend?.listBoards) {
+      this.boards = [];
+      return;
+    }
+    const boards = await backend.listBoards();
+    this.boards = boards.sort((a, b) =>
+      (a.name ?? a.id).localeCompare(b.name ?? b.id)
+    );
+    this.error = '';
+  }
+
+  private get currentId(): string {
+    return this.editorState?.board.get()?.id ?? '';
+  }
+
+  override render(): TemplateResult {
+    const backend = this.editorState?.backend;
+    if (!backend?.listBoards) {
+      return html``;
+    }
+
+    const current = this.currentId;
+
+    return html`
+      <div class="board-picker">
+        <select
+          title="Open board"
+          .value="${current}"
+          @change="${(e: Event) =>
+            this.run(() =>
+              this.openBoard((e.target as HTMLSelectElement).value)
+            )}"
+        >
+          ${this.boards.map(
+            (b) => html`
+              <option value="${b.id}" ?selected="${b.id === current}">
+                ${b.name || b.id}
+              </option>
+            `
+          )}
+        </select>
+        ${
+          backend.createBoard
+            ? html`<button @click="${() => this.run(() => this.createBoard())}">
+                New
+              </button>`
+            : ''
+        }
+        ${
+          backend.duplicateBoard && current
+            ? html`<button
+                @click="${() => this.run(() => this.duplicateBoard())}"
+              >
+                Duplicate
+              </button>`
+            : ''
+        }
+        ${
+          backend.renameBoard && current
+            ? html`<button @click="${() => this.run(() => this.renameBoard())}">
+                Rename
+              </button>`
+            : ''
+        }
+        ${
+          backend.deleteBoard && current
+            ? html`<button
+                class="danger"
+                @click="${() => this.run(() => this.deleteBoard())}"
+              >
+                Delete
+              </button>`
+            : ''
+        }
+        ${
+          current
+            ? html`<button
+                title="Download the saved board and its resources as a zip"
+                @click="${() => this.run(() => this.exportBoard())}"
+              >
+                Export
+              </button>`
+            : ''
+        }
+        ${
+          backend.createBoard && backend.uploadResource
+            ? html`<input
+                  type="file"
+                  accept=".zip,application/zip"
+                  hidden
+                  id="board-import-input"
+                  @change="${(e: Event) => this.onImportInput(e)}"
+                />
+                <button
+                  title="Import a board exported as a zip"
+                  @click="${() =>
+                    this.querySelector<HTMLInputElement>(
+                      '#board-import-input'
+                    )?.click()}"
+                >
+                  Import
+                </button>`
+            : ''
+        }
+      </div>
+      ${this.error ? html`<div class="error-message">${this.error}</div>` : ''}
+    `;
+  }
+
+  /**
+   * Run an action, reporting failures in the picker
+   * rather than as unhandled rejections.
+   */
+  private run(action: () => Promise<void>): void {
+    action().catch((err: unknown) => {
+      this.error = String(err);
+    });
+  }
+
+  /**
+   * Ask before throwing away unsaved edits.
+   */
+  private confirmDiscard(): boolean {
+    if (!this.editorState?.isDirty.get()) {
+      return true;
+    }
+    return confirm('Discard unsaved changes to the current board?');
+  }
+
+  private async openBoard(id: string): Promise<void> {
+    if (!this.editorState || id === this.currentId) {
+      return;
+    }
+    if (!this.confirmDiscard()) {
+      this.requestUpdate();
+      return;
+    }
+    await this.editorState.editorComponent.loadBoard(id);
+  }
+
+  private async createBoard(): Promise<void> {
+    const backend = this.editorState?.backend;
+    if (!backend?.createBoard || !this.confirmDiscard()) {
+      return;
+    }
+    const name = prompt('Name for the new board:');
+    if (!name) {
+      return;
+    }
+    const board: BoardDefinition = {
+      id: this.uniqueId(name),
+      metadata: { name },
+      rootComponent: {
+        id: 'root',
+        type: 'plain-layout',
+        config: {},
+        children: [],
+      },
+      bindings: [],
+    };
+    const summary = await backend.createBoard(board);
+    await this.refresh();
+    await this.editorState!.editorComponent.loadBoard(summary.id);
+  }
+
+  private async duplicateBoard(): Promise<void> {
+    const backend = this.editorState?.backend;
+    const source = this.boards.find((b) => b.id === this.currentId);
+    if (!backend?.duplicateBoard || !source || !this.confirmDiscard()) {
+      return;
+    }
+    const name = prompt(
+      'Name for the copy:',
+      `${source.name ?? source.id} (copy)`
+    );
+    if (!name) {
+      return;
+    }
+    const summary = await backend.duplicateBoard(
+      source.id,
+      this.uniqueId(name),
+      name
+    );
+    await this.refresh();
+    await this.editorState!.editorComponent.loadBoard(summary.id);
+  }
+
+  private async renameBoard(): Promise<void> {
+    const backend = this.editorState?.backend;
+    const board = this.editorState?.board.get();
+    if (!backend?.renameBoard || !board) {
+      return;
+    }
+    const name = prompt('New name:', board.metadata.name ?? board.id);
+    if (!name) {
+      return;
+    }
+    const summary = await backend.renameBoard(board.id, name);
+    // Keep the open copy in sync without discarding other
+    // edits. The rename stored a new revision, so take its
+    // token or the next save would be refused as a conflict.
+    board.metadata.name = name;
+    board.metadata.revision = summary.revision;
+    this.editorState!.board.set(board);
+    await this.refresh();
+  }
+
+  private async deleteBoard(): Promise<void> {
+    const backend = this.editorState?.backend;
+    const board = this.editorState?.board.get();
+    if (!backend?.deleteBoard || !board) {
+      return;
+    }
+    if (
+      !confirm(
+        `Delete board "${board.metadata.name ?? board.id}"? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    await backend.deleteBoard(board.id);
+    await this.refresh();
+
+    const next = this.boards[0];
+    if (next) {
+      await this.editorState!.editorComponent.loadBoard(next.id);
+    } else {
+      this.editorState!.setBoard(null);
+    }
+  }
+
+  /**
+   * Download the stored version of the open board, with
+   * the resources it uses, as a bundle.
+   */
+  private async exportBoard(): Promise<void> {
+    const backend = this.editorState?.backend;
+    const id = this.currentId;
+    if (!backend || !id) {
+      return;
+    }
+    if (
+      this.editorState!.isDirty.get() &&
+      !confirm('Unsaved changes will not be exported. Continue?')
+    ) {
+      return;
+    }
+    const data = await exportBoardBundle(backend, id);
+    const url = URL.createObjectURL(
+      new Blob([data], { type: 'application/zip' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${id}.zip`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  private onImportInput(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (file) {
+      this.run(() => this.importBoard(file));
+    }
+  }
+
+  /**
+   * Import a bundle as a new board and open it. The
+   * board keeps its ID unless that is taken.
+   */
+  private async importBoard(file: File): Promise<void> {
+    const backend = this.editorState?.backend;
+    if (!backend || !this.confirmDiscard()) {
+      return;
+    }
+    const bundle = await readBoardBundle(file);
+    const taken = this.boards.some((b) => b.id === bundle.board.id);
+    const board = await importBoardBundle(backend, bundle, {
+      boardId: taken
+        ? this.uniqueId(bundle.board.metadata.name ?? bundle.board.id)
+        : bundle.board.id,
+    });
+    await this.refresh();
+    await this.editorState!.editorComponent.loadBoard(board.id);
+  }
+
+  /**
+   * Derive a board ID from a name that is not yet taken.
+   */
+  private uniqueId(name: string): string {
+    const base =
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'board';
+    const taken = new Set(this.boards.map((b) => b.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) {
+      if (n > 10000) {
+        throw new Error('Could not find a free board ID');
+      }
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'ds-editor-board-picker': BoardPicker;
+  }
+}
@@ -4,11 +4,32 @@
  */
 
 import { LitElement, html, TemplateResult } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
+import { customElement, property, state } from 'lit/decorators.js';
 import { EditorState } from '../editor-state';
-import type { IBoardBackend, BoardDefinition } from '../types';
+import type { IBoardBackend, BoardDefinition, SaveOptions } from '../types';
 import { DashboardRenderer } from '../../components/dashboard-renderer.ts';
+import { BoardConflictError } from '../../backends/conflict';
+import { diffBoards } from '../utils/board-diff';
 import './sidebar/editor-sidebar';
+import './board-picker';
+
+/**
+ * A save that was refused because the stored board
+ * changed after it was loaded.
+ */
+interface SaveConflict {
+  /** The editor's version, which failed to save */
+  local: BoardDefinition;
+
+  /** The version now stored in the backend */
+  remote: BoardDefinition;
+
+  /** Options of the failed save, reused to overwrite */
+  options?: SaveOptions;
+
+  showDiff: boolean;
+}
+
 /**
  * Main DashboardEditor component.
  * Wraps DashboardRenderer with edit mode, sidebar, and controls.
@@ -52,6 +73,11 @@ export class DashboardEditor extends LitElement {
    */
   @property({ type: Boolean }) isLoading: boolean = false;
 
+  /**
+   * Pending save conflict, shown until resolved.
+   */
+  @state() private conflict: SaveConflict | null = null;
+
 
   protected createRenderRoot(): HTMLElement | DocumentFragment {
     return this; // Renders to the element's light DOM
@@ -130,9 +156,13 @@ export class DashboardEditor extends LitElement {
   }
 
   /**
-   * Save current board to backend.
+   * Save current board to backend. The options describe
+   * the revision, for backends that keep history.
+   * If someone else saved the board in the meantime, the
+   * save is refused and the user can reload, overwrite
+   * or compare the two versions.
    */
-  async saveBoard(): Promise<void> {
+  async saveBoard(options?: SaveOptions): Promise<void> {
     const board: BoardDefinition | null = this.editorState.board.get();
 
     if (!board || !this.backend) {
@@ -140,13 +170,54 @@ export class DashboardEditor extends LitElement {
     }
 
     try {
-      await this.backend.save(board);
+      await this.backend.save(board, options);
+      this.conflict = null;
       this.editorState.clearDirty();
     } catch (err) {
+      if (err instanceof BoardConflictError) {
+        await this.showConflict(board, options);
+        return;
+      }
       this.error = `Failed to save board: ${String(err)}`;
     }
   }
 
+  private async showConflict(
+    local: BoardDefinition,
+    options?: SaveOptions
+  ): Promise<void> {
+    try {
+      const remote = await this.backend!.load(local.id);
+      this.conflict = { local, remote, options, showDiff: false };
+    } catch (err) {
+      this.error = `Failed to load the stored board: ${String(err)}`;
+    }
+  }
+
+  /**
+   * Resolve a conflict by discarding local edits in
+   * favour of the stored board.
+   */
+  private reloadFromConflict(): void {
+    if (!this.conflict) {
+      return;
+    }
+    const { remote } = this.conflict;
+    this.conflict = null;
+    this.editorState.setBoard(remote);
+  }
+
+  /**
+   * Resolve a conflict by saving the local board over
+   * the stored one.
+   */
+  private async overwriteFromConflict(): Promise<void> {
+    if (!this.conflict) {
+      return;
+    }
+    await this.saveBoard({ ...this.conflict.options, force: true });
+  }
+
   /**
    * Set board directly (for testing or manual load).
    */
@@ -206,11 +277,15 @@ export class DashboardEditor extends LitElement {
       <div class="editor-layout ${this.showSidebar ? '' : 'sidebar-hidden'}">
         <div class="editor-sidebar" hidden=${!this.showSidebar}>
           <div class="tool-bar nogrow">
-            <button @click="${this.saveBoard.bind(this)}">
+            <button @click="${() => this.saveBoard()}">
               Save
             </button>
+            <ds-editor-board-picker .editorState="${this.editorState}">
+            </ds-editor-board-picker>
           </div>
 
+          ${this.conflict ? this.renderConflict(this.conflict) : ''}
+
           <ds-editor-sidebar
             style="flex: 1;"
             .editorState="${this.editorState}"
@@ -230,6 +305,74 @@ export class DashboardEditor extends LitElement {
       </div>
     `;
   }
+
+  private renderConflict(conflict: SaveConflict): TemplateResult {
+    const changes = conflict.showDiff
+      ? diffBoards(conflict.remote, conflict.local)
+      : [];
+
+    return html`
+      <div class="save-conflict">
+        <div class="save-conflict-message">
+          This board was changed by someone else since you opened it.
+        </div>
+        <div class="save-conflict-actions">
+          <button @click="${() => this.reloadFromConflict()}">
+            Reload theirs
+          </button>
+          <button
+            class="danger"
+            @click="${() => this.overwriteFromConflict()}"
+          >
+            Overwrite with mine
+          </button>
+          <button
+            @click="${() => {
+              this.conflict = { ...conflict, showDiff: !conflict.showDiff };
+            }}"
+          >
+            ${conflict.showDiff ? 'Hide' : 'Show'} differences
+          </button>
+          <button @click="${() => (this.conflict = null)}">Cancel</button>
+        </div>
+        ${conflict.showDiff
+          ? changes.length === 0
+            ? html`<div class="save-conflict-same">
+                The versions have the same content.
+              </div>`
+            : html`
+                <table class="board-diff">
+                  <tr>
+                    <th>Path</th>
+                    <th>Theirs</th>
+                    <th>Mine</th>
+                  </tr>
+                  ${changes.map(
+                    (change) => html`
+                      <tr class="board-diff-${change.kind}">
+                        <td>${change.path}</td>
+                        <td>${formatDiffValue(change.before)}</td>
+                        <td>${formatDiffValue(change.after)}</td>
+                      </tr>
+                    `
+                  )}
+                </table>
+              `
+          : ''}
+      </div>
+    `;
+  }
+}
+
+/**
+ * Short one-line rendering of a value in the diff table.
+ */
+function formatDiffValue(value: unknown): string {
+  if (value === undefined) {
+    return '';
+  }
+  const text = JSON.stringify(value);
+  return text.length > 80 ? text.slice(0, 77) + '...' : text;
 }
 
 declare global {
@@ -6,6 +6,7 @@
 
 import { LitElement, html, TemplateResult, css } from 'lit';
 import { customElement, property, state } from 'lit/decorators.js';
+import { lookupMimeType } from '../../backends/mime';
 import type { FileMetadata, IBoardBackend } from '../types';
 
 /**
@@ -65,6 +66,12 @@ export class ResourceBrowser extends LitElement {
   @state()
   private externalUrlInput = '';
 
+  @state()
+  private dragActive = false;
+
+  @state()
+  private busy = false;
+
   static override styles = css`
     :host {
       display: block;
@@ -261,6 +268,56 @@ export class ResourceBrowser extends LitElement {
       color: #333;
     }
 
+    .resource-actions {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 12px;
+      align-items: center;
+    }
+
+    .resource-actions input[type='file'] {
+      display: none;
+    }
+
+    .drop-zone {
+      border: 2px dashed transparent;
+      border-radius: 4px;
+      min-height: 80px;
+    }
+
+    .drop-zone.drag-active {
+      border-color: #0066cc;
+      background: #e8f2ff;
+    }
+
+    .drop-hint {
+      color: #999;
+      font-size: 11px;
+    }
+
+    .thumbnail {
+      width: 40px;
+      height: 40px;
+      flex: none;
+      margin-right: 8px;
+      border: 1px solid #eee;
+      border-radius: 2px;
+      object-fit: contain;
+      background: #fafafa;
+      pointer-events: none;
+    }
+
+    .item-buttons {
+      display: flex;
+      gap: 4px;
+      margin-left: 8px;
+    }
+
+    .item-buttons button {
+      padding: 2px 6px;
+      font-size: 11px;
+    }
+
     .btn-secondary:hover {
       background: #e0e0e0;
     }
@@ -362,7 +419,14 @@ export class ResourceBrowser extends LitElement {
         })}
       </div>
 
-      <div class="resource-list">
+      ${this.renderActions()}
+
+      <div
+        class="resource-list drop-zone ${this.dragActive ? 'drag-active' : ''}"
+        @dragover="${(e: DragEvent) => this.onDragOver(e)}"
+        @dragleave="${() => (this.dragActive = false)}"
+        @drop="${(e: DragEvent) => this.onDrop(e)}"
+      >
         ${this.items.length === 0
           ? html`<div style="color: #999; text-align: center; padding: 20px;">
               No files found
@@ -373,14 +437,16 @@ export class ResourceBrowser extends LitElement {
                   class="resource-item ${item.url === this.value ? 'selected' : ''}"
                   @click="${() => this.selectItem(item)}"
                 >
+                  ${this.renderThumbnail(item)}
                   <span class="resource-name">
-                    ${item.type === 'folder' ? '📁 ' : '📄 '}${item.name}
+                    ${item.name}
                   </span>
                   ${item.size && item.type === 'file'
                     ? html`<span class="resource-size">
                         ${this.formatFileSize(item.size)}
                       </span>`
                     : ''}
+                  ${this.renderItemButtons(item)}
                 </div>
               `
             )}
@@ -388,6 +454,109 @@ export class ResourceBrowser extends LitElement {
     `;
   }
 
+  /**
+   * Upload and new folder buttons, shown if the backend
+   * supports them.
+   */
+  private renderActions(): TemplateResult | string {
+    const backend = this.backend;
+    if (!backend?.uploadResource && !backend?.createResourceFolder) {
+      return '';
+    }
+    return html`
+      <div class="resource-actions">
+        ${backend.uploadResource
+          ? html`
+              <input
+                type="file"
+                multiple
+                id="upload-input"
+                @change="${(e: Event) => this.onFileInput(e)}"
+              />
+              <button
+                ?disabled="${this.busy}"
+                @click="${() =>
+                  this.renderRoot
+                    .querySelector<HTMLInputElement>('#upload-input')
+                    ?.click()}"
+              >
+                Upload
+              </button>
+              <span class="drop-hint">or drop files below</span>
+            `
+          : ''}
+        ${backend.createResourceFolder
+          ? html`<button
+              class="btn-secondary"
+              ?disabled="${this.busy}"
+              @click="${() => this.runAction(() => this.createFolder())}"
+            >
+              New Folder
+            </button>`
+          : ''}
+      </div>
+    `;
+  }
+
+  private renderItemButtons(item: FileMetadata): TemplateResult | string {
+    const backend = this.backend;
+    if (!backend?.renameResource && !backend?.deleteResource) {
+      return '';
+    }
+    return html`
+      <span class="item-buttons" @click="${(e: Event) => e.stopPropagation()}">
+        ${backend.renameResource
+          ? html`<button
+              class="btn-secondary"
+              title="Rename"
+              ?disabled="${this.busy}"
+              @click="${() => this.runAction(() => this.renameItem(item))}"
+            >
+              Rename
+            </button>`
+          : ''}
+        ${backend.deleteResource
+          ? html`<button
+              class="btn-secondary"
+              title="Delete"
+              ?disabled="${this.busy}"
+              @click="${() => this.runAction(() => this.deleteItem(item))}"
+            >
+              Delete
+            </button>`
+          : ''}
+      </span>
+    `;
+  }
+
+  /**
+   * Small preview: the image itself, or a sample page
+   * styled by the stylesheet for CSS files.
+   */
+  private renderThumbnail(item: FileMetadata): TemplateResult {
+    const mimeType = item.type === 'file' ? lookupMimeType(item.name) || '' : '';
+    if (item.url && mimeType.startsWith('image/')) {
+      return html`<img
+        class="thumbnail"
+        src="${item.url}"
+        alt=""
+        loading="lazy"
+      />`;
+    }
+    if (item.url && mimeType === 'text/css') {
+      return html`<iframe
+        class="thumbnail"
+        sandbox=""
+        loading="lazy"
+        tabindex="-1"
+        srcdoc="${cssPreviewDocument(item.url)}"
+      ></iframe>`;
+    }
+    return html`<span class="thumbnail" style="text-align: center; line-height: 40px;">
+      ${item.type === 'folder' ? '📁' : '📄'}
+    </span>`;
+  }
+
   private renderExternalUrlTab(): TemplateResult {
     return html`
       <div style="padding: 12px 0;">
@@ -464,6 +633,111 @@ export class ResourceBrowser extends LitElement {
     }
   }
 
+  /** Absolute resource path of an item in the current folder */
+  private pathOf(name: string): string {
+    return this.currentFolder === '/'
+      ? '/' + name
+      : this.currentFolder + '/' + name;
+  }
+
+  /**
+   * Run a write action with the dialog marked busy, then
+   * reload the folder. Failures are shown in the dialog.
+   */
+  private runAction(action: () => Promise<void>): void {
+    this.busy = true;
+    this.error = '';
+    action()
+      .catch((e: unknown) => {
+        this.error = String(e);
+      })
+      .then(() => this.loadFolder(this.currentFolder))
+      .catch((e: unknown) => {
+        this.error = String(e);
+      })
+      .finally(() => {
+        this.busy = false;
+      });
+  }
+
+  private async uploadFiles(files: File[]): Promise<void> {
+    const backend = this.backend;
+    if (!backend?.uploadResource) {
+      throw new Error('This backend does not support uploads');
+    }
+    const existing = new Set(this.items.map((i) => i.name));
+    for (const file of files) {
+      if (
+        existing.has(file.name) &&
+        !confirm(`Replace existing file "${file.name}"?`)
+      ) {
+        continue;
+      }
+      await backend.uploadResource(this.pathOf(file.name), file);
+    }
+  }
+
+  private onFileInput(e: Event): void {
+    const input = e.target as HTMLInputElement;
+    const files = [...(input.files ?? [])];
+    input.value = '';
+    if (files.length > 0) {
+      this.runAction(() => this.uploadFiles(files));
+    }
+  }
+
+  private onDragOver(e: DragEvent): void {
+    if (!this.backend?.uploadResource) {
+      return;
+    }
+    e.preventDefault();
+    this.dragActive = true;
+  }
+
+  private onDrop(e: DragEvent): void {
+    if (!this.backend?.uploadResource) {
+      return;
+    }
+    e.preventDefault();
+    this.dragActive = false;
+    const files = [...(e.dataTransfer?.files ?? [])];
+    if (files.length > 0) {
+      this.runAction(() => this.uploadFiles(files));
+    }
+  }
+
+  private async createFolder(): Promise<void> {
+    const name = prompt('Folder name:');
+    if (!name) {
+      return;
+    }
+    await this.backend!.createResourceFolder!(this.pathOf(name));
+  }
+
+  private async renameItem(item: FileMetadata): Promise<void> {
+    const name = prompt('New name:', item.name);
+    if (!name || name === item.name) {
+      return;
+    }
+    const renamed = await this.backend!.renameResource!(
+      this.pathOf(item.name),
+      this.pathOf(name)
+    );
+    // Keep the field pointing at the file if it was selected
+    if (item.url && item.url === this.value && renamed.url) {
+      this.value = renamed.url;
+      this.onChange?.(renamed.url);
+    }
+  }
+
+  private async deleteItem(item: FileMetadata): Promise<void> {
+    const what = item.type === 'folder' ? 'folder' : 'file';
+    if (!confirm(`Delete ${what} "${item.name}"? This cannot be undone.`)) {
+      return;
+    }
+    await this.backend!.deleteResource!(this.pathOf(item.name));
+  }
+
   private selectItem(item: FileMetadata): void {
     if (item.type === 'folder') {
       // Navigate into folder
@@ -506,6 +780,20 @@ export class ResourceBrowser extends LitElement {
   }
 }
 
+/**
+ * Sample page for previewing a stylesheet in a sandboxed
+ * iframe, so theme variables on :root apply.
+ */
+function cssPreviewDocument(url: string): string {
+  const href = url.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+  return `<link rel="stylesheet" href="${href}">
+<body style="margin:0;padding:3px;font:9px sans-serif;
+  background:var(--bg,#fff);color:var(--fg,#000)">
+<div style="background:var(--box-bg,#eee);padding:2px">Aa</div>
+<button style="font-size:8px">Btn</button>
+</body>`;
+}
+
 declare global {
   interface HTMLElementTagNameMap {
     'ds-resource-browser': ResourceBrowser;
@@ -7,9 +7,42 @@ import { LitElement, html, TemplateResult } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { EditorState } from '../../editor-state';
 import type { BindingDefinition, Component } from '../../types';
+import type {
+  BindingDirection,
+  InitialSyncPolicy,
+} from '../../../boards/board-types';
 import type { BoardRuntime } from '../../../runtime';
 import { filterRegistry } from '../../../flow/filter';
 
+/**
+ * Labels for the binding direction choices.
+ */
+const DIRECTION_OPTIONS: Array<{ value: BindingDirection; label: string }> = [
+  { value: 'both', label: 'Both ways' },
+  { value: 'downstream', label: 'Source to target only' },
+  { value: 'upstream', label: 'Target to source only' },
+];
+
+/**
+ * Labels for the initial sync policy choices.
+ */
+const INITIAL_SYNC_OPTIONS: Array<{ value: InitialSyncPolicy; label: string }> =
+  [
+    { value: 'upstream-wins', label: 'Source value wins' },
+    { value: 'downstream-wins', label: 'Target value wins' },
+    { value: 'newest-wins', label: 'Newest value wins' },
+    { value: 'none', label: 'Wait for the first change' },
+  ];
+
+/**
+ * Arrow shown between the ports of a binding.
+ */
+const DIRECTION_ARROWS: Record<BindingDirection, string> = {
+  both: '↔',
+  downstream: '→',
+  upstream: '←',
+};
+
 /**
  * Bindings editor for connecting component ports.
  * Provides UI to view, create, and delete bindings with port autocomplete
@@ -54,10 +87,14 @@ export class BindingsEditor extends LitElement {
     fromPort: string;
     toPort: string;
     filters: Array<{ type: string; config: Record<string, unknown> }>;
+    direction: BindingDirection;
+    initialSync: InitialSyncPolicy;
   } = {
     fromPort: '',
     toPort: '',
     filters: [],
+    direction: 'both',
+    initialSync: 'upstream-wins',
   };
 
   /**
@@ -72,7 +109,9 @@ export class BindingsEditor extends LitElement {
   @property({ type: Object })
   editingBindingState: {
     filters: Array<{ type: string; config: Record<string, unknown> }>;
-  } = { filters: [] };
+    direction: BindingDirection;
+    initialSync: InitialSyncPolicy;
+  } = { filters: [], direction: 'both', initialSync: 'upstream-wins' };
 
   /**
    * Index of filter being edited within the binding editor.
@@ -218,6 +257,9 @@ export class BindingsEditor extends LitElement {
     this.editingBindingState.filters = binding.filters
       ? JSON.parse(JSON.stringify(binding.filters))
       : [];
+    this.editingBindingState.direction = binding.direction ?? 'both';
+    this.editingBindingState.initialSync =
+      binding.initialSync ?? 'upstream-wins';
     this.requestUpdate();
   }
 
@@ -231,7 +273,7 @@ export class BindingsEditor extends LitElement {
   }
 
   /**
-   * Save binding filter changes.
+   * Save binding filter, direction and initial sync changes.
    */
   private async saveBindingFilters(binding: BindingDefinition): Promise<void> {
     if (!this.editorState) return;
@@ -249,6 +291,18 @@ export class BindingsEditor extends LitElement {
       delete bindingToUpdate.filters;
     }
 
+    if (this.editingBindingState.direction !== 'both') {
+      bindingToUpdate.direction = this.editingBindingState.direction;
+    } else {
+      delete bindingToUpdate.direction;
+    }
+
+    if (this.editingBindingState.initialSync !== 'upstream-wins') {
+      bindingToUpdate.initialSync = this.editingBindingState.initialSync;
+    } else {
+      delete bindingToUpdate.initialSync;
+    }
+
     // Update board definition first
     this.editorState.board.set(board);
     this.editorState.markDirty();
@@ -520,13 +574,50 @@ export class BindingsEditor extends LitElement {
     this.requestUpdate();
   }
 
+  /**
+   * Switch a binding on or off, keeping it and its filters.
+   */
+  private async handleToggleBinding(bindingId: string): Promise<void> {
+    if (!this.editorState) return;
+
+    const board = this.editorState.board.get();
+    if (!board) return;
+
+    const binding = board.bindings.find((b) => b.id === bindingId);
+    if (!binding) return;
+
+    const enabled = binding.enabled === false;
+    if (enabled) {
+      delete binding.enabled;
+    } else {
+      binding.enabled = false;
+    }
+
+    const loaded = this.getRuntime()
+      ?.getGraph()
+      .getBindings()
+      .find((b) => b.id === bindingId);
+    try {
+      await loaded?.setEnabled(enabled);
+    } catch (err) {
+      console.error('Failed to toggle binding in runtime:', err);
+    }
+
+    this.editorState.board.set(board);
+    this.editorState.markDirty();
+    this.updateBindings();
+    this.requestUpdate();
+  }
+
   /**
    * Handle new binding creation.
    */
   private async handleCreateBinding(
     fromPort: string,
     toPort: string,
-    filters?: Array<{ type: string; config: Record<string, unknown> }>
+    filters?: Array<{ type: string; config: Record<string, unknown> }>,
+    direction: BindingDirection = 'both',
+    initialSync: InitialSyncPolicy = 'upstream-wins'
   ): Promise<void> {
     if (!this.editorState) return;
 
@@ -553,6 +644,8 @@ export class BindingsEditor extends LitElement {
       fromPort: fromPort,
       toPort: toPort,
       ...(filters && filters.length > 0 && { filters }),
+      ...(direction !== 'both' && { direction }),
+      ...(initialSync !== 'upstream-wins' && { initialSync }),
     };
     // Create in runtime first
     const runtime = this.getRuntime();
@@ -612,10 +705,23 @@ export class BindingsEditor extends LitElement {
     const [upstreamCompId, upstreamPort] = binding.fromPort.split('.');
     const [downstreamCompId, downstreamPort] = binding.toPort.split('.');
     const isEditing = this.editingBindingId === binding.id;
+    const direction = binding.direction ?? 'both';
+    const directionLabel = DIRECTION_OPTIONS.find(
+      (o) => o.value === direction
+    )?.label;
+    const enabled = binding.enabled !== false;
 
     return html`
-      <div class="binding-item">
+      <div class="binding-item" style="${enabled ? '' : 'opacity: 0.5;'}">
         <div style="display: flex; gap: 4px; width: 100%;">
+          <button
+            class="toggle-binding"
+            @click="${() => this.handleToggleBinding(binding.id)}"
+            title="${enabled ? 'Disable binding' : 'Enable binding'}"
+            style="padding: 4px 8px; font-size: 11px; background: #f5f5f5; border: 1px solid #ddd; cursor: pointer; border-radius: 2px;"
+          >
+            ${enabled ? '⏸' : '▶'}
+          </button>
           <button
             class="edit-binding"
             @click="${() => this.startEditingBinding(binding)}"
@@ -639,7 +745,9 @@ export class BindingsEditor extends LitElement {
             <span class="comp-id">${upstreamCompId}</span>
             <span class="port-name">.${upstreamPort}</span>
           </div>
-          <div class="arrow">→</div>
+          <div class="arrow" title="${directionLabel}">
+            ${DIRECTION_ARROWS[direction]}
+          </div>
           <div class="port-ref">
             <span class="comp-id">${downstreamCompId}</span>
             <span class="port-name">.${downstreamPort}</span>
@@ -661,6 +769,30 @@ export class BindingsEditor extends LitElement {
       <div
         style="margin-top: 8px; padding: 8px; background: #f9f9f9; border: 1px solid #ddd; border-radius: 3px;"
       >
+        <div style="font-size: 11px; font-weight: 600; margin-bottom: 4px;">
+          Direction
+        </div>
+        ${this.renderSelect(
+          'binding-direction',
+          DIRECTION_OPTIONS,
+          this.editingBindingState.direction,
+          (direction) => {
+            this.editingBindingState.direction = direction;
+          }
+        )}
+
+        <div style="font-size: 11px; font-weight: 600; margin-bottom: 4px;">
+          On Connect
+        </div>
+        ${this.renderSelect(
+          'binding-initial-sync',
+          INITIAL_SYNC_OPTIONS,
+          this.editingBindingState.initialSync,
+          (initialSync) => {
+            this.editingBindingState.initialSync = initialSync;
+          }
+        )}
+
         <div style="font-size: 11px; font-weight: 600; margin-bottom: 8px;">
           Filters
         </div>
@@ -936,9 +1068,17 @@ export class BindingsEditor extends LitElement {
             this.handleCreateBinding(
               this.formState.fromPort,
               this.formState.toPort,
-              this.formState.filters
+              this.formState.filters,
+              this.formState.direction,
+              this.formState.initialSync
             ).catch(alert);
-            this.formState = { fromPort: '', toPort: '', filters: [] };
+            this.formState = {
+              fromPort: '',
+              toPort: '',
+              filters: [],
+              direction: 'both',
+              initialSync: 'upstream-wins',
+            };
             this.requestUpdate();
           }
         }}"
@@ -997,6 +1137,30 @@ export class BindingsEditor extends LitElement {
             : ''}
         </div>
 
+        <div class="form-group">
+          <label>Direction</label>
+          ${this.renderSelect(
+            'binding-direction',
+            DIRECTION_OPTIONS,
+            this.formState.direction,
+            (direction) => {
+              this.formState.direction = direction;
+            }
+          )}
+        </div>
+
+        <div class="form-group">
+          <label>On Connect</label>
+          ${this.renderSelect(
+            'binding-initial-sync',
+            INITIAL_SYNC_OPTIONS,
+            this.formState.initialSync,
+            (initialSync) => {
+              this.formState.initialSync = initialSync;
+            }
+          )}
+        </div>
+
         <!-- Filter Stack Section -->
         ${this.renderFilterStackUI()}
 
@@ -1027,6 +1191,38 @@ export class BindingsEditor extends LitElement {
     `;
   }
 
+  /**
+   * Render a select for a binding option such as its direction.
+   */
+  private renderSelect<T extends string>(
+    className: string,
+    options: Array<{ value: T; label: string }>,
+    value: T,
+    onChange: (value: T) => void
+  ): TemplateResult {
+    return html`
+      <select
+        class="${className}"
+        .value="${value}"
+        @change="${(e: Event) => {
+          onChange((e.target as HTMLSelectElement).value as T);
+          this.requestUpdate();
+        }}"
+        style="width: 100%; padding: 4px 6px; font-size: 11px; border: 1px solid #ddd; border-radius: 2px; box-sizing: border-box; margin-bottom: 8px;"
+      >
+        ${options.map(
+          (option) =>
+            html`<option
+              value="${option.value}"
+              ?selected="${option.value === value}"
+            >
+              ${option.label}
+            </option>`
+        )}
+      </select>
+    `;
+  }
+
   /**
    * Render the filter stack UI section in the form.
    */
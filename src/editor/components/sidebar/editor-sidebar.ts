@@ -12,6 +12,7 @@ import './property-inspector';
 import './bindings-editor';
 import './theme-settings';
 import './theme-overrides';
+import './history-panel';
 
 /**
  * Editor sidebar container.
@@ -87,6 +88,15 @@ export class EditorSidebar extends LitElement {
             </ds-editor-bindings>
           </div>
         </details>
+
+        <!-- Revision History Panel -->
+        <details>
+          <summary>History</summary>
+          <div class="panel-content">
+            <ds-editor-history .editorState="${this.editorState}">
+            </ds-editor-history>
+          </div>
+        </details>
       </div>
     `;
   }
@@ -0,0 +1,247 @@
+/**
+ * History panel - lists the revisions of the open board
+ * and restores old ones. A revision is previewed in a
+ * read-only renderer before it is restored.
+ */
+
+import { LitElement, html, TemplateResult } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { EditorState } from '../../editor-state';
+import type { BoardRevision } from '../../types';
+import { DashboardRenderer } from '../../../components/dashboard-renderer';
+
+/**
+ * Revision list with preview and restore. Shows a notice
+ * if the backend does not keep history.
+ */
+@customElement('ds-editor-history')
+export class HistoryPanel extends LitElement {
+  /**
+   * Editor state, for the backend and the open board.
+   */
+  @property({ type: Object }) editorState?: EditorState;
+
+  @state() private revisions: BoardRevision[] = [];
+
+  @state() private error = '';
+
+  /** Revision shown in the preview overlay, if any */
+  @state() private previewing: BoardRevision | null = null;
+
+  private previewRenderer: DashboardRenderer | null = null;
+
+  private unsubscribers: (() => void)[] = [];
+
+  /** Guards against a slow listing overwriting a newer one */
+  private refreshCount = 0;
+
+  protected createRenderRoot(): HTMLElement | DocumentFragment {
+    return this; // Renders to the element's light DOM
+  }
+
+  connectedCallback(): void {
+    super.connectedCallback();
+    if (this.editorState) {
+      // Reload after a board is opened or saved
+      this.unsubscribers = [
+        this.editorState.board.subscribe(() => this.refreshQuietly()),
+        this.editorState.isDirty.subscribe((dirty) => {
+          if (!dirty) {
+            this.refreshQuietly();
+          }
+        }),
+      ];
+    }
+    this.refreshQuietly();
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback();
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    this.closePreview();
+  }
+
+  /**
+   * Reload the revision list of the open board.
+   */
+  async refresh(): Promise<void> {
+    const count = ++this.refreshCount;
+    const backend = this.editorState?.backend;
+    const board = this.editorState?.board.get();
+    const revisions =
+      backend?.listRevisions && board
+        ? await backend.listRevisions(board.id)
+        : [];
+    if (count === this.refreshCount) {
+      this.revisions = revisions;
+      this.error = '';
+    }
+  }
+
+  private refreshQuietly(): void {
+    this.refresh().catch((err: unknown) => {
+      this.error = `Failed to load history: ${String(err)}`;
+    });
+  }
+
+  override render(): TemplateResult {
+    if (!this.editorState?.backend?.listRevisions) {
+      return html`<div class="history-empty">
+        This backend does not keep board history
+      </div>`;
+    }
+
+    const canRestore = !!this.editorState.backend.restoreRevision;
+
+    return html`
+      <div class="history-panel">
+        <div class="history-toolbar">
+          <button @click="${() => this.refreshQuietly()}">Refresh</button>
+        </div>
+        ${
+          this.error ? html`<div class="error-message">${this.error}</div>` : ''
+        }
+        ${
+          this.revisions.length === 0
+            ? html`<div class="history-empty">No revisions yet</div>`
+            : html`
+                <ul class="history-list">
+                  ${this.revisions.map(
+                    (revision, index) => html`
+                      <li class="history-item">
+                        <div class="history-item-header">
+                          <span class="history-time">
+                            ${formatTimestamp(revision.timestamp)}
+                          </span>
+                          ${
+                            index === 0
+                              ? html`<span class="history-current"
+                                  >latest</span
+                                >`
+                              : html`<button
+                                  @click="${() => this.run(() => this.preview(revision))}"
+                                >
+                                  Preview
+                                </button>`
+                          }
+                        </div>
+                        ${
+                          revision.message
+                            ? html`<div class="history-message">
+                                ${revision.message}
+                              </div>`
+                            : ''
+                        }
+                        ${
+                          revision.author
+                            ? html`<div class="history-author">
+                                ${revision.author}
+                              </div>`
+                            : ''
+                        }
+                      </li>
+                    `
+                  )}
+                </ul>
+              `
+        }
+      </div>
+      ${this.previewing ? this.renderPreview(this.previewing, canRestore) : ''}
+    `;
+  }
+
+  private renderPreview(
+    revision: BoardRevision,
+    canRestore: boolean
+  ): TemplateResult {
+    return html`
+      <div class="history-preview">
+        <div class="history-preview-header">
+          <span class="header-title">
+            Revision ${revision.id} from ${formatTimestamp(revision.timestamp)}
+          </span>
+          ${
+            canRestore
+              ? html`<button
+                  @click="${() => this.run(() => this.restore(revision))}"
+                >
+                  Restore
+                </button>`
+              : ''
+          }
+          <button @click="${() => this.closePreview()}">Close</button>
+        </div>
+        <div class="history-preview-body" inert></div>
+      </div>
+    `;
+  }
+
+  /**
+   * Run an action, reporting failures in the panel
+   * rather than as unhandled rejections.
+   */
+  private run(action: () => Promise<void>): void {
+    action().catch((err: unknown) => {
+      this.error = String(err);
+    });
+  }
+
+  /**
+   * Show a revision in a read-only renderer. The
+   * renderer gets its own runtime, so the open board
+   * is not affected.
+   */
+  private async preview(revision: BoardRevision): Promise<void> {
+    const backend = this.editorState?.backend;
+    if (!backend?.loadRevision) {
+      return;
+    }
+    const board = await backend.loadRevision(revision.boardId, revision.id);
+
+    this.closePreview();
+    this.previewing = revision;
+    await this.updateComplete;
+
+    const renderer = new DashboardRenderer();
+    this.previewRenderer = renderer;
+    this.querySelector('.history-preview-body')?.appendChild(renderer);
+    await renderer.loadBoard(board);
+  }
+
+  private closePreview(): void {
+    this.previewRenderer?.remove();
+    this.previewRenderer = null;
+    this.previewing = null;
+  }
+
+  private async restore(revision: BoardRevision): Promise<void> {
+    const editorState = this.editorState;
+    const backend = editorState?.backend;
+    if (!editorState || !backend?.restoreRevision) {
+      return;
+    }
+    const question = editorState.isDirty.get()
+      ? `Restore revision ${revision.id}? Unsaved changes will be lost.`
+      : `Restore revision ${revision.id}? The current version stays in the history.`;
+    if (!confirm(question)) {
+      return;
+    }
+
+    const board = await backend.restoreRevision(revision.boardId, revision.id);
+    this.closePreview();
+    editorState.setBoard(board);
+    await this.refresh();
+  }
+}
+
+function formatTimestamp(timestamp: string): string {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString();
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'ds-editor-history': HistoryPanel;
+  }
+}
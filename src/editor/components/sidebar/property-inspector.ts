@@ -479,6 +479,7 @@ export class PropertyInspector extends LitElement {
                 {
                   boardId: this.editorState?.board.get()?.id,
                   backend: this.editorState?.backend,
+                  expressions: true,
                 }
               )
             : html` <div>No properties to edit</div> `}
@@ -22,6 +22,9 @@ export type {
   PortSchema,
   ComponentTypeSchema,
   IBoardBackend,
+  BoardSummary,
+  BoardRevision,
+  SaveOptions,
   SystemTheme,
   ComponentRegistryEntry,
   ValidationResult,
@@ -33,6 +36,7 @@ export {
   LocalStorageBackend,
   ApiBackend,
   CompositeBackend,
+  BoardConflictError,
 } from '../backends';
 
 // Editor state management
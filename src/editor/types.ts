@@ -33,10 +33,14 @@ export interface ConfigSchema {
   format?: string;
   pattern?: string;
   fileFilter?: string;
+  /**
+   * False for a property that only takes effect when the
+   * component is created, so it gets no config port.
+   */
+  configPort?: boolean;
   [key: string]: unknown;
 }
 
-
 /**
  * Component type metadata and schema.
  * Describes what properties a component can have and its ports.
@@ -45,7 +49,8 @@ export interface ConfigSchema {
 export interface ComponentTypeSchema {
   name: string;
   displayName: string;
-  category: 'layout' | 'text' | 'input' | 'display' | 'logic' | 'data' | 'spares';
+  category:
+    'layout' | 'text' | 'input' | 'display' | 'logic' | 'data' | 'spares';
   acceptsChildren?: boolean;
   description?: string;
   icon?: string;
@@ -69,22 +74,144 @@ export interface SystemTheme {
 }
 
 /**
- * Storage backend abstraction for a single board.
- * Bound to a specific board ID for load/save operations.
+ * Listing entry for a stored board, built from the
+ * board's ID and metadata.
+ */
+export interface BoardSummary {
+  id: string;
+  name?: string;
+  description?: string;
+  author?: string;
+  created?: string;
+  modified?: string;
+
+  /** Revision token of the stored board, if tracked */
+  revision?: string;
+}
+
+/**
+ * Details recorded with a save.
+ */
+export interface SaveOptions {
+  /** Who made the change. Defaults to the board's author */
+  author?: string;
+
+  /** Optional description of the change */
+  message?: string;
+
+  /**
+   * Save even if the stored board has changed since this
+   * copy was loaded, discarding those changes.
+   */
+  force?: boolean;
+}
+
+/**
+ * One stored version of a board. Backends that keep
+ * history record a revision for every save.
+ */
+export interface BoardRevision {
+  /** Identifies the revision within its board */
+  id: string;
+  boardId: string;
+
+  /** ISO timestamp of the save */
+  timestamp: string;
+  author?: string;
+  message?: string;
+}
+
+/**
+ * Storage backend abstraction.
+ * Each backend has a default board that load() returns
+ * when called without an ID. Backends that hold several
+ * boards may implement the optional management methods.
  * Uses BoardDefinition as the single format.
  */
 export interface IBoardBackend {
-  load(): Promise<BoardDefinition>;
-  save(board: BoardDefinition): Promise<void>;
+  /**
+   * Load a board. Without an ID, loads the backend's
+   * default board. Throws if the board does not exist.
+   */
+  load(boardId?: string): Promise<BoardDefinition>;
+
+  /**
+   * Save a board under its own board.id. Backends that
+   * keep history record the options with the revision.
+   *
+   * If board.metadata.revision is set and the stored
+   * board has moved on since, throws BoardConflictError
+   * unless options.force is set. On success the board's
+   * revision is updated to the saved version.
+   */
+  save(board: BoardDefinition, options?: SaveOptions): Promise<void>;
 
   listResourceFolder(folder: string): Promise<FileMetadata[]>;
 
+  /**
+   * Store a file at an absolute resource path such as
+   * '/img/logo.png', replacing any existing file there.
+   * Returns the metadata, including the URL to use.
+   */
+  uploadResource?(path: string, data: Blob): Promise<FileMetadata>;
+
+  /** Delete a file or an empty folder */
+  deleteResource?(path: string): Promise<void>;
+
+  /**
+   * Move or rename a file or folder. Throws if something
+   * already exists at the destination.
+   */
+  renameResource?(fromPath: string, toPath: string): Promise<FileMetadata>;
+
+  /** Create a folder. Succeeds if it already exists */
+  createResourceFolder?(path: string): Promise<void>;
+
   /**
    * Get list of system themes from external URLs.
    * Returns name/url pairs for populating a datalist.
    * If not implemented, returns empty array.
    */
   getSystemThemes?(): Promise<SystemTheme[]>;
+
+  /** List every board this backend stores */
+  listBoards?(): Promise<BoardSummary[]>;
+
+  /** Store a new board. Throws if the ID is already taken */
+  createBoard?(board: BoardDefinition): Promise<BoardSummary>;
+
+  /**
+   * Copy an existing board to a new ID, optionally with
+   * a new display name. Throws if the new ID is taken.
+   */
+  duplicateBoard?(
+    sourceId: string,
+    newId: string,
+    newName?: string
+  ): Promise<BoardSummary>;
+
+  /** Change a board's display name. The ID is unchanged */
+  renameBoard?(boardId: string, name: string): Promise<BoardSummary>;
+
+  /** Delete a board. Throws if it does not exist */
+  deleteBoard?(boardId: string): Promise<void>;
+
+  /** List a board's revisions, newest first */
+  listRevisions?(boardId: string): Promise<BoardRevision[]>;
+
+  /** Load the board as it was at a revision */
+  loadRevision?(boardId: string, revisionId: string): Promise<BoardDefinition>;
+
+  /**
+   * Make an old revision the current board. This is
+   * recorded as a new revision, so it can be undone.
+   * Returns the restored board.
+   */
+  restoreRevision?(
+    boardId: string,
+    revisionId: string,
+    options?: SaveOptions
+  ): Promise<BoardDefinition>;
 }
 
 /**
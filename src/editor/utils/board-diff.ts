@@ -0,0 +1,128 @@
+/**
+ * Structural diff between two versions of a board.
+ * Components and bindings are matched by ID rather than
+ * by position, so a moved or reordered component shows
+ * up as a change to its parent's children, not as a
+ * cascade of unrelated edits.
+ */
+
+import type {
+  BindingDefinition,
+  BoardDefinition,
+  ComponentConfig,
+} from '../../boards/board-types';
+
+/**
+ * One difference between two boards.
+ */
+export interface BoardChange {
+  /**
+   * Dotted location of the change, such as
+   * 'components.comp-1.config.max' or 'bindings.b1'.
+   */
+  path: string;
+
+  /** 'added' if only in the second board, 'removed' if only in the first */
+  kind: 'added' | 'removed' | 'changed';
+
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Metadata that changes on every save. Differences here
+ * say nothing about the content.
+ */
+const BOOKKEEPING_METADATA = ['modified', 'revision'];
+
+/**
+ * List the differences from one board to another,
+ * sorted by path.
+ */
+export function diffBoards(
+  before: BoardDefinition,
+  after: BoardDefinition
+): BoardChange[] {
+  const changes: BoardChange[] = [];
+  diffValues('', normalize(before), normalize(after), changes);
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Reshape a board so that components and bindings are
+ * keyed by ID. Each component lists its children by ID.
+ */
+function normalize(board: BoardDefinition): Record<string, unknown> {
+  const metadata: Record<string, unknown> = { ...board.metadata };
+  for (const key of BOOKKEEPING_METADATA) {
+    delete metadata[key];
+  }
+
+  const components: Record<string, unknown> = {};
+  const visit = (component: ComponentConfig): void => {
+    const { id, children, ...rest } = component;
+    components[id] = {
+      ...rest,
+      children: children?.map((child) => child.id) ?? [],
+    };
+    children?.forEach(visit);
+  };
+  if (board.rootComponent) {
+    visit(board.rootComponent);
+  }
+
+  const bindings: Record<string, Omit<BindingDefinition, 'id'>> = {};
+  for (const { id, ...rest } of board.bindings) {
+    bindings[id] = rest;
+  }
+
+  return {
+    metadata,
+    settings: board.settings,
+    cssTheme: board.cssTheme,
+    root: board.rootComponent?.id,
+    components,
+    bindings,
+  };
+}
+
+function diffValues(
+  path: string,
+  before: unknown,
+  after: unknown,
+  changes: BoardChange[]
+): void {
+  if (before === undefined && after === undefined) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ path, kind: 'added', after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ path, kind: 'removed', before });
+    return;
+  }
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+    for (const key of keys) {
+      diffValues(
+        path ? `${path}.${key}` : key,
+        before[key],
+        after[key],
+        changes
+      );
+    }
+    return;
+  }
+
+  // Arrays and primitives are compared as whole values
+  if (JSON.stringify(before) !== JSON.stringify(after)) {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
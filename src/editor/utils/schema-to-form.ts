@@ -7,6 +7,7 @@ import { html, TemplateResult } from 'lit';
 import type { ConfigSchema } from '../types';
 import '../components/resource-browser';
 import { getFormatDatalist } from '../../index';
+import { isExpression } from '../../flow/expressions';
 
 /**
  * Form field change callback.
@@ -32,6 +33,18 @@ export function schemaToFormField(
   onChange: FormFieldChange,
   context?: FormFieldsContext
 ): TemplateResult {
+  if (
+    context?.expressions &&
+    schema.configPort !== false &&
+    typeof schema.type === 'string' &&
+    EXPRESSION_TYPES.includes(schema.type)
+  ) {
+    return renderExpressionToggle(name, value, schema, onChange, {
+      ...context,
+      expressions: false,
+    });
+  }
+
   switch (schema.type) {
     case 'string':
       return renderStringField(name, value, schema, onChange, context);
@@ -52,6 +65,88 @@ export function schemaToFormField(
   }
 }
 
+/**
+ * Property types that can be set to an expression instead.
+ * Properties marked configPort false are read as they are
+ * when the component is created, so they can't.
+ */
+const EXPRESSION_TYPES = ['string', 'number', 'boolean'];
+
+/**
+ * Render a field with a toggle for expression mode. In that mode
+ * the value is an '=' expression, evaluated against the board's
+ * ports, and is edited as text whatever the property's type.
+ * Leaving it goes back to the schema's default.
+ */
+function renderExpressionToggle(
+  name: string,
+  value: unknown,
+  schema: ConfigSchema,
+  onChange: FormFieldChange,
+  context: FormFieldsContext
+): TemplateResult {
+  const expressionMode = isExpression(value);
+  const field = expressionMode
+    ? html`
+        <label
+          style="display: block; margin-bottom: 12px;
+                      font-size: 13px;"
+        >
+          <div style="font-weight: 500; margin-bottom: 4px;">
+            ${formatName(name)}
+          </div>
+          <input
+            type="text"
+            class="expression-input"
+            style="width: 100%; font-family: monospace;"
+            placeholder='=port("node.port")'
+            .value="${value}"
+            @change="${(e: Event) => {
+              const text = (e.target as HTMLInputElement).value.trim();
+              const expression = text.startsWith('=') ? text.slice(1) : text;
+              onChange(expression.trim() ? '=' + expression : EMPTY_EXPRESSION);
+            }}"
+          />
+        </label>
+      `
+    : schemaToFormField(name, value, schema, onChange, context);
+
+  return html`
+    <div style="display: flex; gap: 4px; align-items: flex-start;">
+      <div style="flex: 1; min-width: 0;">${field}</div>
+      <button
+        type="button"
+        class="expression-toggle ${expressionMode ? 'active' : ''}"
+        title="${expressionMode ? 'Use a fixed value' : 'Use an expression'}"
+        style="margin-top: 18px; font-family: monospace;
+                    font-weight: ${expressionMode ? 'bold' : 'normal'};"
+        @click="${() =>
+          onChange(expressionMode ? schema.default : toExpression(value))}"
+      >
+        =
+      </button>
+    </div>
+  `;
+}
+
+/**
+ * An expression for an empty value. A bare '=' would not
+ * evaluate, leaving the property null.
+ */
+const EMPTY_EXPRESSION = '=""';
+
+/**
+ * Write a fixed value as an expression that gives the same value.
+ */
+function toExpression(value: unknown): string {
+  if (value === undefined || value === null || value === '') {
+    return EMPTY_EXPRESSION;
+  }
+  return (
+    '=' + (typeof value === 'string' ? JSON.stringify(value) : String(value))
+  );
+}
+
 /**
  * Render string property as text input, select, or file resource browser.
  */
@@ -285,6 +380,8 @@ function formatName(name: string): string {
 export interface FormFieldsContext {
   boardId?: string;
   backend?: unknown; // IBoardBackend
+  /** Offer an expression mode next to each field */
+  expressions?: boolean;
 }
 
 /**
@@ -2,6 +2,34 @@
  * Core data types for the data flow engine.
  */
 
+/**
+ * How far a value can be trusted.
+ * - good: fresh from a working source
+ * - uncertain: usable, but the source has doubts
+ * - stale: no update arrived within the expected time
+ * - bad: the source failed and the value is not meaningful
+ */
+export type DataQuality = 'good' | 'uncertain' | 'stale' | 'bad';
+
+/**
+ * Standard annotation keys. Sources may add their own keys.
+ */
+export interface DataAnnotation {
+  /** Missing means good */
+  quality?: DataQuality;
+
+  /** What went wrong, for bad or uncertain data */
+  error?: string;
+
+  /** ID of the node the value came from */
+  sourceId?: string;
+
+  /** Unit of the value, e.g. 'ms' or '°C' */
+  unit?: string;
+
+  [key: string]: unknown;
+}
+
 /**
  * Represents a single piece of data flowing through the binding system.
  * All data is wrapped in this type to preserve metadata.
@@ -14,7 +42,7 @@ export interface PortData {
   timestamp: number;
 
   /** Optional metadata about the value */
-  annotation?: Record<string, unknown>;
+  annotation?: DataAnnotation;
 }
 
 /**
@@ -27,7 +55,7 @@ export interface PortData {
 export function createPortData(
   value: unknown,
   timestamp?: number,
-  annotation?: Record<string, unknown>
+  annotation?: DataAnnotation
 ): PortData {
   return {
     value,
@@ -35,3 +63,151 @@ export function createPortData(
     annotation,
   };
 }
+
+/**
+ * Quality levels from best to worst.
+ */
+const QUALITY_ORDER: DataQuality[] = ['good', 'uncertain', 'stale', 'bad'];
+
+/**
+ * Get the quality of some data. Missing data is bad.
+ */
+export function getQuality(data: PortData | null | undefined): DataQuality {
+  if (!data) {
+    return 'bad';
+  }
+  return data.annotation?.quality ?? 'good';
+}
+
+/**
+ * Combine the annotations of several inputs into one for a
+ * value computed from all of them. The quality is the worst
+ * one, errors are joined, and the source and unit are kept
+ * only when no two inputs disagree. Other keys are merged,
+ * with later annotations winning.
+ */
+export function combineAnnotations(
+  ...annotations: (DataAnnotation | undefined)[]
+): DataAnnotation | undefined {
+  const present = annotations.filter(
+    (a): a is DataAnnotation => a !== undefined
+  );
+  if (present.length === 0) {
+    return undefined;
+  }
+  if (present.length === 1) {
+    return { ...present[0] };
+  }
+
+  const combined: DataAnnotation = {};
+  for (const annotation of present) {
+    Object.assign(combined, annotation);
+  }
+  delete combined.quality;
+  delete combined.error;
+  delete combined.sourceId;
+  delete combined.unit;
+
+  const worst = Math.max(
+    ...present.map((a) => QUALITY_ORDER.indexOf(a.quality ?? 'good'))
+  );
+  if (worst > 0) {
+    combined.quality = QUALITY_ORDER[worst];
+  }
+
+  const errors = [...new Set(present.map((a) => a.error).filter(Boolean))];
+  if (errors.length > 0) {
+    combined.error = errors.join('; ');
+  }
+
+  for (const key of ['sourceId', 'unit'] as const) {
+    const values = new Set(
+      present.map((a) => a[key]).filter((v) => v !== undefined)
+    );
+    if (values.size === 1) {
+      combined[key] = [...values][0];
+    }
+  }
+  return combined;
+}
+
+/**
+ * Copy data with extra annotation keys. Keys set to undefined
+ * are removed.
+ */
+export function annotate(data: PortData, extra: DataAnnotation): PortData {
+  const annotation: DataAnnotation = { ...data.annotation, ...extra };
+  for (const key of Object.keys(extra)) {
+    if (extra[key] === undefined) {
+      delete annotation[key];
+    }
+  }
+  return { ...data, annotation };
+}
+
+/**
+ * How an input port that takes several bindings combines them.
+ * - latest: the data that arrived last
+ * - sum, min, max: of the values as numbers
+ * - any, all: 1 if any or all of the values are truthy, else 0
+ */
+export type MergePolicy = 'latest' | 'sum' | 'min' | 'max' | 'any' | 'all';
+
+export const MERGE_POLICIES: readonly MergePolicy[] = [
+  'latest',
+  'sum',
+  'min',
+  'max',
+  'any',
+  'all',
+];
+
+/**
+ * Merge the data of several inputs into one. Inputs are in the
+ * order they last arrived, so the last one wins timestamp ties.
+ * The result has the newest timestamp and the combined
+ * annotations. A value that isn't a number makes a numeric
+ * result bad. Returns null when there are no inputs.
+ */
+export function mergePortData(
+  policy: MergePolicy,
+  inputs: PortData[]
+): PortData | null {
+  if (inputs.length === 0) {
+    return null;
+  }
+  const latest = inputs.reduce((a, b) => (b.timestamp >= a.timestamp ? b : a));
+  if (policy === 'latest') {
+    return latest;
+  }
+
+  const annotation = combineAnnotations(...inputs.map((d) => d.annotation));
+  const values = inputs.map((d) => d.value);
+  let value: number;
+  switch (policy) {
+    case 'any':
+      value = values.some(Boolean) ? 1 : 0;
+      break;
+    case 'all':
+      value = values.every(Boolean) ? 1 : 0;
+      break;
+    default: {
+      const numbers = values.map(Number);
+      if (numbers.some((n) => !Number.isFinite(n))) {
+        return createPortData(
+          null,
+          latest.timestamp,
+          combineAnnotations(annotation, {
+            quality: 'bad',
+            error: `Cannot take the ${policy} of non-numeric values`,
+          })
+        );
+      }
+      value =
+        policy === 'sum'
+          ? numbers.reduce((a, b) => a + b, 0)
+          : Math[policy](...numbers);
+    }
+  }
+  return createPortData(value, latest.timestamp, annotation);
+}
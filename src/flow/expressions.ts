@@ -3,8 +3,11 @@
  * Uses safe-expr-eval for expression parsing with a predefined set of functions.
  */
 
-import { evaluate as safeEvaluate } from 'safe-expr-eval';
+import { Parser } from 'safe-expr-eval';
 import type { PortData } from './data-types';
+import type { NodeGraph } from './node-graph';
+import { Observable } from '../core/observable';
+import type { Unsubscribe } from '../core/observable';
 
 /**
  * Context passed to evaluate() containing node graph and current evaluation state.
@@ -32,7 +35,8 @@ export function getPredefinedFunctions(context: EvaluationContext) {
     abs: Math.abs,
     ceil: Math.ceil,
     floor: Math.floor,
-    round: Math.round,
+    round: (x: number, digits = 0) =>
+      Math.round(x * 10 ** digits) / 10 ** digits,
     min: (...args: number[]) => Math.min(...args),
     max: (...args: number[]) => Math.max(...args),
     pow: Math.pow,
@@ -74,8 +78,10 @@ export function getPredefinedFunctions(context: EvaluationContext) {
     toString: (v: unknown) => String(v),
     toBoolean: (v: unknown) => Boolean(v),
 
-    // port() function - get PortData from node graph
-    port: (portRef: string): PortData | null => {
+    // port() function - get a port's value from node graph.
+    // Expressions can't reach into objects, so it returns the
+    // value rather than the PortData.
+    port: (portRef: string): unknown => {
       const [nodeId, portName] = portRef.split('.');
       if (!nodeId || !portName) {
         return null;
@@ -89,21 +95,21 @@ export function getPredefinedFunctions(context: EvaluationContext) {
       // Try to get from output ports first
       const outputPort = (
         node as {
-          outputPorts?: Map<string, { getData(): PortData }>;
+          outputPorts?: Map<string, { getLastData(): PortData | null }>;
         }
       ).outputPorts?.get(portName);
-      if (outputPort?.getData) {
-        return outputPort.getData();
+      if (outputPort?.getLastData) {
+        return outputPort.getLastData()?.value ?? null;
       }
 
       // Try input ports
       const inputPort = (
         node as {
-          inputPorts?: Map<string, { getData(): PortData }>;
+          inputPorts?: Map<string, { getLastData(): PortData | null }>;
         }
       ).inputPorts?.get(portName);
-      if (inputPort?.getData) {
-        return inputPort.getData();
+      if (inputPort?.getLastData) {
+        return inputPort.getLastData()?.value ?? null;
       }
 
       return null;
@@ -130,6 +136,55 @@ export function getPredefinedFunctions(context: EvaluationContext) {
   };
 }
 
+/**
+ * Whether a value is an expression: a string starting with '='.
+ */
+export function isExpression(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith('=');
+}
+
+/**
+ * Create a parser with the predefined functions and constants.
+ * safe-expr-eval only calls functions registered on a parser,
+ * not ones passed in with the variables.
+ *
+ * @param context Evaluation context for resolving port references
+ */
+export function createParser(context: EvaluationContext): Parser {
+  const parser = new Parser();
+  for (const [name, item] of Object.entries(getPredefinedFunctions(context))) {
+    if (typeof item === 'function') {
+      parser.functions[name] = item;
+    } else {
+      parser.consts[name] = item;
+    }
+  }
+  return parser;
+}
+
+/**
+ * Evaluate an expression, with or without its '=' prefix.
+ * Unlike evaluate(), errors are thrown for the caller to report.
+ *
+ * @param expression The expression to evaluate
+ * @param context Evaluation context with node graph reference
+ * @param variables Values in scope, such as a filter's `value`
+ * @throws If the expression is empty or fails to evaluate
+ */
+export function evaluateExpression(
+  expression: string,
+  context: EvaluationContext,
+  variables: Record<string, unknown> = {}
+): unknown {
+  const source = (
+    expression.startsWith('=') ? expression.slice(1) : expression
+  ).trim();
+  if (!source) {
+    throw new Error('Expression is empty');
+  }
+  return createParser(context).evaluate(source, variables);
+}
+
 /**
  * Evaluate an input value that may be an expression.
  *
@@ -139,7 +194,8 @@ export function getPredefinedFunctions(context: EvaluationContext) {
  * If it starts with '=', the expression is evaluated using
  * safe-expr-eval with predefined math, string, logic, and
  * type functions, plus a port("nodeId.portName") function
- * to retrieve PortData.
+ * to retrieve a port's value. The result is not updated when the
+ * port changes; ReactiveExpression does that.
  *
  * @param input The input to evaluate
  * @param context Evaluation context with node graph reference
@@ -150,7 +206,7 @@ export function evaluate(
   context: EvaluationContext
 ): unknown {
   // Pass through if not a string or doesn't start with =
-  if (typeof input !== 'string' || !input.startsWith('=')) {
+  if (!isExpression(input)) {
     return input;
   }
 
@@ -163,10 +219,95 @@ export function evaluate(
   }
 
   try {
-    return safeEvaluate(expression, getPredefinedFunctions(context));
+    return evaluateExpression(expression, context);
   } catch (error) {
     // On evaluation error, return original input
     console.warn('Expression evaluation error:', error);
     return input;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Find the ports an expression reads through port() calls, as
+ * `nodeId.portName`. Only string literal references are found.
+ *
+ * @param expression The expression to search
+ */
+export function findPortReferences(expression: string): string[] {
+  const refs = new Set<string>();
+  const calls = expression.matchAll(/\bport\(\s*(["'])([^"']*)\1\s*\)/g);
+  for (const match of calls) {
+    refs.add(match[2]);
+  }
+  return Array.from(refs);
+}
+
+/**
+ * An expression that is evaluated again whenever a port it reads
+ * gets new data, so it acts as a live computed value. Ports that
+ * don't exist yet are waited for.
+ */
+export class ReactiveExpression {
+  /**
+   * The latest result, null after an error. Observers are
+   * called when it changes.
+   */
+  readonly value = new Observable<unknown>(undefined);
+
+  /** Message of the latest evaluation error, or null */
+  error: string | null = null;
+
+  private unsubscribers: Unsubscribe[] = [];
+
+  /**
+   * @param expression The expression, with or without its '=' prefix
+   * @param graph The node graph the referenced ports are in
+   * @param variables Values in scope besides the ports
+   */
+  constructor(
+    readonly expression: string,
+    private graph: NodeGraph,
+    private variables: Record<string, unknown> = {}
+  ) {
+    for (const ref of findPortReferences(expression)) {
+      this.unsubscribers.push(graph.subscribePort(ref, () => this.update()));
+    }
+    this.update();
+  }
+
+  /**
+   * The ports the expression reads, as `nodeId.portName`.
+   */
+  getDependencies(): string[] {
+    return findPortReferences(this.expression);
+  }
+
+  /**
+   * Evaluate the expression again and update the value.
+   */
+  update(): void {
+    try {
+      const result = evaluateExpression(
+        this.expression,
+        { nodeGraph: this.graph },
+        this.variables
+      );
+      this.error = null;
+      this.value.set(result);
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : String(error);
+      this.value.set(null);
+    }
+  }
+
+  /**
+   * Stop following the ports and drop all observers.
+   */
+  destroy(): void {
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    this.value.clearObservers();
+  }
+}
@@ -8,6 +8,14 @@ import type { PortSchema } from './port'
 import { Node } from './node';
 import { Port, SourceType } from './port';
 import { BindingFilterItem } from '@/boards/board-types';
+import { combineAnnotations, createPortData } from './data-types';
+import type { DataAnnotation, PortData } from './data-types';
+
+/**
+ * Which way a filter sends a value: downstream as filterInput
+ * results do, or upstream as filterOutput results do.
+ */
+export type FilterDirection = 'downstream' | 'upstream';
 
 /**
  * Base class for filter implementations.
@@ -19,6 +27,12 @@ export abstract class FilterImplementation {
    */
   constructor(public config: Record<string, unknown>) {}
 
+  /**
+   * The node running this filter, e.g. to look up other ports
+   * through its graph. Set when the node is created.
+   */
+  node?: FilterNode;
+
   /**
    * Transform data flowing forward (upstream → downstream).
    * Called when data arrives at the filter's input port.
@@ -40,7 +54,29 @@ export abstract class FilterImplementation {
     // Default: pass through unchanged
     return outputValue;
   }
+
+  /**
+   * Send a value on later, for filters that don't transform
+   * each value at once, e.g. after a delay. filterInput and
+   * filterOutput return undefined for nothing now.
+   *
+   * @param value The transformed value, null included
+   * @param direction 'downstream' for values from filterInput,
+   *   'upstream' for values from filterOutput
+   */
+  protected async emit(
+    value: unknown,
+    direction: FilterDirection = 'downstream'
+  ): Promise<void> {
+    await this.node?.emit(value, direction);
+  }
+
+  /**
+   * Called when the filter is removed, e.g. to clear timers.
+   */
+  destroy(): void {}
 }
+
 /**
  * Static port declaration for additional filter ports.
  * Beyond the main input/output, filters can have other ports.
@@ -49,6 +85,12 @@ export interface FilterPortDeclaration {
   name: string;
   type: string;
   description: string;
+  /**
+   * Config property an input port sets, so the parameter can be
+   * bound at `<bindingId>-filter-<n>.<name>`. Defaults to the
+   * port's name.
+   */
+  configKey?: string;
 }
 
 /**
@@ -141,6 +183,7 @@ export class Filter {
   }
 
   destroy(): void {
+    this.implementation.destroy();
     this.node.destroy();
   }
 }
@@ -158,6 +201,7 @@ export class FilterNode extends Node {
     super(id);
     this.manifest = manifest;
     this.implementation = implementation;
+    implementation.node = this;
   }
 
   /**
@@ -168,8 +212,10 @@ export class FilterNode extends Node {
     // Create main input/output ports
     const ports = this.manifest.createPorts(upstreamType, config);
 
-    const inputPort = new Port(ports.input);
-    const outputPort = new Port(ports.output);
+    // Manifests usually pass the upstream output schema through,
+    // so the directions have to be set here
+    const inputPort = new Port({ ...ports.input, direction: 'input' });
+    const outputPort = new Port({ ...ports.output, direction: 'output' });
 
     this.addPort(inputPort);
     this.addPort(outputPort);
@@ -181,13 +227,7 @@ export class FilterNode extends Node {
     // When data arrives at input, transform it and send to output
     inputPort.addDataHandler(async (data, source) => {
       if(source != SourceType.Upstream) return;
-      const transformedValue = await this.onData(data.value);
-      if (transformedValue !== null && transformedValue !== undefined) {
-        await outputPort.onNewData(
-          { value: transformedValue, timestamp: Date.now() },
-          SourceType.PortOwner
-        );
-      }
+      await this.sendOutput(data);
     });
 
     // Wire up reverse data flow for bidirectional filters
@@ -195,12 +235,26 @@ export class FilterNode extends Node {
     outputPort.addDataHandler(async (data, source) => {
       if(source != SourceType.Downstream) return;
 
-      const transformedValue = this.implementation.filterOutput(data.value);
+      let transformedValue: unknown;
+      try {
+        transformedValue = this.implementation.filterOutput(data.value);
+      } catch (error) {
+        // Nothing goes upstream, but downstream learns why
+        await outputPort.onNewData(
+          this.errorData(data, error),
+          SourceType.PortOwner
+        );
+        return;
+      }
       if (transformedValue !== null && transformedValue !== undefined) {
         // Propagate transformed data back upstream through the input port
         // This enables bidirectional filters to work properly
         await inputPort.onNewData(
-          { value: transformedValue, timestamp: Date.now() },
+          {
+            value: transformedValue,
+            timestamp: Date.now(),
+            annotation: withPortUnit(data.annotation, inputPort),
+          },
           SourceType.PortOwner
         );
       }
@@ -209,7 +263,7 @@ export class FilterNode extends Node {
     // Add static additional ports
     if (this.manifest.staticPorts?.inputs) {
       for (const portDecl of this.manifest.staticPorts.inputs) {
-        this.addPort(new Port({name: portDecl.name, type:  portDecl.type, direction: 'input'}));
+        this.addParameterPort(portDecl);
       }
     }
 
@@ -220,6 +274,164 @@ export class FilterNode extends Node {
     }
   }
 
+  /**
+   * Add an input port for a config parameter. It starts with the
+   * configured value, so bindings to it sync like to any port.
+   * Data from its binding replaces the parameter and sends the
+   * last input through again.
+   */
+  private addParameterPort(portDecl: FilterPortDeclaration): void {
+    const key = portDecl.configKey ?? portDecl.name;
+    const configured = this.implementation.config[key];
+    const port = new Port(
+      { name: portDecl.name, type: portDecl.type, direction: 'input' },
+      configured === undefined ? null : createPortData(configured)
+    );
+    this.addPort(port);
+
+    port.addDataHandler(async (data, source) => {
+      if (source !== SourceType.Upstream) return;
+      // The config belongs to the binding definition, so copy it
+      this.implementation.config = {
+        ...this.implementation.config,
+        [key]: data.value,
+      };
+      this.updateOutputSchema();
+      const input = this.inputPort?.getLastData();
+      if (input) {
+        await this.sendOutput(input);
+      }
+    });
+  }
+
+  /**
+   * Ask the manifest for the output schema again, since a
+   * parameter such as a factor can change the output range.
+   */
+  private updateOutputSchema(): void {
+    if (!this.inputPort || !this.outputPort) return;
+    const current = this.outputPort.schema.get();
+    const { output } = this.manifest.createPorts(this.inputPort.schema.get(), {
+      type: this.manifest.type,
+      config: this.implementation.config,
+    });
+    this.outputPort.schema.set({
+      ...output,
+      name: current.name,
+      direction: 'output',
+    });
+  }
+
+  /**
+   * Transform input data and send it to the output port.
+   * Annotations such as quality pass through with the value.
+   */
+  private async sendOutput(data: PortData): Promise<void> {
+    let transformedValue: unknown;
+    try {
+      transformedValue = await this.onData(data.value);
+    } catch (error) {
+      await this.outputPort?.onNewData(
+        this.errorData(data, error),
+        SourceType.PortOwner
+      );
+      return;
+    }
+    if (
+      this.outputPort &&
+      transformedValue !== null &&
+      transformedValue !== undefined
+    ) {
+      await this.outputPort.onNewData(
+        {
+          value: transformedValue,
+          timestamp: Date.now(),
+          annotation: this.outputAnnotation(data),
+        },
+        SourceType.PortOwner
+      );
+    }
+  }
+
+  /**
+   * Send a value the implementation produced later, see
+   * FilterImplementation.emit. It goes out as a batch of its own,
+   * with the annotation of the last data that came the same way.
+   */
+  async emit(value: unknown, direction: FilterDirection): Promise<void> {
+    const send = async () => {
+      if (direction === 'downstream') {
+        const input = this.inputPort?.getLastData();
+        await this.outputPort?.onNewData(
+          createPortData(
+            value,
+            undefined,
+            input ? this.outputAnnotation(input) : undefined
+          ),
+          SourceType.PortOwner
+        );
+      } else if (this.inputPort) {
+        await this.inputPort.onNewData(
+          createPortData(
+            value,
+            undefined,
+            withPortUnit(
+              this.outputPort?.getLastData()?.annotation,
+              this.inputPort
+            )
+          ),
+          SourceType.PortOwner
+        );
+      }
+    };
+    await (this.graph ? this.graph.batch(send) : send());
+  }
+
+  /**
+   * Data reporting a failed transform: no value, bad quality and
+   * the error message, so it shows where the data is used.
+   */
+  private errorData(data: PortData, error: unknown): PortData {
+    const message = error instanceof Error ? error.message : String(error);
+    return createPortData(
+      null,
+      Date.now(),
+      combineAnnotations(this.outputAnnotation(data), {
+        quality: 'bad',
+        error: message,
+      })
+    );
+  }
+
+  /**
+   * A request for fresh output goes on upstream through the
+   * input port. The reply comes back through the filter like
+   * any other data.
+   */
+  override async onDataRequested(port: Port): Promise<void> {
+    if (port === this.outputPort && this.inputPort) {
+      await this.inputPort.requestNewData();
+      return;
+    }
+    await super.onDataRequested(port);
+  }
+
+  /**
+   * Annotation for the filter's output: that of the main input
+   * combined with those of any bound extra inputs, so e.g. a
+   * bad operand makes the result bad too. The unit is the
+   * output port's, when it declares one.
+   */
+  protected outputAnnotation(data: PortData): DataAnnotation | undefined {
+    const extras = [...this.inputPorts.values()]
+      .filter((port) => port !== this.inputPort && port.hasConnection())
+      .map((port) => port.getLastData()?.annotation);
+    return withPortUnit(
+      combineAnnotations(data.annotation, ...extras),
+      this.outputPort
+    );
+  }
+
   /**
    * Transform data flowing through the filter.
    * Uses the filter implementation's filterInput method.
@@ -229,6 +441,18 @@ export class FilterNode extends Node {
   }
 }
 
+/**
+ * An annotation with the unit a port declares, for data a filter
+ * sends through it, e.g. after converting the unit.
+ */
+function withPortUnit(
+  annotation: DataAnnotation | undefined,
+  port: Port | undefined
+): DataAnnotation | undefined {
+  const unit = port?.schema.get().unit;
+  return unit ? { ...annotation, unit } : annotation;
+}
+
 /**
  * Global filter registry instance.
  */
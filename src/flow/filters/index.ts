@@ -4,7 +4,12 @@
 import type { PortSchema } from '../port'
 
 import { FilterManifest, FilterImplementation } from '../filter';
+import type { FilterDirection } from '../filter';
 import { filterRegistry } from '../filter';
+import type { BindingFilterItem } from '../../boards/board-types';
+import { evaluateExpression } from '../expressions';
+import type { EvaluationContext } from '../expressions';
+import { convertPortSchema, convertUnit, unitRegistry } from '../units';
 
 /**
  * Invert filter implementation: logical NOT
@@ -95,6 +100,260 @@ class LowpassImplementation extends FilterImplementation {
 }
 
 
+/**
+ * Expression filter implementation: evaluates an expression with
+ * `value` in scope. Without a reverse expression, nothing is
+ * written back upstream.
+ */
+class ExpressionImplementation extends FilterImplementation {
+  private context: EvaluationContext = {
+    nodeGraph: {
+      getNode: (nodeId: string) => this.node?.graph?.getNode(nodeId),
+    },
+  };
+
+  filterInput(inputValue: unknown): unknown {
+    return this.evaluate(this.config.expression, inputValue);
+  }
+
+  filterOutput(outputValue: unknown): unknown {
+    if (!this.config.reverse) {
+      return undefined;
+    }
+    return this.evaluate(this.config.reverse, outputValue);
+  }
+
+  private evaluate(expression: unknown, value: unknown): unknown {
+    if (typeof expression !== 'string') {
+      throw new Error('Expression must be a string');
+    }
+    this.context.currentNodeId = this.node?.id;
+    return evaluateExpression(expression, this.context, { value });
+  }
+}
+
+
+/**
+ * Convert unit filter implementation: converts values between
+ * units both ways. The source unit defaults to the one the
+ * upstream port declares.
+ */
+class ConvertUnitImplementation extends FilterImplementation {
+  filterInput(inputValue: unknown): unknown {
+    return this.convert(inputValue, this.fromUnit(), this.toUnit());
+  }
+
+  filterOutput(outputValue: unknown): unknown {
+    return this.convert(outputValue, this.toUnit(), this.fromUnit());
+  }
+
+  private fromUnit(): string {
+    const unit = this.config.from || this.node?.inputPort?.schema.get().unit;
+    if (!unit || typeof unit !== 'string') {
+      throw new Error('The source unit is not known, set from');
+    }
+    return unit;
+  }
+
+  private toUnit(): string {
+    const unit = this.config.to;
+    if (!unit || typeof unit !== 'string') {
+      throw new Error('No target unit set');
+    }
+    return unit;
+  }
+
+  private convert(value: unknown, from: string, to: string): unknown {
+    if (value === null || value === undefined || value === '') {
+      return value;
+    }
+    const num = Number(value);
+    if (isNaN(num)) {
+      throw new Error(`Not a number: ${String(value)}`);
+    }
+    return convertUnit(num, from, to);
+  }
+}
+
+
+/**
+ * Base for filters that pass values on according to time, in
+ * both directions, each with its own timing. Writes back
+ * upstream, e.g. from a dragged slider, are timed as well.
+ */
+abstract class TimedImplementation extends FilterImplementation {
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  filterInput(inputValue: unknown): unknown {
+    return this.receive(inputValue, 'downstream');
+  }
+
+  filterOutput(outputValue: unknown): unknown {
+    return this.receive(outputValue, 'upstream');
+  }
+
+  /**
+   * Take a value going one way, returning it to pass it on now,
+   * or undefined to pass nothing on now.
+   */
+  protected abstract receive(
+    value: unknown,
+    direction: FilterDirection
+  ): unknown;
+
+  /**
+   * A duration from the config, in milliseconds.
+   *
+   * @throws If it is not a number of zero or more
+   */
+  protected duration(key: string): number {
+    const ms = Number(this.config[key]);
+    if (!isFinite(ms) || ms < 0) {
+      throw new Error(`${key} must be a duration in ms`);
+    }
+    return ms;
+  }
+
+  /**
+   * Emit a value after some time, unless cancelled or the filter
+   * is destroyed first.
+   *
+   * @returns Function to cancel
+   */
+  protected emitLater(
+    value: unknown,
+    direction: FilterDirection,
+    ms: number,
+    onEmit?: () => void
+  ): () => void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      onEmit?.();
+      this.emit(value, direction).catch((err) => {
+        console.error('Filter failed to emit:', err);
+      });
+    }, ms);
+    this.timers.add(timer);
+    return () => {
+      clearTimeout(timer);
+      this.timers.delete(timer);
+    };
+  }
+
+  destroy(): void {
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+}
+
+/**
+ * Debounce filter implementation: passes on the latest value
+ * once no new one arrived for `wait` ms.
+ */
+class DebounceImplementation extends TimedImplementation {
+  private cancel: Partial<Record<FilterDirection, () => void>> = {};
+
+  protected receive(value: unknown, direction: FilterDirection): unknown {
+    this.cancel[direction]?.();
+    this.cancel[direction] = this.emitLater(
+      value,
+      direction,
+      this.duration('wait'),
+      () => delete this.cancel[direction]
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Throttle filter implementation: passes on a value at once,
+ * then at most one per `interval` ms, the latest one arriving
+ * in between being sent when the interval is over.
+ */
+class ThrottleImplementation extends TimedImplementation {
+  private lastSent: Record<FilterDirection, number> = {
+    downstream: -Infinity,
+    upstream: -Infinity,
+  };
+  private cancel: Partial<Record<FilterDirection, () => void>> = {};
+
+  protected receive(value: unknown, direction: FilterDirection): unknown {
+    const interval = this.duration('interval');
+    const wait = this.lastSent[direction] + interval - Date.now();
+    if (wait <= 0 && !this.cancel[direction]) {
+      this.lastSent[direction] = Date.now();
+      return value;
+    }
+    // Only the latest value waits
+    this.cancel[direction]?.();
+    this.cancel[direction] = this.emitLater(
+      value,
+      direction,
+      Math.max(wait, 0),
+      () => {
+        delete this.cancel[direction];
+        this.lastSent[direction] = Date.now();
+      }
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Delay filter implementation: passes on every value `delay`
+ * ms after it arrived.
+ */
+class DelayImplementation extends TimedImplementation {
+  protected receive(value: unknown, direction: FilterDirection): unknown {
+    this.emitLater(value, direction, this.duration('delay'));
+    return undefined;
+  }
+}
+
+/**
+ * Minimum interval filter implementation: drops values that
+ * arrive less than `interval` ms after the last one passed on.
+ */
+class MinIntervalImplementation extends TimedImplementation {
+  private lastSent: Record<FilterDirection, number> = {
+    downstream: -Infinity,
+    upstream: -Infinity,
+  };
+
+  protected receive(value: unknown, direction: FilterDirection): unknown {
+    const now = Date.now();
+    if (now - this.lastSent[direction] < this.duration('interval')) {
+      return undefined;
+    }
+    this.lastSent[direction] = now;
+    return value;
+  }
+}
+
+/**
+ * Hold filter implementation: passes values on, and sends
+ * `resetValue` once no new value arrived for `duration` ms.
+ * Writes back upstream pass through untimed.
+ */
+class HoldForImplementation extends TimedImplementation {
+  private cancelReset: (() => void) | null = null;
+
+  protected receive(value: unknown, direction: FilterDirection): unknown {
+    if (direction === 'upstream') {
+      return value;
+    }
+    this.cancelReset?.();
+    this.cancelReset = this.emitLater(
+      this.config.resetValue ?? null,
+      'downstream',
+      this.duration('duration'),
+      () => (this.cancelReset = null)
+    );
+    return value;
+  }
+}
+
+
 /**
  * Invert filter: logical NOT (returns 1 if input is 0, else 0).
  */
@@ -110,8 +369,8 @@ export const invertFilter: FilterManifest = {
       output: upstreamType,
     };
   },
-  createImplementation(config: Record<string, unknown>) {
-    return new InvertImplementation(config);
+  createImplementation(item: BindingFilterItem) {
+    return new InvertImplementation(item.config);
   },
 };
 
@@ -137,7 +396,8 @@ export const addFilter: FilterManifest = {
       {
         name: 'operand',
         type: 'number',
-        description: 'Additional value to add (dynamic)',
+        description: 'Value to add (dynamic)',
+        configKey: 'value',
       },
     ],
   },
@@ -147,8 +407,8 @@ export const addFilter: FilterManifest = {
       output: upstreamType,
     };
   },
-  createImplementation(config: Record<string, unknown>) {
-    return new AddImplementation(config);
+  createImplementation(item: BindingFilterItem) {
+    return new AddImplementation(item.config);
   },
 };
 
@@ -178,23 +438,24 @@ export const multiplyFilter: FilterManifest = {
       },
     ],
   },
-  createPorts(upstreamType: PortSchema, config:Record<string, unknown>) {
-    const os = structuredClone(upstreamType);
-    if(os.min != undefined){
-      os.min = os.min as number * (config.factor as number)
+  createPorts(upstreamType: PortSchema, item: BindingFilterItem) {
+    const output = structuredClone(upstreamType);
+    const factor = Number(item.config.factor) || 1;
+    const range = [upstreamType.min, upstreamType.max].map((limit) =>
+      limit === undefined ? undefined : limit * factor
+    );
+    // A negative factor turns the range around
+    if (factor < 0) {
+      range.reverse();
     }
-
-    if(os.max != undefined){
-      os.max = os.max as number * (config.factor as number)
-    }
-
+    [output.min, output.max] = range;
     return {
       input: upstreamType,
-      output: os,
+      output,
     };
   },
-  createImplementation(config: Record<string, unknown>) {
-    return new MultiplyImplementation(config);
+  createImplementation(item: BindingFilterItem) {
+    return new MultiplyImplementation(item.config);
   },
 };
 
@@ -221,17 +482,23 @@ export const clampRangeFilter: FilterManifest = {
     },
     required: ['min', 'max'],
   },
-  createPorts(upstreamType: PortSchema, config:Record<string, unknown>) {
-    const os = structuredClone(upstreamType);
-    os.min = config.min as number;
-    os.max = config.max as number;
+  createPorts(upstreamType: PortSchema, item: BindingFilterItem) {
+    const output = structuredClone(upstreamType);
+    const min = Number(item.config.min);
+    const max = Number(item.config.max);
+    if (!Number.isNaN(min)) {
+      output.min = min;
+    }
+    if (!Number.isNaN(max)) {
+      output.max = max;
+    }
     return {
       input: upstreamType,
-      output: os,
+      output,
     };
   },
-  createImplementation(config: Record<string, unknown>) {
-    return new ClampRangeImplementation(config);
+  createImplementation(item: BindingFilterItem) {
+    return new ClampRangeImplementation(item.config);
   },
 };
 
@@ -254,17 +521,256 @@ export const lowpassFilter: FilterManifest = {
     },
     required: ['alpha'],
   },
-  createPorts(upstreamType: PortSchema, config:Record<string, unknown>) {
-    const os = structuredClone(upstreamType);
-    os.min = config.min as number;
-    os.max = config.max as number;
+  createPorts(upstreamType: PortSchema) {
+    // An average of values in a range stays in that range
+    return {
+      input: upstreamType,
+      output: upstreamType,
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new LowpassImplementation(item.config);
+  },
+};
+
+/**
+ * Expression filter: computes the value with an expression, and
+ * optionally computes writes back with a reverse expression.
+ */
+export const expressionFilter: FilterManifest = {
+  type: 'expression',
+  displayName: 'Expression',
+  description: 'Computes the value with an expression of value',
+  configSchema: {
+    type: 'object',
+    properties: {
+      expression: {
+        type: 'string',
+        default: 'value',
+        description: 'Expression of value, e.g. round(value * 9/5 + 32, 1)',
+      },
+      reverse: {
+        type: 'string',
+        description: 'Expression for writes back upstream (optional)',
+      },
+    },
+    required: ['expression'],
+  },
+  createPorts(upstreamType: PortSchema) {
+    // The upstream's range says nothing about the result
+    const output = { ...upstreamType };
+    delete output.min;
+    delete output.max;
+    return {
+      input: upstreamType,
+      output,
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new ExpressionImplementation(item.config);
+  },
+};
+
+/**
+ * Convert unit filter: converts values to another unit, and
+ * writes back converted to the source unit. The output port
+ * declares the new unit, with its range converted.
+ */
+export const convertUnitFilter: FilterManifest = {
+  type: 'convertUnit',
+  displayName: 'Convert Unit',
+  description: 'Converts values to another unit, e.g. °C to °F',
+  configSchema: {
+    type: 'object',
+    properties: {
+      from: {
+        type: 'string',
+        enum: ['', ...unitRegistry.getAll().map((unit) => unit.symbol)],
+        default: '',
+        description: 'Unit of the values (default: the unit of the source)',
+      },
+      to: {
+        type: 'string',
+        enum: unitRegistry.getAll().map((unit) => unit.symbol),
+        description: 'Unit to convert to',
+      },
+    },
+    required: ['to'],
+  },
+  createPorts(upstreamType: PortSchema, item: BindingFilterItem) {
+    const { from, to } = item.config;
+    if (!to || typeof to !== 'string') {
+      return { input: upstreamType, output: upstreamType };
+    }
+    return {
+      input: upstreamType,
+      output: convertPortSchema(
+        upstreamType,
+        to,
+        typeof from === 'string' && from ? from : upstreamType.unit
+      ),
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new ConvertUnitImplementation(item.config);
+  },
+};
+
+/**
+ * Debounce filter: waits for values to settle, e.g. while a
+ * slider is dragged.
+ */
+export const debounceFilter: FilterManifest = {
+  type: 'debounce',
+  displayName: 'Debounce',
+  description: 'Passes on the latest value once values stop changing',
+  configSchema: {
+    type: 'object',
+    properties: {
+      wait: {
+        type: 'number',
+        default: 300,
+        minimum: 0,
+        description: 'Milliseconds without a new value before sending',
+      },
+    },
+    required: ['wait'],
+  },
+  createPorts(upstreamType: PortSchema) {
+    return {
+      input: upstreamType,
+      output: upstreamType,
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new DebounceImplementation(item.config);
+  },
+};
+
+/**
+ * Throttle filter: limits the rate of values, always sending
+ * the last one.
+ */
+export const throttleFilter: FilterManifest = {
+  type: 'throttle',
+  displayName: 'Throttle',
+  description: 'Passes on at most one value per interval, and the last one',
+  configSchema: {
+    type: 'object',
+    properties: {
+      interval: {
+        type: 'number',
+        default: 250,
+        minimum: 0,
+        description: 'Milliseconds between values',
+      },
+    },
+    required: ['interval'],
+  },
+  createPorts(upstreamType: PortSchema) {
     return {
       input: upstreamType,
-      output: os,
+      output: upstreamType,
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new ThrottleImplementation(item.config);
+  },
+};
+
+/**
+ * Delay filter: passes on every value after a delay.
+ */
+export const delayFilter: FilterManifest = {
+  type: 'delay',
+  displayName: 'Delay',
+  description: 'Passes on every value after a delay',
+  configSchema: {
+    type: 'object',
+    properties: {
+      delay: {
+        type: 'number',
+        default: 1000,
+        minimum: 0,
+        description: 'Milliseconds to delay each value',
+      },
+    },
+    required: ['delay'],
+  },
+  createPorts(upstreamType: PortSchema) {
+    return {
+      input: upstreamType,
+      output: upstreamType,
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new DelayImplementation(item.config);
+  },
+};
+
+/**
+ * Minimum interval filter: drops values that come too soon.
+ */
+export const minIntervalFilter: FilterManifest = {
+  type: 'minInterval',
+  displayName: 'Minimum Interval',
+  description: 'Drops values arriving too soon after the last one',
+  configSchema: {
+    type: 'object',
+    properties: {
+      interval: {
+        type: 'number',
+        default: 1000,
+        minimum: 0,
+        description: 'Milliseconds before another value passes',
+      },
+    },
+    required: ['interval'],
+  },
+  createPorts(upstreamType: PortSchema) {
+    return {
+      input: upstreamType,
+      output: upstreamType,
+    };
+  },
+  createImplementation(item: BindingFilterItem) {
+    return new MinIntervalImplementation(item.config);
+  },
+};
+
+/**
+ * Hold filter: holds each value for a while, then resets, e.g.
+ * to show a momentary event.
+ */
+export const holdForFilter: FilterManifest = {
+  type: 'holdFor',
+  displayName: 'Hold For',
+  description: 'Holds the last value for a while, then sends a reset value',
+  configSchema: {
+    type: 'object',
+    properties: {
+      duration: {
+        type: 'number',
+        default: 5000,
+        minimum: 0,
+        description: 'Milliseconds to hold each value',
+      },
+      resetValue: {
+        type: 'number',
+        default: 0,
+        description: 'Value to send when the hold is over',
+      },
+    },
+    required: ['duration'],
+  },
+  createPorts(upstreamType: PortSchema) {
+    return {
+      input: upstreamType,
+      output: upstreamType,
     };
   },
-  createImplementation(config: Record<string, unknown>) {
-    return new LowpassImplementation(config);
+  createImplementation(item: BindingFilterItem) {
+    return new HoldForImplementation(item.config);
   },
 };
 
@@ -274,3 +780,10 @@ filterRegistry.register(addFilter);
 filterRegistry.register(multiplyFilter);
 filterRegistry.register(clampRangeFilter);
 filterRegistry.register(lowpassFilter);
+filterRegistry.register(expressionFilter);
+filterRegistry.register(convertUnitFilter);
+filterRegistry.register(debounceFilter);
+filterRegistry.register(throttleFilter);
+filterRegistry.register(delayFilter);
+filterRegistry.register(minIntervalFilter);
+filterRegistry.register(holdForFilter);
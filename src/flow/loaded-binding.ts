@@ -6,6 +6,8 @@
 import './filters';
 import { Filter, filterRegistry } from './filter';
 import { Node } from './node';
+import { Port, SourceType, pickInitialSync } from './port';
+import { createPortData } from './data-types';
 import type { NodeGraph } from './node-graph';
 import type { BindingDefinition } from '../boards/board-types';
 
@@ -41,6 +43,28 @@ export class LoadedBinding {
 
   config: BindingDefinition;
 
+  /**
+   * Node with the binding's `enabled` input port, so other
+   * bindings can switch it on and off. Its ID is
+   * `${binding.id}-control`, and the graph adds it when something
+   * binds to it.
+   */
+  controlNode: Node | null = null;
+
+  /** Whether the binding is connected */
+  enabled = false;
+
+  /**
+   * Whether the binding should be connected. Starts as the
+   * definition's `enabled`, then follows the control port.
+   */
+  private wanted: boolean;
+
+  /** Connecting and disconnecting, one at a time */
+  private toggling: Promise<void> = Promise.resolve();
+
+  private destroyed = false;
+
   constructor(parentGraph: NodeGraph, binding: BindingDefinition) {
     this.config = binding;
     const [upstreamCompId, upstreamPortName] = binding.fromPort.split('.');
@@ -63,14 +87,30 @@ export class LoadedBinding {
     this.sourcePortName = upstreamPortName;
     this.destinationNode = downstreamNode;
     this.destinationPortName = downstreamPortName;
+    this.wanted = binding.enabled !== false;
   }
 
   destroy(): void {
+    this.destroyed = true;
+    // Disconnect while the filters still say which port is ours
+    this.disconnect();
     for (const filter of this.filters) {
       filter.destroy();
     }
     this.filters = [];
-    this.disconnect();
+    this.controlNode?.destroy();
+  }
+
+  /**
+   * Nodes the binding added to the graph: its filters and its
+   * control node.
+   */
+  getInternalNodes(): Node[] {
+    const nodes: Node[] = this.filters.map((filter) => filter.node);
+    if (this.controlNode) {
+      nodes.push(this.controlNode);
+    }
+    return nodes;
   }
 
   /**
@@ -125,37 +165,169 @@ export class LoadedBinding {
         currentSchema = filter.getOutputSchema(currentSchema);
       }
     }
+
+    await this.updateConnection();
+  }
+
+  /**
+   * Get the control node, whose `enabled` port switches the
+   * binding on and off, adding it to the graph the first time.
+   * Adding the port loads any pending bindings to it.
+   */
+  getControlNode(): Node {
+    if (this.controlNode) {
+      return this.controlNode;
+    }
+    const node = new Node(`${this.id}-control`);
+    this.parentGraph.addNode(node);
+    this.controlNode = node;
+    node
+      .addPort(
+        new Port(
+          { name: 'enabled', type: 'number', direction: 'input' },
+          createPortData(this.wanted ? 1 : 0)
+        )
+      )
+      .addDataHandler(async (data) => {
+        await this.setEnabled(Boolean(Number(data.value)));
+      });
+    return node;
+  }
+
+  /**
+   * Connect the chain from the source through the filters to the
+   * destination, then sync its ends by the initialSync policy.
+   */
+  private async connect(): Promise<void> {
+    const binding = this.config;
     const port = this.sourceNode.getOutputPort(this.sourcePortName);
     const destinationPort = this.destinationNode.getInputPort(
       this.destinationPortName
     );
+    // Every link in the chain gets the binding's direction
+    const direction = binding.direction ?? 'both';
+    const initialSync = binding.initialSync ?? 'upstream-wins';
 
     if (this.filters.length > 0) {
-      // Connect source to first filter's input
-      await this.filters[0].node.inputPort?.connectToOutput(port);
+      // The destination isn't connected yet, so this is its own data
+      const upstreamData = port.getLastData();
+      const downstreamData = destinationPort.getLastData();
+
+      // Links don't sync on their own, the filters in between would
+      // hide the data at the ends of the chain
+      const firstInput = this.filters[0].node.inputPort!;
+      await firstInput.connectToOutput(port, direction, 'none');
 
       // Connect each filter to the next
       for (let i = 0; i < this.filters.length - 1; i++) {
         await this.filters[i + 1].node.inputPort?.connectToOutput(
-          this.filters[i].node.outputPort!
+          this.filters[i].node.outputPort!,
+          direction,
+          'none'
         );
       }
 
       // Connect last filter's output to destination
-      await this.filters[
-        this.filters.length - 1
-      ].node.outputPort?.connectToInput(destinationPort);
+      const lastOutput = this.filters[this.filters.length - 1].node.outputPort!;
+      await lastOutput.connectToInput(destinationPort, direction, 'none');
+
+      // Sync the ends through the whole chain
+      const winner = pickInitialSync(initialSync, upstreamData, downstreamData);
+      let sync: Promise<void> | undefined;
+      if (winner === 'upstream' && direction !== 'upstream') {
+        sync = firstInput.onNewData(upstreamData!, SourceType.Upstream);
+      } else if (winner === 'downstream' && direction !== 'downstream') {
+        sync = lastOutput.onNewData(downstreamData!, SourceType.Downstream);
+      }
+      await sync?.catch((err) => {
+        console.error(`Error syncing binding ${this.id}: ${String(err)}`);
+      });
     } else {
-      await port.connectToInput(destinationPort);
+      await port.connectToInput(destinationPort, direction, initialSync);
     }
   }
 
+  /**
+   * Connect or disconnect the binding, keeping its filters.
+   * Connecting again syncs like loading the binding does.
+   */
+  async setEnabled(enabled: boolean): Promise<void> {
+    this.wanted = enabled;
+    await this.updateConnection();
+  }
+
+  /**
+   * Disconnect the binding for a while, keeping it enabled.
+   * See NodeGraph.reconnectInput.
+   */
+  async suspend(): Promise<void> {
+    const run = this.toggling.then(() => {
+      if (this.enabled) this.disconnect();
+    });
+    this.toggling = run.catch(() => {});
+    await run;
+  }
+
+  /**
+   * Connect a suspended binding again, if it is still enabled.
+   * Connecting can fail now that the destination takes one
+   * binding, which is logged rather than thrown.
+   */
+  async resume(): Promise<void> {
+    const run = this.toggling.then(async () => {
+      if (this.destroyed || !this.enabled) return;
+      await this.connect().catch((err) => {
+        console.error(`Error connecting binding ${this.id}: ${String(err)}`);
+      });
+    });
+    this.toggling = run.catch(() => {});
+    await run;
+  }
+
+  /**
+   * Connect or disconnect to match the latest wanted state,
+   * after any change already under way.
+   */
+  private async updateConnection(): Promise<void> {
+    const run = this.toggling.then(async () => {
+      if (this.destroyed || this.wanted === this.enabled) return;
+      this.enabled = this.wanted;
+      if (this.enabled) {
+        await this.connect();
+      } else {
+        this.disconnect();
+      }
+      this.parentGraph.nodeGraphRefreshed.notifyObservers();
+    });
+    this.toggling = run.catch(() => {});
+    await run;
+  }
+
+  /**
+   * Ask the source for fresh data. It arrives at the
+   * destination port through the filters.
+   */
+  async requestNewData(): Promise<void> {
+    await this.destinationNode
+      .getInputPort(this.destinationPortName)
+      .requestNewData();
+  }
+
+  /**
+   * Disconnect every link of the chain. The filters stay, so the
+   * binding can be connected again.
+   */
   disconnect() {
-    if (this.filters.length > 0) {
-      this.filters[0].node.outputPort?.disconnectFromOutput();
+    for (const filter of this.filters) {
+      filter.node.inputPort?.disconnectFromOutput();
     }
-    this.destinationNode
-      .getInputPort(this.destinationPortName)
-      ?.disconnectFromOutput();
+    // Only this binding's link, the port may merge others
+    const lastOutput =
+      this.filters.length > 0
+        ? this.filters[this.filters.length - 1].node.outputPort
+        : this.sourceNode.outputPorts.get(this.sourcePortName);
+    this.destinationNode.inputPorts
+      .get(this.destinationPortName)
+      ?.disconnectFromOutput(lastOutput);
   }
 }
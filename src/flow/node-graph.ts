@@ -11,6 +11,37 @@ import { Node } from './node';
 import type { BindingDefinition } from '../boards/board-types';
 import { LoadedBinding } from './loaded-binding';
 import { Observable } from '../core/observable';
+import type { Observer, Unsubscribe } from '../core/observable';
+import type { Port, SourceType } from './port';
+import type { PortData } from './data-types';
+import { combineAnnotations, createPortData } from './data-types';
+
+/**
+ * Rounds a batch may take to settle, e.g. with filters that
+ * write back and forth, before its data is dropped.
+ */
+const MAX_BATCH_ROUNDS = 100;
+
+/**
+ * Data waiting in a batch for delivery to a port.
+ */
+interface QueuedData {
+  port: Port;
+  data: PortData;
+  sourceType: SourceType;
+  /** See portRank */
+  rank: number;
+}
+/**
+ * An observer of a port's data, by `nodeId.portName`.
+ * Detached while the port doesn't exist.
+ */
+interface PortSubscription {
+  ref: string;
+  observer: Observer<PortData>;
+  detach: Unsubscribe | null;
+}
+
 /**
  * NodeGraph manages all nodes and their connections in the data flow system.
  * Enforces invariants:
@@ -39,6 +70,29 @@ export class NodeGraph {
    */
   private readyNodes = new Set<string>();
 
+  /**
+   * Nesting depth of batch() calls, plus one while flushing.
+   * Data sent to ports while this is non-zero is queued.
+   */
+  private batchDepth = 0;
+
+  /**
+   * Latest undelivered data per port in the current batch,
+   * lowest rank first and ties in the order they were sent.
+   */
+  private batchQueue: QueuedData[] = [];
+
+  /**
+   * Topological position of every node, for ranking the ports
+   * in a batch. Cleared when nodes or bindings change.
+   */
+  private nodeRanks: Map<Node, number> | null = null;
+
+  /**
+   * Observers of port data, see subscribePort().
+   */
+  private portSubscriptions = new Set<PortSubscription>();
+
   /**
    * Add a node to the graph.
    * Initialize its ports but don't call onReady yet.
@@ -53,6 +107,8 @@ export class NodeGraph {
 
     node.graph = this;
     this.nodes.set(node.id, node);
+    this.nodeRanks = null;
+    this.attachPortSubscriptions();
   }
 
   getBindings(): LoadedBinding[] {
@@ -87,6 +143,8 @@ export class NodeGraph {
     }
 
     this.nodes.delete(nodeId);
+    this.nodeRanks = null;
+    this.detachPortSubscriptions(nodeId);
   }
 
   renameNode(from: string, to: string) {
@@ -101,6 +159,8 @@ export class NodeGraph {
       this.nodes.delete(from);
       this.nodes.set(to, node);
       node.setId(to);
+      this.detachPortSubscriptions(from);
+      this.attachPortSubscriptions();
     }
   }
 
@@ -136,8 +196,21 @@ export class NodeGraph {
 
 
   public async tryPendingBindings(): Promise<void> {
-    for (const binding of this.pendingBindings.values()) {
-      await this.loadBinding(binding, false);
+    // Called when ports are added, which subscriptions wait for too
+    this.attachPortSubscriptions();
+    const hasPort = (ref: string, output: boolean) => {
+      const [nodeId, portName] = ref.split('.');
+      const node = this.nodes.get(nodeId) ?? this.getControlNode(nodeId);
+      return !!(output ? node?.outputPorts : node?.inputPorts)?.has(portName);
+    };
+    for (const binding of [...this.pendingBindings.values()]) {
+      // Loading one binding can add ports and try the rest early
+      if (!this.pendingBindings.has(binding.id)) continue;
+      if (!hasPort(binding.fromPort, true) || !hasPort(binding.toPort, false)) {
+        continue;
+      }
+      this.pendingBindings.delete(binding.id);
+      await this.loadBinding(binding);
     }
   }
 
@@ -158,7 +231,8 @@ export class NodeGraph {
     const downstreamPortName = binding.toPort.split('.')[1];
 
     const upstreamNode = this.getNode(upstreamCompId);
-    const downstreamNode = this.getNode(downstreamCompId);
+    const downstreamNode =
+      this.getNode(downstreamCompId) ?? this.getControlNode(downstreamCompId);
     if (!upstreamNode || !downstreamNode) {
       if (!allowPending) {
         throw new Error(
@@ -189,12 +263,21 @@ export class NodeGraph {
 
     const loadedBinding = new LoadedBinding(this, binding);
     this.loadedBindings.set(binding.id, loadedBinding);
+    this.nodeRanks = null;
     
     await loadedBinding.doConnect();
 
     if (this.pendingBindings.has(binding.id)) {
       this.pendingBindings.delete(binding.id);
     }
+    // Bindings can wait for this one's control node
+    const controlId = `${binding.id}-control`;
+    const waiting = [...this.pendingBindings.values()].some(
+      (pending) => pending.toPort.split('.')[0] === controlId
+    );
+    if (waiting) {
+      await this.tryPendingBindings();
+    }
     this.nodeGraphRefreshed.notifyObservers();
   }
 
@@ -219,39 +302,90 @@ export class NodeGraph {
       }
     }
 
-    for (const [, loadedBinding] of this.pendingBindings) {
+    for (const [id, pending] of this.pendingBindings) {
       if (
-        loadedBinding.fromPort === bindingConfig.fromPort &&
-        loadedBinding.toPort === bindingConfig.toPort
+        pending.fromPort === bindingConfig.fromPort &&
+        pending.toPort === bindingConfig.toPort
       ) {
-        bindingToDelete = loadedBinding;
+        this.pendingBindings.delete(id);
         break;
       }
     }
 
-    bindingToDelete?.destroy();
+    if (bindingToDelete) {
+      this.unloadBinding(bindingToDelete);
+    }
 
     this.nodeGraphRefreshed.notifyObservers();
   }
 
   /**
-   * Remove a binding between two ports.
+   * Connect the bindings to an input port again, after a change
+   * that only applies on connect. Whether a port merges is
+   * decided when a binding connects, so changing the `merge` of
+   * its schema needs this.
    *
-   * @param binding The binding to remove
-   */
-  private disconnectBinding(binding: BindingDefinition): void {
-    const upstreamNode = this.nodes.get(binding.fromPort.split('.')[0]);
-    if (upstreamNode) {
-      const port = upstreamNode.getOutputPort(binding.fromPort.split('.')[1]);
-      if (port) {
-        port.disconnectFromOutput();
+   * @param port The input port, its schema already changed
+   */
+  async reconnectInput(port: Port): Promise<void> {
+    const bindings = this.getBindings().filter(
+      (binding) =>
+        binding.destinationNode.inputPorts.get(binding.destinationPortName) ===
+        port
+    );
+    // All of them first, a single port takes whichever comes first
+    for (const binding of bindings) {
+      await binding.suspend();
+    }
+    for (const binding of bindings) {
+      await binding.resume();
+    }
+    this.nodeGraphRefreshed.notifyObservers();
+  }
+
+  /**
+   * Get the control node of a loaded binding by its node ID,
+   * adding it on first use. Bindings that nothing controls don't
+   * crowd the graph with one.
+   */
+  private getControlNode(nodeId: string): Node | undefined {
+    if (!nodeId.endsWith('-control')) {
+      return undefined;
+    }
+    const bindingId = nodeId.slice(0, -'-control'.length);
+    return this.loadedBindings.get(bindingId)?.getControlNode();
+  }
+
+  /**
+   * Destroy a loaded binding. Its filter and control nodes go
+   * too, so it can be loaded again. Bindings to their ports go
+   * back to pending, to come back with them.
+   */
+  private unloadBinding(binding: LoadedBinding): void {
+    this.loadedBindings.delete(binding.id);
+    this.nodeRanks = null;
+    const internal = binding.getInternalNodes();
+    for (const other of [...this.loadedBindings.values()]) {
+      if (
+        internal.includes(other.sourceNode) ||
+        internal.includes(other.destinationNode)
+      ) {
+        this.unloadBinding(other);
+        this.pendingBindings.set(other.id, other.config);
       }
     }
+    for (const node of internal) {
+      this.nodes.delete(node.id);
+      this.readyNodes.delete(node.id);
+      this.detachPortSubscriptions(node.id);
+    }
+    binding.destroy();
   }
 
   /**
    * Detect if adding a binding from upstreamNode to downstreamNode would create a cycle.
-   * Uses DFS to check if there's already a path from downstreamNode back to upstreamNode.
+   * Uses DFS to check if there's already a path from downstreamNode back to upstreamNode,
+   * including paths through filter nodes.
    * If yes, adding this binding would create a cycle.
    *
    * @param downstreamNodeId The node we want to connect TO
@@ -259,62 +393,287 @@ export class NodeGraph {
    * @throws If adding this binding would create a cycle
    */
   private detectCycle(downstreamNodeId: string, upstreamNodeId: string): void {
-    // Check if there's a path from downstreamNode BACK TO upstreamNode
-    // If yes, connecting upstreamNode -> downstreamNode would create a cycle
-    const visited = new Set<string>();
-    if (this.hasPath(downstreamNodeId, upstreamNodeId, visited)) {
+    const source = this.nodes.get(downstreamNodeId);
+    const target = this.nodes.get(upstreamNodeId);
+    if (!source || !target) return;
+
+    const path = this.findPath(source, target, this.successors());
+    if (path) {
+      const cycle = [target, ...path].map((n) => n.id).join(' → ');
       throw new Error(
-        `Adding binding from "${upstreamNodeId}" to "${downstreamNodeId}" would create a cycle`
+        `Adding binding from "${upstreamNodeId}" to "${downstreamNodeId}" would create a cycle: ${cycle}`
       );
     }
   }
 
   /**
-   * DFS to check if there's a path from source to target.
+   * DFS for a path from source to target.
    *
-   * @param source Starting node ID
-   * @param target Target node ID
-   * @param visited Set of already-visited nodes
-   * @returns true if path exists
-   */
-  private hasPath(
-    source: string,
-    target: string,
-    visited: Set<string>
-  ): boolean {
-    if (source === target) return true;
-    if (visited.has(source)) return false;
-
+   * @returns The nodes along the path, or null if there is none
+   */
+  private findPath(
+    source: Node,
+    target: Node,
+    successors: Map<Node, Node[]>,
+    visited = new Set<Node>()
+  ): Node[] | null {
+    if (source === target) return [source];
+    if (visited.has(source)) return null;
     visited.add(source);
 
-    // Get all nodes this source connects to (downstream connections)
-    const outgoing: string[] = [];
+    for (const next of successors.get(source) ?? []) {
+      const rest = this.findPath(next, target, successors, visited);
+      if (rest) return [source, ...rest];
+    }
+    return null;
+  }
 
-    this.loadedBindings.forEach((b) => {
-      if (b.sourceNode?.id === source) {
-        outgoing.push(b.destinationNode?.id);
+  /**
+   * Downstream neighbours of every node, following each
+   * binding through its filter nodes.
+   */
+  private successors(): Map<Node, Node[]> {
+    const successors = new Map<Node, Node[]>();
+    for (const node of this.nodes.values()) {
+      successors.set(node, []);
+    }
+    for (const binding of this.loadedBindings.values()) {
+      const chain = [
+        binding.sourceNode,
+        ...binding.filters.map((f) => f.node),
+        binding.destinationNode,
+      ];
+      for (let i = 0; i < chain.length - 1; i++) {
+        if (successors.has(chain[i]) && successors.has(chain[i + 1])) {
+          successors.get(chain[i])!.push(chain[i + 1]);
+        }
       }
-    });
+    }
+    return successors;
+  }
 
-    for (const next of outgoing) {
-      if (this.hasPath(next, target, visited)) return true;
+  /**
+   * Sort the nodes into levels, where every node's upstream
+   * nodes are in earlier levels. Nodes in one level don't
+   * depend on each other.
+   *
+   * @throws If the graph has a cycle, naming the nodes on it
+   */
+  private topologicalLevels(): Node[][] {
+    const successors = this.successors();
+    const inDegree = new Map<Node, number>();
+    for (const node of successors.keys()) {
+      inDegree.set(node, 0);
+    }
+    for (const next of successors.values()) {
+      for (const node of next) {
+        inDegree.set(node, inDegree.get(node)! + 1);
+      }
     }
 
-    return false;
+    // Kahn's algorithm, a level at a time
+    const levels: Node[][] = [];
+    let level = [...inDegree.keys()].filter((n) => inDegree.get(n) === 0);
+    let placed = 0;
+    while (level.length > 0) {
+      levels.push(level);
+      placed += level.length;
+      const nextLevel: Node[] = [];
+      for (const node of level) {
+        for (const next of successors.get(node)!) {
+          const remaining = inDegree.get(next)! - 1;
+          inDegree.set(next, remaining);
+          if (remaining === 0) {
+            nextLevel.push(next);
+          }
+        }
+      }
+      level = nextLevel;
+    }
+
+    if (placed < successors.size) {
+      // Every unplaced node is on a cycle or downstream of one
+      const unplaced = [...inDegree.keys()].filter((n) => inDegree.get(n)! > 0);
+      for (const node of unplaced) {
+        for (const next of successors.get(node)!) {
+          const path = this.findPath(next, node, successors);
+          if (path) {
+            const cycle = [node, ...path].map((n) => n.id).join(' → ');
+            throw new Error(`Cycle in node graph: ${cycle}`);
+          }
+        }
+      }
+    }
+    return levels;
+  }
+
+  /**
+   * Run fn as one transaction. Data sent to the graph's ports
+   * meanwhile is collected, then delivered in topological order
+   * so each consumer sees the final state of its inputs.
+   * Within a batch every port gets at most one delivery, with
+   * the latest data sent to it. Data for a port that was already
+   * delivered goes to a follow-up batch. Nested calls, and calls
+   * from handlers during delivery, join the running batch.
+   *
+   * @returns What fn returns, after delivery when outermost
+   */
+  async batch<T>(fn: () => T | Promise<T>): Promise<T> {
+    this.batchDepth++;
+    let result: T;
+    try {
+      result = await fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0) {
+        await this.flushBatch();
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Whether data sent to the graph's ports is being batched.
+   */
+  isBatching(): boolean {
+    return this.batchDepth > 0;
+  }
+
+  /**
+   * Queue data for a port if a batch is running.
+   * Called by Port.onNewData.
+   *
+   * @returns false if there is no batch to join
+   */
+  queueData(port: Port, data: PortData, sourceType: SourceType): boolean {
+    if (this.batchDepth === 0) {
+      return false;
+    }
+    // Re-insert so ties in rank keep the order of the latest sends
+    const index = this.batchQueue.findIndex((queued) => queued.port === port);
+    if (index >= 0) {
+      this.batchQueue.splice(index, 1);
+    }
+    this.enqueue({ port, data, sourceType, rank: this.portRank(port) });
+    return true;
+  }
+
+  /**
+   * Insert into the batch queue after everything of the same
+   * or a lower rank.
+   */
+  private enqueue(queued: QueuedData): void {
+    let low = 0;
+    let high = this.batchQueue.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.batchQueue[middle].rank <= queued.rank) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    this.batchQueue.splice(low, 0, queued);
+  }
+
+  /**
+   * Deliver queued data, lowest rank first, until none is left
+   * or MAX_BATCH_ROUNDS have passed.
+   */
+  private async flushBatch(): Promise<void> {
+    this.batchDepth++;
+    try {
+      for (let round = 0; this.batchQueue.length > 0; round++) {
+        if (round === MAX_BATCH_ROUNDS) {
+          await this.dropBatch();
+          break;
+        }
+        const delivered = new Set<Port>();
+        const followUp = new Map<Port, QueuedData>();
+
+        // Each port is delivered once, so this ends
+        while (this.batchQueue.length > 0) {
+          const queued = this.batchQueue.shift()!;
+          if (delivered.has(queued.port)) {
+            followUp.set(queued.port, queued);
+            continue;
+          }
+          delivered.add(queued.port);
+          await queued.port.deliverData(queued.data, queued.sourceType);
+        }
+        // Bindings may have changed meanwhile
+        for (const queued of followUp.values()) {
+          this.enqueue({ ...queued, rank: this.portRank(queued.port) });
+        }
+      }
+    } finally {
+      this.batchDepth--;
+    }
+  }
+
+  /**
+   * Give up on a batch that doesn't settle. The ports its data
+   * was queued for get bad data saying so instead, and whatever
+   * their handlers send is dropped too.
+   */
+  private async dropBatch(): Promise<void> {
+    const error = `Data did not settle after ${MAX_BATCH_ROUNDS} rounds`;
+    console.error(error);
+    for (const { port, data, sourceType } of [...this.batchQueue]) {
+      await port.deliverData(
+        createPortData(
+          null,
+          Date.now(),
+          combineAnnotations(data.annotation, { quality: 'bad', error })
+        ),
+        sourceType
+      );
+    }
+    // Along with whatever their handlers queued meanwhile
+    this.batchQueue = [];
+  }
+
+  /**
+   * Rank a port by the topological order of its node, with a
+   * node's inputs ranked before its outputs. Filter nodes take
+   * their place along their binding. Ports of nodes outside
+   * the graph come last.
+   */
+  private portRank(port: Port): number {
+    if (!this.nodeRanks) {
+      this.nodeRanks = new Map(
+        this.topologicalLevels()
+          .flat()
+          .map((node, i) => [node, i])
+      );
+    }
+    const rank = port.parentNode
+      ? this.nodeRanks.get(port.parentNode)
+      : undefined;
+    if (rank === undefined) {
+      return Number.MAX_SAFE_INTEGER;
+    }
+    return 2 * rank + (port.isOutput ? 1 : 0);
   }
 
   /**
    * Initialize all nodes in the graph.
-   * Calls onReady() on each node in dependency order (topological sort).
-   * For simplicity, we just call onReady on all nodes.
-   * In production, would do proper topological sort.
+   * Calls onReady() on each node in dependency order, so a node's
+   * upstream sources, including filter nodes, are ready before it.
+   * Nodes that don't depend on each other start concurrently.
+   *
+   * @throws If the bindings form a cycle
    */
   async ready(): Promise<void> {
-    for (const node of this.nodes.values()) {
-      if (!this.readyNodes.has(node.id)) {
-        await node.onReady();
-        this.readyNodes.add(node.id);
-      }
+    for (const level of this.topologicalLevels()) {
+      await Promise.all(
+        level
+          .filter((node) => !this.readyNodes.has(node.id))
+          .map(async (node) => {
+            await node.onReady();
+            this.readyNodes.add(node.id);
+          })
+      );
     }
   }
 
@@ -337,6 +696,10 @@ export class NodeGraph {
     this.readyNodes.clear();
     this.loadedBindings.clear();
     this.pendingBindings.clear();
+    for (const subscription of this.portSubscriptions) {
+      subscription.detach?.();
+    }
+    this.portSubscriptions.clear();
   }
 
   async clear(): Promise<void> {
@@ -351,6 +714,68 @@ export class NodeGraph {
     return this.nodes.get(nodeId);
   }
 
+  /**
+   * Observe the data arriving at a port, output or input, given
+   * as `nodeId.portName`. A port that doesn't exist yet is
+   * waited for; once it's added, the observer gets its last data
+   * if it has any, then each new data.
+   *
+   * @param ref The port reference (nodeId.portName)
+   * @param observer Called with each new data
+   * @returns Function to unsubscribe
+   */
+  subscribePort(ref: string, observer: Observer<PortData>): Unsubscribe {
+    const subscription: PortSubscription = { ref, observer, detach: null };
+    this.portSubscriptions.add(subscription);
+    this.attachPortSubscription(subscription, false);
+    return () => {
+      subscription.detach?.();
+      this.portSubscriptions.delete(subscription);
+    };
+  }
+
+  /**
+   * Attach the subscriptions whose ports were added.
+   */
+  private attachPortSubscriptions(): void {
+    for (const subscription of this.portSubscriptions) {
+      this.attachPortSubscription(subscription, true);
+    }
+  }
+
+  private attachPortSubscription(
+    subscription: PortSubscription,
+    sendLastData: boolean
+  ): void {
+    if (subscription.detach) return;
+    const [nodeId, portName] = subscription.ref.split('.');
+    const node = this.nodes.get(nodeId);
+    const port =
+      node?.outputPorts.get(portName) ?? node?.inputPorts.get(portName);
+    if (!port) return;
+
+    subscription.detach = port.addDataHandler(async (data) => {
+      subscription.observer(data);
+    });
+    const lastData = port.getLastData();
+    if (sendLastData && lastData) {
+      subscription.observer(lastData);
+    }
+  }
+
+  /**
+   * Detach the subscriptions to a removed node's ports, to wait
+   * for them to come back.
+   */
+  private detachPortSubscriptions(nodeId: string): void {
+    for (const subscription of this.portSubscriptions) {
+      if (subscription.ref.split('.')[0] === nodeId) {
+        subscription.detach?.();
+        subscription.detach = null;
+      }
+    }
+  }
+
   /**
    * Get all nodes.
    */
@@ -4,9 +4,15 @@
  * Every component in the system maps to exactly one Node.
  */
 
-import { Port } from './port';
+import { Port, SourceType } from './port';
 import type { NodeGraph } from './node-graph';
 
+/**
+ * Answers a request for fresh data on one of a node's output
+ * ports, by pushing the data out through that port.
+ */
+export type DataRequestHandler = (port: Port) => Promise<void>;
+
 /**
  * Base class for all nodes in the data flow graph.
  * Nodes represent processing units that consume and produce data.
@@ -41,7 +47,9 @@ export class Node {
    */
   private isReady = false;
 
-  private onReadyListeners: (() => void)[] = [];
+  private onReadyListeners: (() => void | Promise<void>)[] = [];
+
+  private dataRequestHandlers = new Map<string, DataRequestHandler>();
 
   public graph: NodeGraph | null = null;
 
@@ -64,6 +72,7 @@ export class Node {
       port.destroy();
     });
     this.onReadyListeners = [];
+    this.dataRequestHandlers.clear();
     this.inputPorts.clear();
     this.outputPorts.clear();
   }
@@ -85,23 +94,60 @@ export class Node {
 
   /**
    * Initialize the node.
-   * Called by NodeGraph after the node is added.
-   * Override to perform setup (e.g., subscribe to config changes).
+   * Called by NodeGraph once the nodes upstream of this one are
+   * ready. Override to perform setup (e.g., subscribe to config
+   * changes). Waits for async listeners, so the node has settled
+   * before its dependents start.
    */
   async onReady(): Promise<void> {
     if (this.isReady) {
       return;
     }
     for (const listener of this.onReadyListeners) {
-      listener();
+      await listener();
     }
     this.isReady = true;
   }
 
-  addOnReadyListener(listener: () => void): void {
+  addOnReadyListener(listener: () => void | Promise<void>): void {
     this.onReadyListeners.push(listener);
     if (this.isReady) {
-      listener();
+      Promise.resolve(listener()).catch(console.error);
+    }
+  }
+
+  /**
+   * Set how this node answers data requests on an output port,
+   * e.g. by polling its source. Replaces any earlier handler.
+   *
+   * @returns Function to remove the handler
+   */
+  setDataRequestHandler(
+    portName: string,
+    handler: DataRequestHandler
+  ): () => void {
+    this.dataRequestHandlers.set(portName, handler);
+    return () => {
+      if (this.dataRequestHandlers.get(portName) === handler) {
+        this.dataRequestHandlers.delete(portName);
+      }
+    };
+  }
+
+  /**
+   * Called when a downstream consumer asks for fresh data on
+   * one of this node's output ports. Uses the handler set for
+   * the port, or else sends the port's last data again.
+   */
+  async onDataRequested(port: Port): Promise<void> {
+    const handler = this.dataRequestHandlers.get(port.name);
+    if (handler) {
+      await handler(port);
+      return;
+    }
+    const data = port.getLastData();
+    if (data) {
+      await port.onNewData(data, SourceType.PortOwner);
     }
   }
 
@@ -5,8 +5,18 @@
 
 import { Observer, Observable } from '../core/observable';
 
-import { PortData } from './data-types';
+import {
+  MergePolicy,
+  PortData,
+  annotate,
+  getQuality,
+  mergePortData,
+} from './data-types';
 import type { Node } from './node';
+import type {
+  BindingDirection,
+  InitialSyncPolicy,
+} from '../boards/board-types';
 
 /**
  * Port direction and type information.
@@ -23,6 +33,28 @@ export interface PortSchema {
   lo?: number;
   step?: number;
   unit?: string;
+
+  /**
+   * Seconds without new data after which the last data is
+   * sent again, annotated as stale. 0 or missing means never.
+   */
+  staleTimeout?: number;
+
+  /**
+   * For inputs: accept several bindings and merge their data
+   * with this policy. Missing means at most one binding.
+   */
+  merge?: MergePolicy;
+}
+
+/**
+ * An upstream port bound to a merging input port.
+ */
+interface MergeSource {
+  /** Last data from the upstream port, null until some arrives */
+  data: PortData | null;
+  direction: BindingDirection;
+  unsubscribers: (() => void)[];
 }
 
 
@@ -43,6 +75,32 @@ function isPortData(obj: unknown): obj is PortData {
   );
 }
 
+/**
+ * Which side's data an initial sync sends, or null for neither.
+ * See InitialSyncPolicy.
+ */
+export function pickInitialSync(
+  policy: InitialSyncPolicy,
+  upstreamData: PortData | null,
+  downstreamData: PortData | null
+): 'upstream' | 'downstream' | null {
+  switch (policy) {
+    case 'upstream-wins':
+      return upstreamData ? 'upstream' : null;
+    case 'downstream-wins':
+      return downstreamData ? 'downstream' : null;
+    case 'newest-wins':
+      if (!downstreamData) return upstreamData ? 'upstream' : null;
+      if (!upstreamData) return 'downstream';
+      // Ties go upstream, the usual source of truth
+      return downstreamData.timestamp > upstreamData.timestamp
+        ? 'downstream'
+        : 'upstream';
+    case 'none':
+      return null;
+  }
+}
+
 /**
  * Callback invoked when new data arrives at a port.
  * Async to support processing, filtering, and propagation.
@@ -92,6 +150,9 @@ export class Port {
   /* At most 1 upstream connection */
   public upstreamConnection = new Observable<Port | null>(null);
 
+  /** Which way data flows over the upstream connection */
+  private upstreamDirection: BindingDirection = 'both';
+
   /**
    * Handlers for incoming data.
    * Multiple handlers for same port (e.g., multiple observers).
@@ -100,6 +161,12 @@ export class Port {
 
   private _upstreamBindingUnsubscribers: Set<() => void> = new Set();
 
+  /**
+   * For merging inputs, every bound upstream port, in the order
+   * their data last arrived. upstreamConnection holds one of them.
+   */
+  private mergeSources = new Map<Port, MergeSource>();
+
   /**
    * Most recent data received at this port.
    * Used for default values and debugging.
@@ -108,6 +175,9 @@ export class Port {
 
   public parentNode: Node | null = null;
 
+  /** Marks lastData stale, see PortSchema.staleTimeout */
+  private staleTimer: ReturnType<typeof setTimeout> | null = null;
+
   constructor(
     schema: PortSchema,
     initialData: PortData | null = null
@@ -173,7 +243,13 @@ export class Port {
         return null;
       }
       else{
-        if(this.upstreamConnection.get()){
+        if (this.mergeSources.size > 0) {
+          return this.mergedData((source) => source.getLastData());
+        }
+        if (
+          this.upstreamConnection.get() &&
+          this.upstreamDirection !== 'upstream'
+        ) {
           return this.upstreamConnection.get()!.getLastData();
         }
         else{
@@ -189,6 +265,9 @@ export class Port {
   /**
    * Handle new data arriving at this port.
    * Called by the binding system or directly by publishers.
+   * While the owning node's graph runs a batch, the data is
+   * queued there and the handlers run when the batch reaches
+   * this port.
    *
    * @param data The new data
    * @param sourceType The source of the data
@@ -200,7 +279,20 @@ export class Port {
       );
     }
 
+    if (this.parentNode?.graph?.queueData(this, data, sourceType)) {
+      this.lastData = data;
+      return;
+    }
+    await this.deliverData(data, sourceType);
+  }
+
+  /**
+   * Run the handlers for data, bypassing any batch.
+   * Called by onNewData, or by NodeGraph when flushing a batch.
+   */
+  async deliverData(data: PortData, sourceType: SourceType): Promise<void> {
     this.lastData = data;
+    this.restartStaleTimer(data);
 
     // Invoke all handlers
     const handlers = Array.from(this.handlers);
@@ -216,14 +308,72 @@ export class Port {
     this.stateChanged.set({ timestamp: Date.now() });
   }
 
+  /**
+   * Start waiting for data to replace what the port holds now,
+   * e.g. the data it was created with, if the schema sets a
+   * stale timeout.
+   */
+  startStaleTimer(): void {
+    if (this.lastData) {
+      this.restartStaleTimer(this.lastData);
+    }
+  }
+
+  /**
+   * Start waiting for the data after this to arrive, if the
+   * schema sets a stale timeout. Data that is already stale or
+   * bad can't get any worse, so it doesn't start the wait.
+   */
+  private restartStaleTimer(data: PortData): void {
+    if (this.staleTimer !== null) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
+    const timeout = this.schema.get().staleTimeout;
+    const quality = getQuality(data);
+    if (!timeout || timeout <= 0 || quality === 'stale' || quality === 'bad') {
+      return;
+    }
+    this.staleTimer = setTimeout(() => {
+      this.staleTimer = null;
+      if (this.lastData !== data) return;
+      // Outputs tell their consumers; inputs only tell their
+      // owner, without echoing the stale data back upstream
+      const sourceType = this.isOutput
+        ? SourceType.PortOwner
+        : SourceType.Upstream;
+      this.onNewData(annotate(data, { quality: 'stale' }), sourceType).catch(
+        (err) => {
+          console.error(`Error marking ${this.name} stale:`, err);
+        }
+      );
+    }, timeout * 1000);
+  }
+
   /**
    * Request fresh data from the source.
-   * For upstream ports, propagates to the upstream node.
-   * For downstream ports, this is a no-op.
+   * Input ports pass the request to the output they are
+   * connected to. Output ports ask their owning node, which
+   * answers by pushing data out through the port, so the
+   * reply reaches the requester through the normal handlers.
+   * Unconnected inputs and ownerless outputs do nothing.
    */
   async requestNewData(): Promise<void> {
-    // Placeholder for future pull-based data flow
-    // For now, data is push-based via onNewData()
+    if (!this.isOutput) {
+      if (this.mergeSources.size > 0) {
+        await Promise.all(
+          [...this.mergeSources]
+            .filter(([, source]) => source.direction !== 'upstream')
+            .map(([port]) => port.requestNewData())
+        );
+        return;
+      }
+      // The reply could never come back down
+      if (this.upstreamDirection === 'upstream') return;
+      await this.upstreamConnection.get()?.requestNewData();
+      return;
+    }
+    await this.parentNode?.onDataRequested(this);
   }
 
   /**
@@ -254,8 +404,12 @@ export class Port {
    * Establish a connection between ports.
    * Called by NodeGraph during binding creation.
    * */
-  async connectToOutput(upstreamPort: Port): Promise<void> {
-    await upstreamPort.connectToInput(this);
+  async connectToOutput(
+    upstreamPort: Port,
+    direction: BindingDirection = 'both',
+    initialSync: InitialSyncPolicy = 'upstream-wins'
+  ): Promise<void> {
+    await upstreamPort.connectToInput(this, direction, initialSync);
   }
 
   /**
@@ -263,8 +417,14 @@ export class Port {
    * Called by NodeGraph during binding creation.
    *
    * @param downstreamPort The port to connect to
+   * @param direction Which way data may flow
+   * @param initialSync Which side's data is sent on connect
    */
-  async connectToInput(downstreamPort: Port): Promise<void> {
+  async connectToInput(
+    downstreamPort: Port,
+    direction: BindingDirection = 'both',
+    initialSync: InitialSyncPolicy = 'upstream-wins'
+  ): Promise<void> {
     // Validate that this is an upstream port
     if (!this.isOutput) {
       throw new Error(`${this.getFullName()} is not a downstream-facing port`);
@@ -298,7 +458,15 @@ export class Port {
       );
     }
 
-    if (downstreamPort.upstreamConnection.get() !== null) {
+    const merging = downstreamPort.schema.get().merge !== undefined;
+    if (merging) {
+      if (downstreamPort.mergeSources.has(this)) {
+        throw new Error(
+          `${this.getFullName()} is already bound ` +
+            `to ${downstreamPort.getFullName()}`
+        );
+      }
+    } else if (downstreamPort.upstreamConnection.get() !== null) {
       console.warn(
         `Upstream port ${this.name} already connected ` +
           `to ${downstreamPort.upstreamConnection.get()!.getFullName()}`
@@ -311,58 +479,206 @@ export class Port {
       }
     }
 
-    // Establish connection
-    downstreamPort.upstreamConnection.set(this);
+    // Establish connection. A merging port keeps its handlers per
+    // upstream port, so each binding can be removed on its own
+    const unsubscribers: (() => void)[] = [];
+    if (merging) {
+      downstreamPort.mergeSources.set(this, {
+        data: null,
+        direction,
+        unsubscribers,
+      });
+      if (downstreamPort.upstreamConnection.get() === null) {
+        downstreamPort.upstreamConnection.set(this);
+      }
+    } else {
+      downstreamPort.upstreamConnection.set(this);
+      downstreamPort.upstreamDirection = direction;
+    }
 
     // Add data propagation handler on UPSTREAM to send to downstream
-    const x = this.addDataHandler(async (data, sourceType) => {
-      if (sourceType === SourceType.Downstream) return;
-      await downstreamPort.onNewData(data, SourceType.Upstream);
-    });
-    downstreamPort._upstreamBindingUnsubscribers.add(x);
+    if (direction !== 'upstream') {
+      unsubscribers.push(
+        this.addDataHandler(async (data, sourceType) => {
+          if (sourceType === SourceType.Downstream) return;
+          await downstreamPort.receiveFromUpstream(this, data);
+        })
+      );
+    }
+
+    if (direction !== 'downstream') {
+      unsubscribers.push(
+        downstreamPort.addDataHandler(async (data, sourceType) => {
+          // Don't make a loop.
+          if (sourceType === SourceType.Upstream) return;
+          if (!downstreamPort.writesBackTo(this)) return;
+          await this.onNewData(data, SourceType.Downstream);
+        })
+      );
+    }
+
+    if (!merging) {
+      for (const unsub of unsubscribers) {
+        downstreamPort._upstreamBindingUnsubscribers.add(unsub);
+      }
+    }
 
-    const y = downstreamPort.addDataHandler(async (data, sourceType) => {
-      // Don't make a loop.
-      if (sourceType === SourceType.Upstream) return;
-      await this.onNewData(data, SourceType.Downstream);
+    // Sync the winning side's data across, as if it had just
+    // arrived over the binding, so it passes through filters and
+    // isn't echoed back
+    const upstreamData = this.lastData;
+    const downstreamData = downstreamPort.lastData;
+    const winner = pickInitialSync(initialSync, upstreamData, downstreamData);
+    let sync: Promise<void> | undefined;
+    if (winner === 'upstream' && direction !== 'upstream') {
+      sync = downstreamPort.receiveFromUpstream(this, upstreamData!);
+    } else if (
+      winner === 'downstream' &&
+      direction !== 'downstream' &&
+      downstreamPort.writesBackTo(this)
+    ) {
+      sync = this.onNewData(downstreamData!, SourceType.Downstream);
+    }
+    await sync?.catch((err) => {
+      console.error(`Error propagating data on connect: ${String(err)}`);
     });
-    downstreamPort._upstreamBindingUnsubscribers.add(y);
+  }
+
+  /**
+   * Take data sent over the binding from an upstream port. A
+   * merging port remembers it and passes on the merged data.
+   */
+  private async receiveFromUpstream(
+    upstream: Port,
+    data: PortData
+  ): Promise<void> {
+    const source = this.mergeSources.get(upstream);
+    if (!source) {
+      await this.onNewData(data, SourceType.Upstream);
+      return;
+    }
+    // Move it to the end, the most recent
+    source.data = data;
+    this.mergeSources.delete(upstream);
+    this.mergeSources.set(upstream, source);
+
+    const merged = this.mergedData((port) => this.mergeSources.get(port)!.data);
+    if (merged) {
+      await this.onNewData(merged, SourceType.Upstream);
+    }
+  }
+
+  /**
+   * Merge the data of every bound upstream port that has some.
+   */
+  private mergedData(
+    getData: (port: Port) => PortData | null
+  ): PortData | null {
+    const inputs = [...this.mergeSources]
+      .filter(([, source]) => source.direction !== 'upstream')
+      .map(([port]) => getData(port))
+      .filter((data): data is PortData => data !== null);
+    return mergePortData(this.schema.get().merge ?? 'latest', inputs);
+  }
 
-    // If we have last data, propagate it to downstream
-    if (this.lastData !== null) {
-      await downstreamPort
-        .onNewData(this.lastData, SourceType.PortOwner)
-        .catch((err) => {
-          console.error(`Error propagating data on connect: ${String(err)}`);
-        });
+  /**
+   * Whether data written to this port from downstream or by its
+   * owner goes back to an upstream port. Single bindings always
+   * write back. A merging port writes back to the port its data
+   * last came from for 'latest', to none for 'sum', which can't
+   * be split up, and to all of them otherwise, so e.g. writing 0
+   * to a 'max' port makes the maximum 0.
+   */
+  private writesBackTo(upstream: Port): boolean {
+    if (!this.mergeSources.has(upstream)) return true;
+    switch (this.schema.get().merge ?? 'latest') {
+      case 'latest': {
+        const withData = [...this.mergeSources].filter(
+          ([, source]) => source.data !== null
+        );
+        return (
+          withData.length === 0 ||
+          withData[withData.length - 1][0] === upstream
+        );
+      }
+      case 'sum':
+        return false;
+      default:
+        return true;
     }
   }
 
   /**
    * Disconnect this port from its upstream connection.
+   *
+   * @param upstreamPort For merging ports, disconnect only this
+   *   one of the upstream ports. The others' data is merged again.
    */
-  disconnectFromOutput(): void {
+  disconnectFromOutput(upstreamPort?: Port): void {
     if (this.isOutput) {
       throw new Error('disconnectFromOutput() called on input port');
     }
 
+    if (upstreamPort && this.mergeSources.has(upstreamPort)) {
+      this.removeMergeSource(upstreamPort);
+      return;
+    }
+
     for (const unsub of this._upstreamBindingUnsubscribers) {
       unsub();
     }
+    for (const port of [...this.mergeSources.keys()]) {
+      this.removeMergeSource(port, false);
+    }
 
     this.upstreamConnection.set(null);
+    this.upstreamDirection = 'both';
     this.stateChanged.set({ timestamp: Date.now() });
   }
 
+  /**
+   * Remove one upstream port of a merging port.
+   *
+   * @param remerge Send the data merged from the others on
+   */
+  private removeMergeSource(upstreamPort: Port, remerge = true): void {
+    const source = this.mergeSources.get(upstreamPort)!;
+    for (const unsub of source.unsubscribers) {
+      unsub();
+    }
+    this.mergeSources.delete(upstreamPort);
+    if (this.upstreamConnection.get() === upstreamPort) {
+      const [next] = this.mergeSources.keys();
+      this.upstreamConnection.set(next ?? null);
+    }
+    this.stateChanged.set({ timestamp: Date.now() });
+
+    const merged = remerge
+      ? this.mergedData((port) => this.mergeSources.get(port)!.data)
+      : null;
+    if (merged) {
+      this.onNewData(merged, SourceType.Upstream).catch((err) => {
+        console.error(`Error merging ${this.name}:`, err);
+      });
+    }
+  }
+
   /**
    * Clear all handlers and connections.
    * Called during node cleanup.
    */
   destroy(): void {
+    if (this.staleTimer !== null) {
+      clearTimeout(this.staleTimer);
+      this.staleTimer = null;
+    }
     this.handlers.clear();
     for (const unsub of this._upstreamBindingUnsubscribers) {
       unsub();
     }
+    for (const port of [...this.mergeSources.keys()]) {
+      this.removeMergeSource(port, false);
+    }
     this.upstreamConnection.set(null);
     this.stateChanged.clearObservers();
   }
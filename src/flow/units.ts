@@ -0,0 +1,551 @@
+/**
+ * Units of measurement and conversions between them.
+ * Ports declare their unit in PortSchema.unit, by symbol.
+ */
+
+import type { PortSchema } from './port';
+import { Observable } from '../core/observable';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+/**
+ * A unit of some quantity, converting linearly to the
+ * quantity's base unit.
+ */
+export interface UnitDefinition {
+  /** Symbol used as PortSchema.unit, e.g. '°C' */
+  symbol: string;
+  name: string;
+
+  /**
+   * What the unit measures, e.g. 'temperature'. Units only
+   * convert to units of the same quantity.
+   */
+  quantity: string;
+
+  /** Value in the base unit = value * factor + offset */
+  factor: number;
+  offset?: number;
+
+  system?: UnitSystem;
+
+  /** The matching unit of the other system, e.g. °F for °C */
+  counterpart?: string;
+}
+
+/**
+ * Registry of known units, by symbol.
+ */
+export class UnitRegistry {
+  private units = new Map<string, UnitDefinition>();
+
+  register(unit: UnitDefinition): void {
+    if (!unit.symbol || !unit.quantity) {
+      throw new Error('A unit needs a symbol and a quantity');
+    }
+    if (!isFinite(unit.factor) || unit.factor === 0) {
+      throw new Error(`Invalid factor for unit ${unit.symbol}`);
+    }
+    this.units.set(unit.symbol, unit);
+  }
+
+  get(symbol: string): UnitDefinition | undefined {
+    return this.units.get(symbol);
+  }
+
+  getAll(): UnitDefinition[] {
+    return Array.from(this.units.values());
+  }
+
+  /**
+   * Get the units of a quantity, e.g. all lengths.
+   */
+  getQuantity(quantity: string): UnitDefinition[] {
+    return this.getAll().filter((unit) => unit.quantity === quantity);
+  }
+}
+
+/**
+ * Global unit registry instance.
+ */
+export const unitRegistry = new UnitRegistry();
+
+/**
+ * The unit system the operator prefers to see values in, or
+ * null to show them as their source sends them. Set by the
+ * application hosting the board.
+ */
+export const displayUnitSystem = new Observable<UnitSystem | null>(null);
+
+/**
+ * Look up both units of a conversion.
+ *
+ * @throws If either unit is unknown, or they measure different
+ *   quantities
+ */
+function getConversion(
+  from: string,
+  to: string
+): [UnitDefinition, UnitDefinition] {
+  const fromUnit = unitRegistry.get(from);
+  const toUnit = unitRegistry.get(to);
+  if (!fromUnit) {
+    throw new Error(`Unknown unit: ${from}`);
+  }
+  if (!toUnit) {
+    throw new Error(`Unknown unit: ${to}`);
+  }
+  if (fromUnit.quantity !== toUnit.quantity) {
+    throw new Error(
+      `Cannot convert ${fromUnit.quantity} (${from}) to ${toUnit.quantity} (${to})`
+    );
+  }
+  return [fromUnit, toUnit];
+}
+
+/**
+ * Drop the floating point noise of a conversion, so that e.g.
+ * 100 °C shows as 212 °F rather than 212.00000000000003.
+ */
+function clean(value: number): number {
+  return Number(value.toPrecision(12));
+}
+
+/**
+ * Whether values can be converted from one unit to another.
+ */
+export function canConvert(from: string, to: string): boolean {
+  try {
+    getConversion(from, to);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a value from one unit to another.
+ *
+ * @throws If the units are unknown or incompatible
+ */
+export function convertUnit(value: number, from: string, to: string): number {
+  if (from === to) {
+    return value;
+  }
+  const [fromUnit, toUnit] = getConversion(from, to);
+  const base = value * fromUnit.factor + (fromUnit.offset ?? 0);
+  return clean((base - (toUnit.offset ?? 0)) / toUnit.factor);
+}
+
+/**
+ * Convert a difference between two values, such as a step size,
+ * which ignores the offset: a step of 1 °C is 1.8 °F.
+ *
+ * @throws If the units are unknown or incompatible
+ */
+export function convertUnitDifference(
+  value: number,
+  from: string,
+  to: string
+): number {
+  if (from === to) {
+    return value;
+  }
+  const [fromUnit, toUnit] = getConversion(from, to);
+  return clean((value * fromUnit.factor) / toUnit.factor);
+}
+
+/**
+ * Copy a port schema for values converted to another unit, with
+ * min, max, hi, lo and step converted too. When the conversion
+ * isn't possible they are dropped, as they would be wrong.
+ *
+ * @param schema Schema of the values before conversion
+ * @param to Unit after conversion
+ * @param from Unit before conversion, by default the schema's
+ */
+export function convertPortSchema(
+  schema: PortSchema,
+  to: string,
+  from: string | undefined = schema.unit
+): PortSchema {
+  const converted: PortSchema = { ...schema, unit: to };
+  const convertible = !!from && canConvert(from, to);
+  for (const key of ['min', 'max', 'hi', 'lo'] as const) {
+    const value = schema[key];
+    if (value === undefined) continue;
+    if (convertible) {
+      converted[key] = convertUnit(value, from, to);
+    } else {
+      delete converted[key];
+    }
+  }
+  if (schema.step !== undefined) {
+    if (convertible) {
+      converted.step = Math.abs(convertUnitDifference(schema.step, from, to));
+    } else {
+      delete converted.step;
+    }
+  }
+  // A conversion with a negative factor swaps the ends
+  if (
+    converted.min !== undefined &&
+    converted.max !== undefined &&
+    converted.min > converted.max
+  ) {
+    [converted.min, converted.max] = [converted.max, converted.min];
+  }
+  return converted;
+}
+
+/**
+ * The unit to show values of a unit in, for a unit system: the
+ * unit's counterpart when it belongs to the other system, and
+ * otherwise the unit itself.
+ */
+export function displayUnitFor(
+  unit: string,
+  system: UnitSystem | null = displayUnitSystem.get()
+): string {
+  const definition = unitRegistry.get(unit);
+  if (
+    !system ||
+    !definition?.system ||
+    definition.system === system ||
+    !definition.counterpart
+  ) {
+    return unit;
+  }
+  return definition.counterpart;
+}
+
+/**
+ * Built-in units. The first unit of each quantity is its base.
+ */
+const BUILT_IN_UNITS: UnitDefinition[] = [
+  // Temperature
+  {
+    symbol: '°C',
+    name: 'degree Celsius',
+    quantity: 'temperature',
+    factor: 1,
+    system: 'metric',
+    counterpart: '°F',
+  },
+  {
+    symbol: '°F',
+    name: 'degree Fahrenheit',
+    quantity: 'temperature',
+    factor: 5 / 9,
+    offset: -160 / 9,
+    system: 'imperial',
+    counterpart: '°C',
+  },
+  {
+    symbol: 'K',
+    name: 'kelvin',
+    quantity: 'temperature',
+    factor: 1,
+    offset: -273.15,
+  },
+
+  // Pressure
+  { symbol: 'Pa', name: 'pascal', quantity: 'pressure', factor: 1 },
+  {
+    symbol: 'kPa',
+    name: 'kilopascal',
+    quantity: 'pressure',
+    factor: 1000,
+    system: 'metric',
+    counterpart: 'psi',
+  },
+  {
+    symbol: 'bar',
+    name: 'bar',
+    quantity: 'pressure',
+    factor: 100000,
+    system: 'metric',
+    counterpart: 'psi',
+  },
+  {
+    symbol: 'mbar',
+    name: 'millibar',
+    quantity: 'pressure',
+    factor: 100,
+    system: 'metric',
+    counterpart: 'inHg',
+  },
+  {
+    symbol: 'psi',
+    name: 'pound per square inch',
+    quantity: 'pressure',
+    factor: 6894.757293168,
+    system: 'imperial',
+    counterpart: 'bar',
+  },
+  {
+    symbol: 'inHg',
+    name: 'inch of mercury',
+    quantity: 'pressure',
+    factor: 3386.389,
+    system: 'imperial',
+    counterpart: 'mbar',
+  },
+  { symbol: 'atm', name: 'atmosphere', quantity: 'pressure', factor: 101325 },
+
+  // Length
+  {
+    symbol: 'm',
+    name: 'metre',
+    quantity: 'length',
+    factor: 1,
+    system: 'metric',
+    counterpart: 'ft',
+  },
+  {
+    symbol: 'mm',
+    name: 'millimetre',
+    quantity: 'length',
+    factor: 0.001,
+    system: 'metric',
+    counterpart: 'in',
+  },
+  {
+    symbol: 'cm',
+    name: 'centimetre',
+    quantity: 'length',
+    factor: 0.01,
+    system: 'metric',
+    counterpart: 'in',
+  },
+  {
+    symbol: 'km',
+    name: 'kilometre',
+    quantity: 'length',
+    factor: 1000,
+    system: 'metric',
+    counterpart: 'mi',
+  },
+  {
+    symbol: 'in',
+    name: 'inch',
+    quantity: 'length',
+    factor: 0.0254,
+    system: 'imperial',
+    counterpart: 'mm',
+  },
+  {
+    symbol: 'ft',
+    name: 'foot',
+    quantity: 'length',
+    factor: 0.3048,
+    system: 'imperial',
+    counterpart: 'm',
+  },
+  {
+    symbol: 'yd',
+    name: 'yard',
+    quantity: 'length',
+    factor: 0.9144,
+    system: 'imperial',
+    counterpart: 'm',
+  },
+  {
+    symbol: 'mi',
+    name: 'mile',
+    quantity: 'length',
+    factor: 1609.344,
+    system: 'imperial',
+    counterpart: 'km',
+  },
+
+  // Volume
+  {
+    symbol: 'L',
+    name: 'litre',
+    quantity: 'volume',
+    factor: 1,
+    system: 'metric',
+    counterpart: 'gal',
+  },
+  {
+    symbol: 'mL',
+    name: 'millilitre',
+    quantity: 'volume',
+    factor: 0.001,
+    system: 'metric',
+    counterpart: 'fl oz',
+  },
+  {
+    symbol: 'm³',
+    name: 'cubic metre',
+    quantity: 'volume',
+    factor: 1000,
+    system: 'metric',
+    counterpart: 'ft³',
+  },
+  {
+    symbol: 'gal',
+    name: 'US gallon',
+    quantity: 'volume',
+    factor: 3.785411784,
+    system: 'imperial',
+    counterpart: 'L',
+  },
+  {
+    symbol: 'fl oz',
+    name: 'US fluid ounce',
+    quantity: 'volume',
+    factor: 0.0295735295625,
+    system: 'imperial',
+    counterpart: 'mL',
+  },
+  {
+    symbol: 'ft³',
+    name: 'cubic foot',
+    quantity: 'volume',
+    factor: 28.316846592,
+    system: 'imperial',
+    counterpart: 'm³',
+  },
+
+  // Volume flow
+  {
+    symbol: 'L/s',
+    name: 'litre per second',
+    quantity: 'flow',
+    factor: 1,
+    system: 'metric',
+    counterpart: 'gal/min',
+  },
+  {
+    symbol: 'L/min',
+    name: 'litre per minute',
+    quantity: 'flow',
+    factor: 1 / 60,
+    system: 'metric',
+    counterpart: 'gal/min',
+  },
+  {
+    symbol: 'm³/h',
+    name: 'cubic metre per hour',
+    quantity: 'flow',
+    factor: 1000 / 3600,
+    system: 'metric',
+    counterpart: 'ft³/min',
+  },
+  {
+    symbol: 'gal/min',
+    name: 'US gallon per minute',
+    quantity: 'flow',
+    factor: 3.785411784 / 60,
+    system: 'imperial',
+    counterpart: 'L/min',
+  },
+  {
+    symbol: 'ft³/min',
+    name: 'cubic foot per minute',
+    quantity: 'flow',
+    factor: 28.316846592 / 60,
+    system: 'imperial',
+    counterpart: 'm³/h',
+  },
+
+  // Speed
+  {
+    symbol: 'm/s',
+    name: 'metre per second',
+    quantity: 'speed',
+    factor: 1,
+    system: 'metric',
+    counterpart: 'ft/s',
+  },
+  {
+    symbol: 'km/h',
+    name: 'kilometre per hour',
+    quantity: 'speed',
+    factor: 1 / 3.6,
+    system: 'metric',
+    counterpart: 'mph',
+  },
+  {
+    symbol: 'ft/s',
+    name: 'foot per second',
+    quantity: 'speed',
+    factor: 0.3048,
+    system: 'imperial',
+    counterpart: 'm/s',
+  },
+  {
+    symbol: 'mph',
+    name: 'mile per hour',
+    quantity: 'speed',
+    factor: 0.44704,
+    system: 'imperial',
+    counterpart: 'km/h',
+  },
+  { symbol: 'kn', name: 'knot', quantity: 'speed', factor: 1852 / 3600 },
+
+  // Mass
+  {
+    symbol: 'kg',
+    name: 'kilogram',
+    quantity: 'mass',
+    factor: 1,
+    system: 'metric',
+    counterpart: 'lb',
+  },
+  {
+    symbol: 'g',
+    name: 'gram',
+    quantity: 'mass',
+    factor: 0.001,
+    system: 'metric',
+    counterpart: 'oz',
+  },
+  {
+    symbol: 'lb',
+    name: 'pound',
+    quantity: 'mass',
+    factor: 0.45359237,
+    system: 'imperial',
+    counterpart: 'kg',
+  },
+  {
+    symbol: 'oz',
+    name: 'ounce',
+    quantity: 'mass',
+    factor: 0.028349523125,
+    system: 'imperial',
+    counterpart: 'g',
+  },
+
+  // Time
+  { symbol: 's', name: 'second', quantity: 'time', factor: 1 },
+  { symbol: 'ms', name: 'millisecond', quantity: 'time', factor: 0.001 },
+  { symbol: 'min', name: 'minute', quantity: 'time', factor: 60 },
+  { symbol: 'h', name: 'hour', quantity: 'time', factor: 3600 },
+  { symbol: 'd', name: 'day', quantity: 'time', factor: 86400 },
+
+  // Ratios
+  { symbol: '%', name: 'percent', quantity: 'ratio', factor: 0.01 },
+  { symbol: '‰', name: 'per mille', quantity: 'ratio', factor: 0.001 },
+  { symbol: 'ppm', name: 'parts per million', quantity: 'ratio', factor: 1e-6 },
+
+  // Power and energy
+  { symbol: 'W', name: 'watt', quantity: 'power', factor: 1 },
+  { symbol: 'kW', name: 'kilowatt', quantity: 'power', factor: 1000 },
+  { symbol: 'hp', name: 'horsepower', quantity: 'power', factor: 745.69987 },
+  { symbol: 'J', name: 'joule', quantity: 'energy', factor: 1 },
+  { symbol: 'kWh', name: 'kilowatt hour', quantity: 'energy', factor: 3.6e6 },
+  {
+    symbol: 'BTU',
+    name: 'British thermal unit',
+    quantity: 'energy',
+    factor: 1055.05585,
+  },
+];
+
+for (const unit of BUILT_IN_UNITS) {
+  unitRegistry.register(unit);
+}
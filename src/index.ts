@@ -4,6 +4,13 @@ import type { IBoardBackend } from './editor/types';
 import type { DashboardEditor } from './editor/components/dashboard-editor.ts';
 import { DashboardComponentConstructor } from './components/dashboard-component.ts';
 
+/**
+ * Set displayUnitSystem to show values in the operator's
+ * preferred units, and register units the board uses.
+ */
+export { displayUnitSystem, unitRegistry } from './flow/units.ts';
+export type { UnitDefinition, UnitSystem } from './flow/units.ts';
+
 /**
  * Registered format-to-datalist mappings.
  * When a schema field has a matching format, the input gets a list attribute pointing to this datalist.
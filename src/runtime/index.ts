@@ -289,6 +289,8 @@ export class BoardRuntime {
       await this.addComponent(c, component.id);
     }
 
+    // Start it like the components loaded with the board
+    await this.graph.ready();
     this.nodeGraphRefreshed.notifyObservers();
 
     return component;
@@ -410,6 +412,7 @@ export class BoardRuntime {
         }
       }
     }
+    await this.graph.ready();
     this.nodeGraphRefreshed.notifyObservers();
 
     return newComponent;
@@ -550,7 +553,8 @@ export class BoardRuntime {
       }
     }
 
-    // Re-establish compatible bindings
+    // Re-establish compatible bindings. Each one syncs by its
+    // initialSync policy, as when the board was loaded
     for (const binding of affectedBindings) {
       if (
         this.isBindingCompatible(binding.config.toPort, binding.config.fromPort)
@@ -568,6 +572,7 @@ export class BoardRuntime {
         );
       }
     }
+    await this.graph.ready();
     this.nodeGraphRefreshed.notifyObservers();
     return newComponent;
   }
@@ -0,0 +1,218 @@
+/**
+ * Tests for the REST backend against the in-process mock server.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ApiBackend,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiProtocolError,
+  ApiTimeoutError,
+  MockApiServer,
+} from '@/backends';
+import { ResourceTree } from '@/backends/resource-tree';
+import type { BoardDefinition } from '@/editor/types';
+
+const BASE = 'http://boards.test/api/';
+
+function makeBoard(id: string): BoardDefinition {
+  return {
+    id,
+    metadata: { name: 'Remote Board' },
+    rootComponent: { id: 'root', type: 'plain-layout', config: {} },
+    bindings: [],
+  };
+}
+
+describe('ApiBackend', () => {
+  let server: MockApiServer;
+  let backend: ApiBackend;
+
+  beforeEach(() => {
+    server = new MockApiServer();
+    backend = new ApiBackend({
+      baseUrl: BASE,
+      boardId: 'b1',
+      fetch: server.fetch,
+    });
+  });
+
+  describe('load', () => {
+    it('loads a board from the server', async () => {
+      server.boards.set('b1', makeBoard('b1'));
+      const board = await backend.load();
+      expect(board.metadata.name).toBe('Remote Board');
+      expect(server.requests[0].method).toBe('GET');
+      expect(server.requests[0].url).toBe('http://boards.test/api/boards/b1');
+    });
+
+    it('throws ApiHttpError with the server message on 404', async () => {
+      const err = await backend.load().catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(ApiHttpError);
+      expect((err as ApiHttpError).status).toBe(404);
+      expect((err as ApiHttpError).message).toBe('Board not found: b1');
+    });
+
+    it('encodes board IDs in the URL', async () => {
+      const odd = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'a/b c',
+        fetch: server.fetch,
+      });
+      server.boards.set('a/b c', makeBoard('a/b c'));
+      const board = await odd.load();
+      expect(board.id).toBe('a/b c');
+      expect(server.requests[0].url).toContain('/boards/a%2Fb%20c');
+    });
+
+    it('throws ApiProtocolError for a malformed board', async () => {
+      const broken = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        fetch: async () => new Response('[1, 2]', { status: 200 }),
+      });
+      await expect(broken.load()).rejects.toBeInstanceOf(ApiProtocolError);
+    });
+
+    it('throws ApiProtocolError for invalid JSON', async () => {
+      const broken = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        fetch: async () => new Response('<html>', { status: 200 }),
+      });
+      await expect(broken.load()).rejects.toBeInstanceOf(ApiProtocolError);
+    });
+  });
+
+  describe('save', () => {
+    it('round trips a board through the server', async () => {
+      const board = makeBoard('b1');
+      await backend.save(board);
+
+      const stored = server.boards.get('b1');
+      expect(stored?.metadata.name).toBe('Remote Board');
+      expect(stored?.metadata.modified).toBeDefined();
+      expect(server.requests[0].method).toBe('PUT');
+      expect(server.requests[0].headers.get('Content-Type')).toBe(
+        'application/json'
+      );
+
+      const loaded = await backend.load();
+      expect(loaded).toEqual(stored);
+    });
+
+    it('saves other boards under their own ID', async () => {
+      await backend.save(makeBoard('other'));
+      expect(server.requests[0].url).toBe(
+        'http://boards.test/api/boards/other'
+      );
+      expect(server.boards.has('other')).toBe(true);
+    });
+  });
+
+  describe('listResourceFolder', () => {
+    it('passes the folder as a query parameter', async () => {
+      server.resources.set(
+        'b1',
+        new ResourceTree({ '/img/a.png': { url: '/a.png', size: 10 } })
+      );
+      const items = await backend.listResourceFolder('/img');
+      expect(items).toEqual([
+        { name: 'a.png', size: 10, url: '/a.png', type: 'file' },
+      ]);
+      expect(server.requests[0].url).toBe(
+        'http://boards.test/api/boards/b1/resources?folder=%2Fimg'
+      );
+    });
+
+    it('throws ApiHttpError for a missing folder', async () => {
+      await expect(backend.listResourceFolder('/nope')).rejects.toThrow(
+        'No such folder /nope'
+      );
+    });
+  });
+
+  describe('getSystemThemes', () => {
+    it('returns the server theme list', async () => {
+      server.themes = [{ name: 'Dark', url: '/themes/dark.css' }];
+      expect(await backend.getSystemThemes()).toEqual(server.themes);
+    });
+  });
+
+  describe('headers', () => {
+    it('sends static auth headers', async () => {
+      const secured = new MockApiServer({ authorization: 'Bearer abc' });
+      secured.boards.set('b1', makeBoard('b1'));
+
+      const anonymous = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        fetch: secured.fetch,
+      });
+      const err = await anonymous.load().catch((e: unknown) => e);
+      expect((err as ApiHttpError).status).toBe(401);
+
+      const authed = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        headers: { Authorization: 'Bearer abc' },
+        fetch: secured.fetch,
+      });
+      expect((await authed.load()).id).toBe('b1');
+    });
+
+    it('calls a header function before every request', async () => {
+      let token = 0;
+      const rotating = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        headers: async () => ({ Authorization: `Bearer ${++token}` }),
+        fetch: server.fetch,
+      });
+      server.themes = [];
+      await rotating.getSystemThemes();
+      await rotating.getSystemThemes();
+      expect(
+        server.requests.map((r) => r.headers.get('Authorization'))
+      ).toEqual(['Bearer 1', 'Bearer 2']);
+    });
+  });
+
+  describe('failures', () => {
+    it('throws ApiTimeoutError when the server is too slow', async () => {
+      const slow = new MockApiServer({ delayMs: 200 });
+      const impatient = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        timeoutMs: 20,
+        fetch: slow.fetch,
+      });
+      const err = await impatient.load().catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(ApiTimeoutError);
+      expect((err as ApiTimeoutError).timeoutMs).toBe(20);
+    });
+
+    it('throws ApiNetworkError when fetch rejects', async () => {
+      const offline = new ApiBackend({
+        baseUrl: BASE,
+        boardId: 'b1',
+        fetch: async () => {
+          throw new TypeError('Failed to fetch');
+        },
+      });
+      const err = await offline.load().catch((e: unknown) => e);
+      expect(err).toBeInstanceOf(ApiNetworkError);
+      expect((err as ApiNetworkError).message).toContain('Failed to fetch');
+    });
+
+    it('rejects invalid options', () => {
+      expect(() => new ApiBackend({ baseUrl: '', boardId: 'b1' })).toThrow(
+        'base URL'
+      );
+      expect(
+        () => new ApiBackend({ baseUrl: BASE, boardId: 'b1', timeoutMs: 0 })
+      ).toThrow('timeout');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Shared setup for the contract suites, which run the same
+ * tests against every backend implementing an optional part
+ * of IBoardBackend.
+ */
+
+import { describe } from 'vitest';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  ApiBackend,
+  CompositeBackend,
+  IndexedDbBackend,
+  LocalStorageBackend,
+  MemoryBackend,
+  MockApiServer,
+} from '@/backends';
+import type { BoardDefinition } from '@/editor/types';
+import { MapStorage } from './map-storage';
+import { tempServerBackend } from './temp-board-server';
+
+export function makeBoard(id: string, name: string): BoardDefinition {
+  return {
+    id,
+    metadata: { name, description: `${name} description`, author: 'Ada' },
+    rootComponent: { id: 'root', type: 'plain-layout', config: {} },
+    bindings: [],
+  };
+}
+
+/**
+ * Each backend, created empty. The board server ones need
+ * `afterAll(removeTempDirs)` in the suite.
+ */
+export const backendFactories = {
+  MemoryBackend: () => new MemoryBackend([]),
+  LocalStorageBackend: () =>
+    new LocalStorageBackend('main', { storage: new MapStorage() }),
+  IndexedDbBackend: () => {
+    indexedDB = new IDBFactory();
+    return new IndexedDbBackend('main');
+  },
+  ApiBackend: () =>
+    new ApiBackend({
+      baseUrl: 'http://boards.test',
+      boardId: 'main',
+      fetch: new MockApiServer().fetch,
+    }),
+  CompositeBackend: () =>
+    new CompositeBackend({ primary: new MemoryBackend([]) }),
+  BoardServer: () => tempServerBackend(),
+};
+
+/**
+ * Describe `topic` once for each named backend, as
+ * "<name> <topic>". The tests get that backend's factory.
+ */
+export function describeBackends<K extends keyof typeof backendFactories>(
+  topic: string,
+  names: K[],
+  tests: (factory: (typeof backendFactories)[K]) => void
+): void {
+  for (const name of names) {
+    describe(`${name} ${topic}`, () => tests(backendFactories[name]));
+  }
+}
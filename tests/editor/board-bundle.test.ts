@@ -0,0 +1,170 @@
+/**
+ * Tests for exporting boards with their resources as zip
+ * bundles and importing them into another backend.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import {
+  ApiBackend,
+  LocalStorageBackend,
+  MemoryBackend,
+  MockApiServer,
+  exportBoardBundle,
+  importBoardBundle,
+  readBoardBundle,
+} from '@/backends';
+import type { BoardDefinition } from '@/editor/types';
+import { MapStorage } from './map-storage';
+
+function makeBoard(theme: string, logo: string): BoardDefinition {
+  return {
+    id: 'plant',
+    metadata: { name: 'Plant' },
+    cssTheme: theme,
+    rootComponent: {
+      id: 'root',
+      type: 'plain-layout',
+      config: {},
+      children: [
+        { id: 'logo', type: 'image', config: { src: logo } },
+        { id: 'go', type: 'button', config: { backgroundImage: logo } },
+        { id: 'note', type: 'variable', config: { label: 'not/a/url' } },
+      ],
+    },
+    bindings: [],
+  };
+}
+
+function manifest(): Uint8Array {
+  return strToU8(JSON.stringify({ format: 'dashbeard-bundle', version: 1 }));
+}
+
+describe('board bundles', () => {
+  let source: MemoryBackend;
+  let board: BoardDefinition;
+
+  beforeEach(async () => {
+    source = new MemoryBackend([]);
+    const theme = await source.uploadResource(
+      '/themes/dark.css',
+      new Blob(['body{}'], { type: 'text/css' })
+    );
+    const logo = await source.uploadResource(
+      '/logo.png',
+      new Blob([new Uint8Array([137, 80, 78, 71])], { type: 'image/png' })
+    );
+    await source.uploadResource('/unused.txt', new Blob(['x']));
+    board = makeBoard(theme.url!, logo.url!);
+    await source.createBoard(board);
+  });
+
+  it('packages the board with referenced resources only', async () => {
+    const entries = unzipSync(await exportBoardBundle(source, 'plant'));
+    expect(Object.keys(entries).sort()).toEqual([
+      'board.json',
+      'manifest.json',
+      'resources/logo.png',
+      'resources/themes/dark.css',
+    ]);
+    expect(strFromU8(entries['resources/themes/dark.css'])).toBe('body{}');
+    expect([...entries['resources/logo.png']]).toEqual([137, 80, 78, 71]);
+  });
+
+  it('rewrites resource URLs to relative paths', async () => {
+    const bundle = await readBoardBundle(
+      await exportBoardBundle(source, 'plant')
+    );
+    const [logo, button, note] = bundle.board.rootComponent!.children!;
+    expect(bundle.board.cssTheme).toBe('resources/themes/dark.css');
+    expect(logo.config!.src).toBe('resources/logo.png');
+    expect(button.config!.backgroundImage).toBe('resources/logo.png');
+    expect(note.config!.label).toBe('not/a/url');
+    expect(bundle.board.metadata.revision).toBeUndefined();
+  });
+
+  it('imports into another backend with fresh URLs', async () => {
+    const target = new LocalStorageBackend('main', {
+      storage: new MapStorage(),
+    });
+    const bundle = await readBoardBundle(
+      new Blob([await exportBoardBundle(source, 'plant')])
+    );
+    const imported = await importBoardBundle(target, bundle, {
+      boardId: 'copy',
+      resourceFolder: '/imported',
+    });
+
+    expect(imported.id).toBe('copy');
+    const files = await target.listResourceFolder('/imported/themes');
+    expect(files.map((f) => f.name)).toEqual(['dark.css']);
+    expect(imported.cssTheme).toBe(files[0].url);
+    expect(imported.rootComponent!.children![0].config!.src).toBe(
+      board.rootComponent!.children![0].config!.src
+    );
+    expect((await target.load('copy')).cssTheme).toBe(files[0].url);
+  });
+
+  it('imports through the HTTP API', async () => {
+    const target = new ApiBackend({
+      baseUrl: 'http://boards.test',
+      boardId: 'plant',
+      fetch: new MockApiServer().fetch,
+    });
+    const bundle = await readBoardBundle(
+      await exportBoardBundle(source, 'plant')
+    );
+    const imported = await importBoardBundle(target, bundle);
+    const files = await target.listResourceFolder('/');
+    const logo = files.find((f) => f.name === 'logo.png')!;
+    expect(imported.rootComponent!.children![1].config!.backgroundImage).toBe(
+      logo.url
+    );
+  });
+
+  it('fails if a resource cannot be downloaded', async () => {
+    await expect(
+      exportBoardBundle(source, 'plant', {
+        fetch: async () => new Response(null, { status: 404 }),
+      })
+    ).rejects.toThrow('HTTP 404');
+  });
+
+  it('gives up on resource folders that never end', async () => {
+    // Every folder appears to hold another one
+    vi.spyOn(source, 'listResourceFolder').mockResolvedValue([
+      { name: 'deeper', size: 0, type: 'folder' },
+    ]);
+    await expect(exportBoardBundle(source, 'plant')).rejects.toThrow(
+      'resource folders'
+    );
+  });
+
+  it('refuses to overwrite an existing board', async () => {
+    const bundle = await readBoardBundle(
+      await exportBoardBundle(source, 'plant')
+    );
+    await expect(importBoardBundle(source, bundle)).rejects.toThrow();
+  });
+
+  it('rejects archives that are not bundles', async () => {
+    await expect(readBoardBundle(strToU8('not a zip'))).rejects.toThrow(
+      'Not a valid board bundle'
+    );
+    await expect(
+      readBoardBundle(zipSync({ 'board.json': strToU8('{}') }))
+    ).rejects.toThrow('Bundle is missing manifest.json');
+    await expect(
+      readBoardBundle(zipSync({ 'manifest.json': manifest() }))
+    ).rejects.toThrow('Bundle is missing board.json');
+  });
+
+  it('rejects resource paths that escape the folder', async () => {
+    const zip = zipSync({
+      'manifest.json': manifest(),
+      'board.json': strToU8(JSON.stringify(board)),
+      'resources/../../evil.js': strToU8('alert(1)'),
+    });
+    await expect(readBoardBundle(zip)).rejects.toThrow();
+  });
+});
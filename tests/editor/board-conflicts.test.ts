@@ -0,0 +1,138 @@
+/**
+ * Tests for optimistic concurrency on save, run against
+ * every backend that tracks revision tokens.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { ApiBackend, BoardConflictError, MockApiServer } from '@/backends';
+import type { IBoardBackend } from '@/editor/types';
+import { describeBackends, makeBoard } from './backend-contract';
+import { removeTempDirs } from './temp-board-server';
+
+type ConflictBackend = IBoardBackend &
+  Required<Pick<IBoardBackend, 'createBoard' | 'renameBoard'>>;
+
+afterAll(removeTempDirs);
+
+describeBackends(
+  'save conflicts',
+  [
+    'MemoryBackend',
+    'LocalStorageBackend',
+    'IndexedDbBackend',
+    'ApiBackend',
+    'CompositeBackend',
+    'BoardServer',
+  ],
+  (factory) => {
+    let backend: ConflictBackend;
+
+    beforeEach(async () => {
+      backend = factory();
+      await backend.createBoard(makeBoard('a', 'Original'));
+    });
+
+    it('stamps loaded boards with a revision token', async () => {
+      const board = await backend.load('a');
+      expect(board.metadata.revision).toBeDefined();
+    });
+
+    it('updates the token on save, so saves can repeat', async () => {
+      const board = await backend.load('a');
+      const before = board.metadata.revision;
+      board.metadata.name = 'Once';
+      await backend.save(board);
+      expect(board.metadata.revision).not.toBe(before);
+
+      board.metadata.name = 'Twice';
+      await backend.save(board);
+      expect((await backend.load('a')).metadata.name).toBe('Twice');
+    });
+
+    it('refuses to save over changes made since loading', async () => {
+      const mine = await backend.load('a');
+      const theirs = await backend.load('a');
+      theirs.metadata.name = 'Theirs';
+      await backend.save(theirs);
+
+      mine.metadata.name = 'Mine';
+      const error = await backend.save(mine).catch((err: unknown) => err);
+      expect(error).toBeInstanceOf(BoardConflictError);
+      expect(error).toMatchObject({
+        boardId: 'a',
+        currentRevision: theirs.metadata.revision,
+      });
+      expect((error as BoardConflictError).expectedRevision).not.toBe(
+        theirs.metadata.revision
+      );
+      expect((await backend.load('a')).metadata.name).toBe('Theirs');
+    });
+
+    it('overwrites when forced', async () => {
+      const mine = await backend.load('a');
+      const theirs = await backend.load('a');
+      await backend.save(theirs);
+
+      mine.metadata.name = 'Mine';
+      await backend.save(mine, { force: true });
+      expect((await backend.load('a')).metadata.name).toBe('Mine');
+
+      // The forced save leaves the copy current again
+      await backend.save(mine);
+    });
+
+    it('saves boards without a token unconditionally', async () => {
+      const stale = await backend.load('a');
+      await backend.save(stale);
+
+      const board = makeBoard('a', 'No token');
+      await backend.save(board);
+      expect((await backend.load('a')).metadata.name).toBe('No token');
+    });
+
+    it('reports the new token when renaming', async () => {
+      const board = await backend.load('a');
+      const summary = await backend.renameBoard('a', 'Renamed');
+      expect(summary.revision).toBeDefined();
+      expect(summary.revision).not.toBe(board.metadata.revision);
+
+      board.metadata.revision = summary.revision;
+      await backend.save(board);
+    });
+  }
+);
+
+describe('ApiBackend save conflicts', () => {
+  it('maps 409 responses to BoardConflictError', async () => {
+    const server = new MockApiServer();
+    const backend = new ApiBackend({
+      baseUrl: 'http://boards.test',
+      boardId: 'a',
+      fetch: server.fetch,
+    });
+    await backend.createBoard(makeBoard('a', 'Original'));
+    const board = await backend.load('a');
+    board.metadata.revision = 'stale';
+
+    await expect(backend.save(board)).rejects.toBeInstanceOf(
+      BoardConflictError
+    );
+    await backend.save(board, { force: true });
+
+    const puts = server.requests.filter((r) => r.method === 'PUT');
+    expect(new URL(puts[0].url).searchParams.has('force')).toBe(false);
+    expect(new URL(puts[1].url).searchParams.get('force')).toBe('true');
+  });
+
+  it('clears the token if the server does not return one', async () => {
+    const backend = new ApiBackend({
+      baseUrl: 'http://boards.test',
+      boardId: 'a',
+      fetch: async () => new Response(null, { status: 204 }),
+    });
+    const board = makeBoard('a', 'A');
+    board.metadata.revision = '3';
+    await backend.save(board);
+    expect(board.metadata.revision).toBeUndefined();
+  });
+});
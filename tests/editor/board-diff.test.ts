@@ -0,0 +1,103 @@
+/**
+ * Tests for the structural board diff
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffBoards } from '@/editor/utils/board-diff';
+import type { BoardDefinition } from '@/boards/board-types';
+
+function makeBoard(): BoardDefinition {
+  return {
+    id: 'board',
+    metadata: { name: 'Board', modified: '2024-01-01', revision: '1' },
+    rootComponent: {
+      id: 'root',
+      type: 'plain-layout',
+      config: {},
+      children: [
+        { id: 'slider', type: 'slider', config: { min: 0, max: 100 } },
+        { id: 'label', type: 'variable', config: { label: 'Value' } },
+      ],
+    },
+    bindings: [{ id: 'b1', fromPort: 'slider.value', toPort: 'label.value' }],
+  };
+}
+
+describe('diffBoards', () => {
+  it('finds nothing between identical boards', () => {
+    expect(diffBoards(makeBoard(), makeBoard())).toEqual([]);
+  });
+
+  it('ignores the modified time and revision token', () => {
+    const after = makeBoard();
+    after.metadata.modified = '2025-01-01';
+    after.metadata.revision = '7';
+    expect(diffBoards(makeBoard(), after)).toEqual([]);
+  });
+
+  it('reports config changes by component ID', () => {
+    const after = makeBoard();
+    after.rootComponent!.children![0].config!.max = 10;
+    expect(diffBoards(makeBoard(), after)).toEqual([
+      {
+        path: 'components.slider.config.max',
+        kind: 'changed',
+        before: 100,
+        after: 10,
+      },
+    ]);
+  });
+
+  it('reports added and removed components', () => {
+    const after = makeBoard();
+    after.rootComponent!.children = [
+      after.rootComponent!.children![0],
+      { id: 'switch', type: 'switch' },
+    ];
+    const changes = diffBoards(makeBoard(), after);
+    expect(changes.map((c) => [c.path, c.kind])).toEqual([
+      ['components.label', 'removed'],
+      ['components.root.children', 'changed'],
+      ['components.switch', 'added'],
+    ]);
+    expect(changes[2].after).toEqual({ type: 'switch', children: [] });
+  });
+
+  it('reports a reorder as a change to the parent only', () => {
+    const after = makeBoard();
+    after.rootComponent!.children!.reverse();
+    expect(diffBoards(makeBoard(), after)).toEqual([
+      {
+        path: 'components.root.children',
+        kind: 'changed',
+        before: ['slider', 'label'],
+        after: ['label', 'slider'],
+      },
+    ]);
+  });
+
+  it('reports binding changes by binding ID', () => {
+    const after = makeBoard();
+    after.bindings[0].toPort = 'label.other';
+    after.bindings.push({ id: 'b2', fromPort: 'a.x', toPort: 'b.y' });
+    expect(diffBoards(makeBoard(), after).map((c) => c.path)).toEqual([
+      'bindings.b1.toPort',
+      'bindings.b2',
+    ]);
+  });
+
+  it('reports metadata and theme changes', () => {
+    const after = makeBoard();
+    after.metadata.name = 'Renamed';
+    after.cssTheme = '/dark.css';
+    expect(diffBoards(makeBoard(), after)).toEqual([
+      { path: 'cssTheme', kind: 'added', after: '/dark.css' },
+      {
+        path: 'metadata.name',
+        kind: 'changed',
+        before: 'Board',
+        after: 'Renamed',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Tests for board revision history, run against every
+ * backend that keeps it.
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import {
+  ApiBackend,
+  CompositeBackend,
+  LocalStorageBackend,
+  MemoryBackend,
+  MockApiServer,
+} from '@/backends';
+import type { IBoardBackend } from '@/editor/types';
+import { MapStorage } from './map-storage';
+import { describeBackends, makeBoard } from './backend-contract';
+import { removeTempDirs } from './temp-board-server';
+
+type HistoryBackend = IBoardBackend &
+  Required<
+    Pick<
+      IBoardBackend,
+      | 'createBoard'
+      | 'renameBoard'
+      | 'deleteBoard'
+      | 'listRevisions'
+      | 'loadRevision'
+      | 'restoreRevision'
+    >
+  >;
+
+afterAll(removeTempDirs);
+
+describeBackends(
+  'revision history',
+  [
+    'MemoryBackend',
+    'LocalStorageBackend',
+    'IndexedDbBackend',
+    'ApiBackend',
+    'CompositeBackend',
+    'BoardServer',
+  ],
+  (factory) => {
+    let backend: HistoryBackend;
+
+    beforeEach(async () => {
+      backend = factory();
+      await backend.createBoard(makeBoard('a', 'First'));
+    });
+
+    it('records a revision when a board is created', async () => {
+      const revisions = await backend.listRevisions('a');
+      expect(revisions).toHaveLength(1);
+      expect(revisions[0]).toMatchObject({
+        boardId: 'a',
+        author: 'Ada',
+        message: 'Created',
+      });
+      expect(revisions[0].timestamp).toBeDefined();
+    });
+
+    it('records every save, newest first', async () => {
+      const board = await backend.load('a');
+      board.metadata.name = 'Second';
+      await backend.save(board, { author: 'Grace', message: 'Renamed it' });
+      board.metadata.name = 'Third';
+      await backend.save(board);
+
+      const revisions = await backend.listRevisions('a');
+      expect(revisions).toHaveLength(3);
+      expect(revisions[1]).toMatchObject({
+        author: 'Grace',
+        message: 'Renamed it',
+      });
+      expect(revisions[0].author).toBe('Ada');
+      expect(revisions[0].message).toBeUndefined();
+      expect(new Set(revisions.map((r) => r.id)).size).toBe(3);
+    });
+
+    it('loads a board as it was at a revision', async () => {
+      const board = await backend.load('a');
+      board.metadata.name = 'Second';
+      await backend.save(board);
+
+      const [, first] = await backend.listRevisions('a');
+      const old = await backend.loadRevision('a', first.id);
+      expect(old.metadata.name).toBe('First');
+      expect((await backend.load('a')).metadata.name).toBe('Second');
+    });
+
+    it('is not affected by later edits to a saved object', async () => {
+      const board = await backend.load('a');
+      board.metadata.name = 'Saved';
+      await backend.save(board);
+      board.metadata.name = 'Edited after save';
+
+      const [latest] = await backend.listRevisions('a');
+      expect((await backend.loadRevision('a', latest.id)).metadata.name).toBe(
+        'Saved'
+      );
+    });
+
+    it('restores a revision as a new revision', async () => {
+      const board = await backend.load('a');
+      board.metadata.name = 'Second';
+      await backend.save(board);
+      const [, first] = await backend.listRevisions('a');
+
+      const restored = await backend.restoreRevision('a', first.id);
+      expect(restored.id).toBe('a');
+      expect(restored.metadata.name).toBe('First');
+      expect((await backend.load('a')).metadata.name).toBe('First');
+
+      const revisions = await backend.listRevisions('a');
+      expect(revisions).toHaveLength(3);
+      expect(revisions[0].message).toBe(`Restored revision ${first.id}`);
+
+      // The version that was replaced can itself be restored
+      await backend.restoreRevision('a', revisions[1].id, {
+        message: 'Undo restore',
+      });
+      expect((await backend.load('a')).metadata.name).toBe('Second');
+      expect((await backend.listRevisions('a'))[0].message).toBe(
+        'Undo restore'
+      );
+    });
+
+    it('records renames', async () => {
+      await backend.renameBoard('a', 'Renamed');
+      const [latest] = await backend.listRevisions('a');
+      expect(latest.message).toContain('Renamed');
+    });
+
+    it('throws for unknown boards and revisions', async () => {
+      await expect(backend.listRevisions('missing')).rejects.toThrow(
+        'not found'
+      );
+      await expect(backend.loadRevision('a', '999')).rejects.toThrow(
+        'not found'
+      );
+      await expect(backend.restoreRevision('a', '999')).rejects.toThrow(
+        'not found'
+      );
+    });
+
+    it('drops the history of deleted boards', async () => {
+      await backend.deleteBoard('a');
+      await backend.createBoard(makeBoard('a', 'Again'));
+      const revisions = await backend.listRevisions('a');
+      expect(revisions).toHaveLength(1);
+      expect(
+        (await backend.loadRevision('a', revisions[0].id)).metadata.name
+      ).toBe('Again');
+    });
+  }
+);
+
+describe('LocalStorageBackend revision limits', () => {
+  it('keeps only the newest maxRevisions', async () => {
+    const backend = new LocalStorageBackend('main', {
+      storage: new MapStorage(),
+      maxRevisions: 2,
+    });
+    await backend.createBoard(makeBoard('a', 'v1'));
+    const board = await backend.load('a');
+    for (const name of ['v2', 'v3', 'v4']) {
+      board.metadata.name = name;
+      await backend.save(board);
+    }
+
+    const revisions = await backend.listRevisions('a');
+    expect(revisions).toHaveLength(2);
+    const names = await Promise.all(
+      revisions.map(
+        async (r) => (await backend.loadRevision('a', r.id)).metadata.name
+      )
+    );
+    expect(names).toEqual(['v4', 'v3']);
+  });
+
+  it('keeps history across instances', async () => {
+    const storage = new MapStorage();
+    await new LocalStorageBackend('main', { storage }).createBoard(
+      makeBoard('a', 'First')
+    );
+    const second = new LocalStorageBackend('main', { storage });
+    expect(await second.listRevisions('a')).toHaveLength(1);
+  });
+});
+
+describe('ApiBackend revision protocol', () => {
+  it('sends the author and message with a save', async () => {
+    const server = new MockApiServer();
+    const backend = new ApiBackend({
+      baseUrl: 'http://boards.test',
+      boardId: 'a',
+      fetch: server.fetch,
+    });
+    await backend.save(makeBoard('a', 'First'), {
+      author: 'Grace',
+      message: 'Fix & tidy',
+    });
+
+    const put = server.requests[server.requests.length - 1];
+    const query = new URL(put.url).searchParams;
+    expect(query.get('author')).toBe('Grace');
+    expect(query.get('message')).toBe('Fix & tidy');
+    expect(server.revisions.get('a')?.list()[0].message).toBe('Fix & tidy');
+  });
+
+  it('lists no revisions for boards seeded directly', async () => {
+    const server = new MockApiServer();
+    server.boards.set('seeded', makeBoard('seeded', 'Seeded'));
+    const backend = new ApiBackend({
+      baseUrl: 'http://boards.test',
+      boardId: 'seeded',
+      fetch: server.fetch,
+    });
+    expect(await backend.listRevisions('seeded')).toEqual([]);
+  });
+});
+
+describe('CompositeBackend revision history', () => {
+  it('reads history from the layer that has the board', async () => {
+    const user = new MemoryBackend([]);
+    const shared = new MemoryBackend([makeBoard('template', 'Template')]);
+    const composite = new CompositeBackend({
+      primary: user,
+      secondaries: [shared],
+    });
+
+    const revisions = await composite.listRevisions('template');
+    expect(revisions).toHaveLength(1);
+    const board = await composite.loadRevision('template', revisions[0].id);
+    expect(board.metadata.name).toBe('Template');
+  });
+
+  it('lists nothing when no layer keeps history', async () => {
+    const plain: IBoardBackend = {
+      load: async () => makeBoard('x', 'X'),
+      save: async () => {},
+      listResourceFolder: async () => [],
+    };
+    const composite = new CompositeBackend({ primary: plain });
+    expect(await composite.listRevisions('x')).toEqual([]);
+    await expect(composite.restoreRevision('x', '1')).rejects.toThrow(
+      'does not support'
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Tests for the optional multi-board operations, run
+ * against every backend that implements them.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AlreadyExistsError,
+  CompositeBackend,
+  MemoryBackend,
+  NotFoundError,
+} from '@/backends';
+import type { IBoardBackend } from '@/editor/types';
+import { describeBackends, makeBoard } from './backend-contract';
+
+type ManagedBackend = Required<
+  Pick<
+    IBoardBackend,
+    'listBoards' | 'createBoard' | 'duplicateBoard' | 'renameBoard'
+  >
+> &
+  IBoardBackend & { deleteBoard(boardId: string): Promise<void> };
+
+describeBackends(
+  'board management',
+  ['MemoryBackend', 'LocalStorageBackend', 'ApiBackend', 'CompositeBackend'],
+  (factory) => {
+    let backend: ManagedBackend;
+
+    beforeEach(() => {
+      backend = factory();
+    });
+
+    it('starts with no boards', async () => {
+      expect(await backend.listBoards()).toEqual([]);
+    });
+
+    it('creates boards and lists their summaries', async () => {
+      const summary = await backend.createBoard(makeBoard('a', 'Alpha'));
+      expect(summary.id).toBe('a');
+      expect(summary.name).toBe('Alpha');
+      expect(summary.created).toBeDefined();
+      expect(summary.modified).toBeDefined();
+
+      await backend.createBoard(makeBoard('b', 'Beta'));
+      const boards = await backend.listBoards();
+      expect(boards.map((b) => b.id).sort()).toEqual(['a', 'b']);
+      expect(boards.find((b) => b.id === 'a')?.description).toBe(
+        'Alpha description'
+      );
+    });
+
+    it('refuses to create a board with a taken ID', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      await expect(
+        backend.createBoard(makeBoard('a', 'Again'))
+      ).rejects.toThrow('already exists');
+      expect((await backend.load('a')).metadata.name).toBe('Alpha');
+    });
+
+    it('loads boards by ID and throws for unknown IDs', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      expect((await backend.load('a')).metadata.name).toBe('Alpha');
+      await expect(backend.load('missing')).rejects.toThrow('not found');
+    });
+
+    it('duplicates a board as an independent copy', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      const copy = await backend.duplicateBoard('a', 'a2');
+      expect(copy.id).toBe('a2');
+      expect(copy.name).toBe('Alpha (copy)');
+
+      const loaded = await backend.load('a2');
+      expect(loaded.id).toBe('a2');
+      loaded.metadata.name = 'Edited copy';
+      await backend.save(loaded);
+      expect((await backend.load('a')).metadata.name).toBe('Alpha');
+    });
+
+    it('duplicates with an explicit name', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      const copy = await backend.duplicateBoard('a', 'a2', 'Gamma');
+      expect(copy.name).toBe('Gamma');
+    });
+
+    it('refuses to duplicate onto a taken ID', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      await backend.createBoard(makeBoard('b', 'Beta'));
+      await expect(backend.duplicateBoard('a', 'b')).rejects.toThrow(
+        'already exists'
+      );
+      expect((await backend.load('b')).metadata.name).toBe('Beta');
+    });
+
+    it('renames a board without changing its ID', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      const summary = await backend.renameBoard('a', 'Renamed');
+      expect(summary).toMatchObject({ id: 'a', name: 'Renamed' });
+      expect((await backend.load('a')).metadata.name).toBe('Renamed');
+    });
+
+    it('deletes boards and throws for unknown IDs', async () => {
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      await backend.deleteBoard('a');
+      expect(await backend.listBoards()).toEqual([]);
+      await expect(backend.load('a')).rejects.toThrow('not found');
+      await expect(backend.deleteBoard('a')).rejects.toThrow('not found');
+    });
+  }
+);
+
+describe('MemoryBackend defaults', () => {
+  it('starts with the example board as its default', async () => {
+    const backend = new MemoryBackend();
+    const board = await backend.load();
+    expect(board.id).toBe(backend.defaultBoardId);
+    expect(await backend.listBoards()).toHaveLength(1);
+  });
+
+  it('does not share references with the initial boards', async () => {
+    const initial = makeBoard('a', 'Alpha');
+    const backend = new MemoryBackend([initial]);
+    initial.metadata.name = 'Mutated';
+    expect((await backend.load()).metadata.name).toBe('Alpha');
+  });
+});
+
+describe('CompositeBackend board management', () => {
+  it('duplicates a shared board into the write target', async () => {
+    const user = new MemoryBackend([]);
+    const shared = new MemoryBackend([makeBoard('template', 'Template')]);
+    const composite = new CompositeBackend({
+      primary: user,
+      secondaries: [shared],
+    });
+
+    await composite.duplicateBoard('template', 'mine', 'Mine');
+    expect((await user.load('mine')).metadata.name).toBe('Mine');
+    expect((await composite.listBoards()).map((b) => b.id)).toEqual([
+      'mine',
+      'template',
+    ]);
+    expect(await shared.listBoards()).toHaveLength(1);
+  });
+
+  it('reports write targets without management support', async () => {
+    const readOnly: IBoardBackend = {
+      load: async () => makeBoard('x', 'X'),
+      save: async () => {},
+      listResourceFolder: async () => [],
+    };
+    const composite = new CompositeBackend({ primary: readOnly });
+    await expect(composite.deleteBoard('x')).rejects.toThrow(
+      'does not support'
+    );
+    expect(await composite.listBoards()).toEqual([]);
+  });
+});
+
+describeBackends(
+  'board errors',
+  ['MemoryBackend', 'LocalStorageBackend'],
+  (factory) => {
+    it('throws typed errors', async () => {
+      const backend = factory();
+      await backend.createBoard(makeBoard('a', 'Alpha'));
+      await expect(backend.load('missing')).rejects.toThrow(NotFoundError);
+      await expect(backend.deleteBoard('missing')).rejects.toThrow(
+        NotFoundError
+      );
+      await expect(
+        backend.createBoard(makeBoard('a', 'Again'))
+      ).rejects.toThrow(AlreadyExistsError);
+      await expect(backend.duplicateBoard('a', 'a')).rejects.toThrow(
+        AlreadyExistsError
+      );
+    });
+  }
+);
@@ -0,0 +1,173 @@
+/**
+ * Tests for layering backends with CompositeBackend.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CompositeBackend } from '@/backends';
+import type {
+  BoardDefinition,
+  FileMetadata,
+  IBoardBackend,
+  SystemTheme,
+} from '@/editor/types';
+
+/** Minimal backend with directly seeded state */
+class StubBackend implements IBoardBackend {
+  board: BoardDefinition | null = null;
+  folders = new Map<string, FileMetadata[]>();
+  themes: SystemTheme[] | null = null;
+  saved: BoardDefinition[] = [];
+
+  async load(): Promise<BoardDefinition> {
+    if (!this.board) {
+      throw new Error('Board not found');
+    }
+    return this.board;
+  }
+
+  async save(board: BoardDefinition): Promise<void> {
+    this.saved.push(board);
+  }
+
+  async listResourceFolder(folder: string): Promise<FileMetadata[]> {
+    const items = this.folders.get(folder);
+    if (!items) {
+      throw new Error('No such folder ' + folder);
+    }
+    return items;
+  }
+}
+
+class ThemedStub extends StubBackend {
+  async getSystemThemes(): Promise<SystemTheme[]> {
+    if (!this.themes) {
+      throw new Error('Themes unavailable');
+    }
+    return this.themes;
+  }
+}
+
+function makeBoard(name: string): BoardDefinition {
+  return {
+    id: 'b1',
+    metadata: { name },
+    rootComponent: null,
+    bindings: [],
+  };
+}
+
+function file(name: string, url: string): FileMetadata {
+  return { name, url, size: 1, type: 'file' };
+}
+
+describe('CompositeBackend', () => {
+  let user: ThemedStub;
+  let shared: ThemedStub;
+  let composite: CompositeBackend;
+
+  beforeEach(() => {
+    user = new ThemedStub();
+    shared = new ThemedStub();
+    composite = new CompositeBackend({ primary: user, secondaries: [shared] });
+  });
+
+  describe('load', () => {
+    it('prefers the primary backend', async () => {
+      user.board = makeBoard('User');
+      shared.board = makeBoard('Shared');
+      expect((await composite.load()).metadata.name).toBe('User');
+    });
+
+    it('falls back to secondaries in order', async () => {
+      shared.board = makeBoard('Shared');
+      expect((await composite.load()).metadata.name).toBe('Shared');
+    });
+
+    it("rethrows the primary's error if no layer has the board", async () => {
+      await expect(composite.load()).rejects.toThrow('Board not found');
+    });
+  });
+
+  describe('save', () => {
+    it('writes to the primary by default', async () => {
+      await composite.save(makeBoard('New'));
+      expect(user.saved).toHaveLength(1);
+      expect(shared.saved).toHaveLength(0);
+    });
+
+    it('writes to the configured target', async () => {
+      const target = new StubBackend();
+      const routed = new CompositeBackend({
+        primary: user,
+        secondaries: [shared],
+        writeTarget: target,
+      });
+      await routed.save(makeBoard('New'));
+      expect(target.saved).toHaveLength(1);
+      expect(user.saved).toHaveLength(0);
+    });
+  });
+
+  describe('listResourceFolder', () => {
+    it('merges listings with the earlier layer winning', async () => {
+      user.folders.set('/', [file('logo.png', 'user://logo.png')]);
+      shared.folders.set('/', [
+        file('logo.png', 'shared://logo.png'),
+        file('theme.css', 'shared://theme.css'),
+      ]);
+
+      const items = await composite.listResourceFolder('/');
+      expect(items).toEqual([
+        file('logo.png', 'user://logo.png'),
+        file('theme.css', 'shared://theme.css'),
+      ]);
+    });
+
+    it('skips layers that do not have the folder', async () => {
+      shared.folders.set('/themes', [file('a.css', 'shared://a.css')]);
+      const items = await composite.listResourceFolder('/themes');
+      expect(items.map((i) => i.name)).toEqual(['a.css']);
+    });
+
+    it('throws if no layer has the folder', async () => {
+      await expect(composite.listResourceFolder('/nope')).rejects.toThrow(
+        'No such folder /nope'
+      );
+    });
+  });
+
+  describe('getSystemThemes', () => {
+    it('concatenates themes and drops later duplicates', async () => {
+      user.themes = [{ name: 'Dark', url: 'user://dark.css' }];
+      shared.themes = [
+        { name: 'Dark', url: 'shared://dark.css' },
+        { name: 'Light', url: 'shared://light.css' },
+      ];
+      expect(await composite.getSystemThemes()).toEqual([
+        { name: 'Dark', url: 'user://dark.css' },
+        { name: 'Light', url: 'shared://light.css' },
+      ]);
+    });
+
+    it('ignores layers without theme support', async () => {
+      const plain = new StubBackend();
+      shared.themes = [{ name: 'Light', url: 'shared://light.css' }];
+      const mixed = new CompositeBackend({
+        primary: plain,
+        secondaries: [shared],
+      });
+      expect(await mixed.getSystemThemes()).toHaveLength(1);
+    });
+
+    it('returns an empty list when no layer provides themes', async () => {
+      const bare = new CompositeBackend({ primary: new StubBackend() });
+      expect(await bare.getSystemThemes()).toEqual([]);
+    });
+
+    it('throws if every theme provider fails', async () => {
+      await expect(composite.getSystemThemes()).rejects.toThrow(
+        'Themes unavailable'
+      );
+    });
+  });
+});
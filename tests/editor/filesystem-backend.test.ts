@@ -0,0 +1,216 @@
+/**
+ * Tests for the filesystem backend and the board server
+ */
+
+import { describe, it, expect, beforeEach, afterAll } from 'vitest';
+import { existsSync, readFileSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { AlreadyExistsError, ApiBackend, ApiHttpError } from '@/backends';
+import {
+  FileSystemBackend,
+  createBoardHandler,
+  startBoardServer,
+} from '@/backends/node';
+import type { BoardDefinition } from '@/editor/types';
+import {
+  makeTempDir,
+  removeTempDirs,
+  tempServerBackend,
+} from './temp-board-server';
+
+function makeBoard(id: string): BoardDefinition {
+  return {
+    id,
+    metadata: { name: id },
+    rootComponent: { id: 'root', type: 'plain-layout', config: {} },
+    bindings: [],
+  };
+}
+
+async function names(backend: FileSystemBackend, folder: string) {
+  return (await backend.listResourceFolder(folder)).map((i) => i.name);
+}
+
+afterAll(removeTempDirs);
+
+describe('FileSystemBackend', () => {
+  let root: string;
+  let backend: FileSystemBackend;
+
+  beforeEach(() => {
+    root = makeTempDir();
+    backend = new FileSystemBackend({ root });
+  });
+
+  it('stores each board as a JSON file', async () => {
+    await backend.createBoard(makeBoard('a'));
+    const stored = JSON.parse(
+      readFileSync(join(root, 'boards', 'a.json'), 'utf8')
+    ) as BoardDefinition;
+    expect(stored.metadata.name).toBe('a');
+
+    const reopened = new FileSystemBackend({ root });
+    expect((await reopened.listBoards()).map((b) => b.id)).toEqual(['a']);
+    expect((await reopened.listRevisions('a'))[0].message).toBe('Created');
+  });
+
+  it('leaves no temporary files behind', async () => {
+    await backend.createBoard(makeBoard('a'));
+    const board = await backend.load('a');
+    await backend.save(board);
+    await backend.uploadResource('/a.txt', new Blob(['a']));
+    expect(readdirSync(join(root, 'boards'))).toEqual(['a.json']);
+    expect(readdirSync(join(root, 'history'))).toEqual(['a.json']);
+    expect(readdirSync(join(root, 'resources'))).toEqual(['a.txt']);
+  });
+
+  it('encodes board IDs so they cannot escape the boards folder', async () => {
+    await backend.createBoard(makeBoard('../../escape'));
+    await backend.createBoard(makeBoard('.hidden'));
+    expect(existsSync(join(root, 'escape.json'))).toBe(false);
+    expect((await backend.listBoards()).map((b) => b.id).sort()).toEqual([
+      '../../escape',
+      '.hidden',
+    ]);
+  });
+
+  it('keeps resources as real files with server URLs', async () => {
+    const item = await backend.uploadResource(
+      '/img/my logo.png',
+      new Blob([new Uint8Array([137, 80, 78, 71])])
+    );
+    expect(item).toEqual({
+      name: 'my logo.png',
+      url: '/resources/img/my%20logo.png',
+      size: 4,
+      type: 'file',
+    });
+    expect([
+      ...readFileSync(join(root, 'resources', 'img', 'my logo.png')),
+    ]).toEqual([137, 80, 78, 71]);
+    expect(await backend.listResourceFolder('/img')).toEqual([item]);
+  });
+
+  it('lists, moves and deletes folders', async () => {
+    await backend.uploadResource('/old/a.txt', new Blob(['a']));
+    await backend.createResourceFolder('/old/empty');
+    await backend.renameResource('/old', '/new');
+    expect(await names(backend, '/')).toEqual(['new']);
+    expect(await names(backend, '/new')).toEqual(['empty', 'a.txt']);
+
+    await expect(backend.deleteResource('/new')).rejects.toThrow('not empty');
+    await backend.deleteResource('/new/a.txt');
+    await backend.deleteResource('/new/empty');
+    expect(await names(backend, '/new')).toEqual([]);
+    await expect(backend.listResourceFolder('/old')).rejects.toThrow(
+      'No such folder'
+    );
+  });
+
+  it('refuses to overwrite on rename', async () => {
+    await backend.uploadResource('/a.txt', new Blob(['a']));
+    await backend.uploadResource('/b.txt', new Blob(['b']));
+    await expect(backend.renameResource('/a.txt', '/b.txt')).rejects.toThrow(
+      AlreadyExistsError
+    );
+    await expect(
+      backend.renameResource('/a.txt', '/a.txt/c')
+    ).rejects.toThrow();
+  });
+
+  it('rejects resource paths outside the resources folder', async () => {
+    for (const path of ['/../escape.txt', '/a/../../b', '/a\\..\\b']) {
+      await expect(
+        backend.uploadResource(path, new Blob(['x']))
+      ).rejects.toThrow('Invalid resource path');
+    }
+    expect(() => backend.resourceFile('/../boards/a.json')).toThrow();
+  });
+});
+
+describe('board server', () => {
+  it('serves the ApiBackend protocol', async () => {
+    const client = tempServerBackend();
+    await client.createBoard(makeBoard('a'));
+    const board = await client.load('a');
+    board.metadata.name = 'Saved';
+    await client.save(board, { message: 'Edit' });
+    expect((await client.load('a')).metadata.name).toBe('Saved');
+    expect((await client.listRevisions('a'))[0].message).toBe('Edit');
+  });
+
+  it('serves resource files with their content type', async () => {
+    const root = makeTempDir();
+    const handler = createBoardHandler(
+      new FileSystemBackend({ root, resourceBaseUrl: '/api/resources' }),
+      { basePath: '/api' }
+    );
+    const fetch = async (input: RequestInfo | URL, init?: RequestInit) =>
+      (await handler(new Request(input, init)))!;
+    const client = new ApiBackend({
+      baseUrl: 'http://boards.test/api',
+      boardId: 'main',
+      fetch,
+    });
+
+    const item = await client.uploadResource('/theme.css', new Blob(['a{}']));
+    expect(item.url).toBe('/api/resources/theme.css');
+    const response = await fetch('http://boards.test' + item.url);
+    expect(response.headers.get('Content-Type')).toMatch(/^text\/css/);
+    expect(await response.text()).toBe('a{}');
+
+    for (const path of ['%2e%2e/boards/main.json', '..%2Fboards%2Fmain.json']) {
+      const escaped = await fetch(`http://boards.test/api/resources/${path}`);
+      expect([400, 404]).toContain(escaped.status);
+    }
+    expect(
+      await handler(new Request('http://boards.test/other/boards'))
+    ).toBeNull();
+  });
+
+  it('rejects invalid boards', async () => {
+    const client = tempServerBackend();
+    const invalid = { id: 'a', metadata: {} } as BoardDefinition;
+    const error = await client.createBoard(invalid).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ApiHttpError);
+    expect((error as ApiHttpError).status).toBe(400);
+    await expect(client.load('missing')).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+
+  it('answers with a status for the kind of error', async () => {
+    const client = tempServerBackend();
+    await client.createBoard(makeBoard('a'));
+    await expect(client.createBoard(makeBoard('a'))).rejects.toMatchObject({
+      status: 409,
+    });
+    await expect(client.deleteBoard('missing')).rejects.toMatchObject({
+      status: 404,
+    });
+    await client.uploadResource('/full/a.txt', new Blob(['a']));
+    await expect(client.deleteResource('/full')).rejects.toMatchObject({
+      status: 400,
+    });
+  });
+
+  it('listens over HTTP', async () => {
+    const server = await startBoardServer({ root: makeTempDir(), port: 0 });
+    try {
+      const { port } = server.address() as AddressInfo;
+      const client = new ApiBackend({
+        baseUrl: `http://127.0.0.1:${port}`,
+        boardId: 'main',
+      });
+      await client.createBoard(makeBoard('a'));
+      expect((await client.listBoards()).map((b) => b.id)).toEqual(['a']);
+
+      const item = await client.uploadResource('/a.txt', new Blob(['hi']));
+      const response = await fetch(`http://127.0.0.1:${port}${item.url}`);
+      expect(await response.text()).toBe('hi');
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tests for the IndexedDB backend, against fake-indexeddb
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { IndexedDbBackend } from '@/backends';
+import type { BoardDefinition } from '@/editor/types';
+
+function makeBoard(id: string, src = ''): BoardDefinition {
+  return {
+    id,
+    metadata: { name: id },
+    rootComponent: {
+      id: 'root',
+      type: 'plain-layout',
+      config: {},
+      children: [{ id: 'logo', type: 'image', config: { src } }],
+    },
+    bindings: [],
+  };
+}
+
+function imageSrc(board: BoardDefinition): unknown {
+  return board.rootComponent!.children![0].config!.src;
+}
+
+async function names(backend: IndexedDbBackend, folder: string) {
+  return (await backend.listResourceFolder(folder)).map((i) => i.name);
+}
+
+describe('IndexedDbBackend', () => {
+  let backend: IndexedDbBackend;
+
+  beforeEach(() => {
+    indexedDB = new IDBFactory();
+    backend = new IndexedDbBackend('main');
+  });
+
+  it('returns the initial board until one is saved', async () => {
+    const initial = new IndexedDbBackend('main', {
+      databaseName: 'other',
+      initialBoard: makeBoard('ignored'),
+    });
+    expect((await initial.load()).id).toBe('main');
+    await expect(initial.load('missing')).rejects.toThrow('Board not found');
+  });
+
+  it('keeps boards across instances', async () => {
+    await backend.createBoard(makeBoard('a'));
+    await backend.createBoard(makeBoard('b'));
+    await backend.close();
+
+    const reopened = new IndexedDbBackend('main');
+    expect((await reopened.listBoards()).map((b) => b.id)).toEqual(['a', 'b']);
+    expect((await reopened.load('a')).metadata.name).toBe('a');
+  });
+
+  it('stores resources as blobs served from object URLs', async () => {
+    const item = await backend.uploadResource(
+      '/img/logo.png',
+      new Blob([new Uint8Array([137, 80, 78, 71])])
+    );
+    expect(item).toMatchObject({ name: 'logo.png', size: 4, type: 'file' });
+    expect(item.url).toMatch(/^blob:/);
+
+    const response = await fetch(item.url!);
+    expect(response.headers.get('content-type')).toBe('image/png');
+    expect([...new Uint8Array(await response.arrayBuffer())]).toEqual([
+      137, 80, 78, 71,
+    ]);
+
+    const [listed] = await backend.listResourceFolder('/img');
+    expect(listed.url).toBe(item.url);
+  });
+
+  it('nests folders', async () => {
+    await backend.createResourceFolder('/a/b/empty');
+    await backend.uploadResource('/a/b/c.txt', new Blob(['c']));
+    expect(await names(backend, '/')).toEqual(['a']);
+    expect(await names(backend, '/a')).toEqual(['b']);
+    expect(await names(backend, '/a/b')).toEqual(['empty', 'c.txt']);
+    expect(await backend.listResourceFolder('/a/b/empty')).toEqual([]);
+  });
+
+  it('moves folders with their files and keeps the URLs', async () => {
+    const item = await backend.uploadResource('/old/a.txt', new Blob(['a']));
+    await backend.createResourceFolder('/old/empty');
+    await backend.renameResource('/old', '/new');
+
+    expect(await names(backend, '/')).toEqual(['new']);
+    const listed = await backend.listResourceFolder('/new');
+    expect(listed.map((i) => i.name)).toEqual(['empty', 'a.txt']);
+    expect(listed[1].url).toBe(item.url);
+    expect(await (await fetch(item.url!)).text()).toBe('a');
+  });
+
+  it('deletes files and empty folders', async () => {
+    await backend.uploadResource('/a.txt', new Blob(['a']));
+    await backend.createResourceFolder('/empty');
+    await expect(backend.deleteResource('/missing')).rejects.toThrow(
+      'not found'
+    );
+    await backend.deleteResource('/a.txt');
+    await backend.deleteResource('/empty');
+    expect(await backend.listResourceFolder('/')).toEqual([]);
+  });
+
+  it('replaces files and revokes the old URL', async () => {
+    const first = await backend.uploadResource('/a.txt', new Blob(['one']));
+    const second = await backend.uploadResource('/a.txt', new Blob(['two']));
+    expect(second.url).not.toBe(first.url);
+    expect(await (await fetch(second.url!)).text()).toBe('two');
+    await expect(fetch(first.url!)).rejects.toThrow();
+  });
+
+  it('rejects paths that escape the resource root', async () => {
+    await expect(
+      backend.uploadResource('/../escape.txt', new Blob(['x']))
+    ).rejects.toThrow('Invalid resource path');
+  });
+
+  it('keeps resource references valid across sessions', async () => {
+    const item = await backend.uploadResource('/logo.png', new Blob(['png']));
+    await backend.createBoard(makeBoard('a', item.url));
+    expect(imageSrc(await backend.load('a'))).toBe(item.url);
+    await backend.close();
+
+    // The old object URL is gone, but the board points at
+    // the new URL of the same file
+    const reopened = new IndexedDbBackend('main');
+    const src = imageSrc(await reopened.load('a'));
+    expect(src).not.toBe(item.url);
+    expect(src).toMatch(/^blob:/);
+    expect(await (await fetch(src as string)).text()).toBe('png');
+
+    const [revision] = await reopened.listRevisions('a');
+    expect(imageSrc(await reopened.loadRevision('a', revision.id))).toBe(src);
+  });
+});
@@ -0,0 +1,168 @@
+// @vitest-environment jsdom
+/**
+ * Tests for the localStorage board backend.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { LocalStorageBackend } from '@/backends';
+import type { BoardDefinition } from '@/editor/types';
+
+const sampleBoard: BoardDefinition = {
+  id: 'kiosk',
+  metadata: {
+    name: 'Kiosk Board',
+    created: new Date().toISOString(),
+    modified: new Date().toISOString(),
+  },
+  rootComponent: {
+    id: 'root',
+    type: 'plain-layout',
+    config: {},
+    children: [{ id: 'comp1', type: 'slider', config: { min: 0 } }],
+  },
+  bindings: [],
+};
+
+describe('LocalStorageBackend', () => {
+  let backend: LocalStorageBackend;
+
+  beforeEach(() => {
+    localStorage.clear();
+    backend = new LocalStorageBackend('kiosk');
+  });
+
+  describe('load', () => {
+    it('throws for a board that was never saved', async () => {
+      await expect(backend.load()).rejects.toThrow('not found');
+    });
+
+    it('returns a copy of initialBoard when nothing is saved', async () => {
+      const withInitial = new LocalStorageBackend('other', {
+        initialBoard: sampleBoard,
+      });
+      const loaded = await withInitial.load();
+      expect(loaded.id).toBe('other');
+      expect(loaded.metadata.name).toBe('Kiosk Board');
+
+      loaded.metadata.name = 'Changed';
+      const reloaded = await withInitial.load();
+      expect(reloaded.metadata.name).toBe('Kiosk Board');
+      expect(sampleBoard.id).toBe('kiosk');
+    });
+  });
+
+  describe('save', () => {
+    it('persists across backend instances', async () => {
+      await backend.save(structuredClone(sampleBoard));
+
+      const reopened = new LocalStorageBackend('kiosk');
+      const loaded = await reopened.load();
+      expect(loaded.metadata.name).toBe('Kiosk Board');
+      expect(loaded.rootComponent?.children?.[0].id).toBe('comp1');
+    });
+
+    it('updates the modified timestamp', async () => {
+      const board = structuredClone(sampleBoard);
+      board.metadata.modified = '2000-01-01T00:00:00.000Z';
+      await backend.save(board);
+      const loaded = await backend.load();
+      expect(loaded.metadata.modified).not.toBe('2000-01-01T00:00:00.000Z');
+    });
+
+    it('does not share references with the saved board', async () => {
+      const board = structuredClone(sampleBoard);
+      await backend.save(board);
+      board.metadata.name = 'Mutated';
+      const loaded = await backend.load();
+      expect(loaded.metadata.name).toBe('Kiosk Board');
+    });
+
+    it('stores boards with other IDs under their own keys', async () => {
+      const board = { ...structuredClone(sampleBoard), id: 'other' };
+      await backend.save(board);
+      expect((await backend.load('other')).id).toBe('other');
+      await expect(backend.load()).rejects.toThrow('not found');
+    });
+
+    it('keeps boards with different IDs separate', async () => {
+      await backend.save(structuredClone(sampleBoard));
+      const other = new LocalStorageBackend('other');
+      await expect(other.load()).rejects.toThrow('not found');
+    });
+
+    it('uses the configured key prefix', async () => {
+      const prefixed = new LocalStorageBackend('kiosk', { prefix: 'app_' });
+      await prefixed.save(structuredClone(sampleBoard));
+      expect(localStorage.getItem('app_board_kiosk')).not.toBeNull();
+      expect(localStorage.getItem('dashbeard_board_kiosk')).toBeNull();
+    });
+  });
+
+  describe('listResourceFolder', () => {
+    it('returns an empty root folder by default', async () => {
+      expect(await backend.listResourceFolder('/')).toEqual([]);
+    });
+
+    it('lists files and implied subfolders', async () => {
+      backend.addResource('/logo.png', 'data:image/png;base64,AAAA', 3);
+      backend.addResource('/images/a.png', 'data:image/png;base64,BBBB');
+      backend.addResource('/images/deep/b.png', 'data:image/png;base64,C');
+
+      const root = await backend.listResourceFolder('/');
+      expect(root).toEqual([
+        { name: 'images', size: 0, type: 'folder' },
+        {
+          name: 'logo.png',
+          url: 'data:image/png;base64,AAAA',
+          size: 3,
+          type: 'file',
+        },
+      ]);
+
+      const images = await backend.listResourceFolder('/images/');
+      expect(images.map((i) => i.name)).toEqual(['deep', 'a.png']);
+    });
+
+    it('persists resources across backend instances', async () => {
+      backend.addResource('/red.css', 'data:text/css,a');
+      const reopened = new LocalStorageBackend('kiosk');
+      const items = await reopened.listResourceFolder('/');
+      expect(items).toHaveLength(1);
+      expect(items[0].url).toBe('data:text/css,a');
+    });
+
+    it('throws for a missing folder', async () => {
+      await expect(backend.listResourceFolder('/nope')).rejects.toThrow(
+        'No such folder'
+      );
+    });
+
+    it('rejects parent directory segments', () => {
+      expect(() => backend.addResource('/../x.png', 'data:,')).toThrow(
+        'Invalid resource path'
+      );
+    });
+  });
+
+  describe('getSystemThemes', () => {
+    it('returns configured themes as copies', async () => {
+      const themed = new LocalStorageBackend('kiosk', {
+        systemThemes: [{ name: 'Red', url: '/themes/red.css' }],
+      });
+      const themes = await themed.getSystemThemes();
+      expect(themes).toEqual([{ name: 'Red', url: '/themes/red.css' }]);
+      themes[0].name = 'Changed';
+      expect((await themed.getSystemThemes())[0].name).toBe('Red');
+    });
+  });
+
+  describe('clear', () => {
+    it('removes the board and its resources', async () => {
+      await backend.save(structuredClone(sampleBoard));
+      backend.addResource('/logo.png', 'data:,');
+      backend.clear();
+      await expect(backend.load()).rejects.toThrow('not found');
+      expect(await backend.listResourceFolder('/')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Tests for the optional resource write operations, run
+ * against every backend that implements them.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CompositeBackend,
+  LocalStorageBackend,
+  MemoryBackend,
+} from '@/backends';
+import type { IBoardBackend } from '@/editor/types';
+import { MapStorage } from './map-storage';
+import { describeBackends } from './backend-contract';
+
+type WritableBackend = IBoardBackend &
+  Required<
+    Pick<
+      IBoardBackend,
+      | 'uploadResource'
+      | 'deleteResource'
+      | 'renameResource'
+      | 'createResourceFolder'
+    >
+  >;
+
+async function names(backend: IBoardBackend, folder: string) {
+  return (await backend.listResourceFolder(folder)).map((i) => i.name);
+}
+
+describeBackends(
+  'resource writes',
+  ['MemoryBackend', 'LocalStorageBackend', 'ApiBackend', 'CompositeBackend'],
+  (factory) => {
+    let backend: WritableBackend;
+
+    beforeEach(() => {
+      backend = factory();
+    });
+
+    it('uploads a blob and serves it as a data URL', async () => {
+      const blob = new Blob(['body{}'], { type: 'text/css' });
+      const item = await backend.uploadResource('/theme.css', blob);
+      expect(item).toMatchObject({ name: 'theme.css', size: 6, type: 'file' });
+      expect(item.url).toBe('data:text/css;base64,' + btoa('body{}'));
+
+      const listed = await backend.listResourceFolder('/');
+      expect(listed.find((i) => i.name === 'theme.css')?.url).toBe(item.url);
+    });
+
+    it('guesses the MIME type from the name for untyped blobs', async () => {
+      const item = await backend.uploadResource(
+        '/pixel.png',
+        new Blob([new Uint8Array([137, 80, 78, 71])])
+      );
+      expect(item.url).toMatch(/^data:image\/png;base64,/);
+
+      const photo = await backend.uploadResource(
+        '/img/Photo.JPG',
+        new Blob(['x'])
+      );
+      expect(photo.url).toMatch(/^data:image\/jpeg;base64,/);
+      const unknown = await backend.uploadResource(
+        '/data.xyz',
+        new Blob(['x'])
+      );
+      expect(unknown.url).toMatch(/^data:application\/octet-stream;base64,/);
+    });
+
+    it('replaces an existing file on upload', async () => {
+      await backend.uploadResource('/a.txt', new Blob(['one']));
+      await backend.uploadResource('/a.txt', new Blob(['three']));
+      const items = await backend.listResourceFolder('/');
+      const file = items.find((i) => i.name === 'a.txt');
+      expect(file?.size).toBe(5);
+      expect(items.filter((i) => i.name === 'a.txt')).toHaveLength(1);
+    });
+
+    it('creates empty folders that can be listed', async () => {
+      await backend.createResourceFolder('/img');
+      expect(await names(backend, '/')).toContain('img');
+      expect(await backend.listResourceFolder('/img')).toEqual([]);
+
+      // Creating it again is not an error
+      await backend.createResourceFolder('/img');
+    });
+
+    it('uploads into nested folders', async () => {
+      await backend.uploadResource('/img/icons/a.png', new Blob(['x']));
+      expect(await names(backend, '/img')).toEqual(['icons']);
+      expect(await names(backend, '/img/icons')).toEqual(['a.png']);
+    });
+
+    it('renames and moves files', async () => {
+      await backend.uploadResource('/a.txt', new Blob(['a']));
+      const moved = await backend.renameResource('/a.txt', '/docs/b.txt');
+      expect(moved.name).toBe('b.txt');
+      expect(await names(backend, '/')).not.toContain('a.txt');
+      expect(await names(backend, '/docs')).toEqual(['b.txt']);
+    });
+
+    it('renames folders with their contents', async () => {
+      await backend.uploadResource('/old/a.txt', new Blob(['a']));
+      await backend.createResourceFolder('/old/empty');
+      await backend.renameResource('/old', '/new');
+      expect(await names(backend, '/new')).toEqual(['empty', 'a.txt']);
+      await expect(backend.listResourceFolder('/old')).rejects.toThrow(
+        'No such folder'
+      );
+    });
+
+    it('refuses to rename onto an existing resource', async () => {
+      await backend.uploadResource('/a.txt', new Blob(['a']));
+      await backend.uploadResource('/b.txt', new Blob(['b']));
+      await expect(backend.renameResource('/a.txt', '/b.txt')).rejects.toThrow(
+        'already exists'
+      );
+      expect(await names(backend, '/')).toEqual(
+        expect.arrayContaining(['a.txt', 'b.txt'])
+      );
+    });
+
+    it('deletes files and empty folders', async () => {
+      await backend.uploadResource('/a.txt', new Blob(['a']));
+      await backend.createResourceFolder('/empty');
+      await backend.deleteResource('/a.txt');
+      await backend.deleteResource('/empty');
+      const left = await names(backend, '/');
+      expect(left).not.toContain('a.txt');
+      expect(left).not.toContain('empty');
+    });
+
+    it('refuses to delete a folder that is not empty', async () => {
+      await backend.uploadResource('/full/a.txt', new Blob(['a']));
+      await expect(backend.deleteResource('/full')).rejects.toThrow(
+        'not empty'
+      );
+      expect(await names(backend, '/full')).toEqual(['a.txt']);
+    });
+
+    it('throws when deleting something that does not exist', async () => {
+      await expect(backend.deleteResource('/nope.txt')).rejects.toThrow(
+        'not found'
+      );
+    });
+
+    it('rejects paths that escape the resource root', async () => {
+      await expect(
+        backend.uploadResource('/../escape.txt', new Blob(['x']))
+      ).rejects.toThrow('Invalid resource path');
+    });
+  }
+);
+
+describe('LocalStorageBackend resource persistence', () => {
+  it('keeps uploads and empty folders across instances', async () => {
+    const storage = new MapStorage();
+    const first = new LocalStorageBackend('main', { storage });
+    await first.uploadResource('/a.txt', new Blob(['a']));
+    await first.createResourceFolder('/empty');
+
+    const second = new LocalStorageBackend('main', { storage });
+    expect(await names(second, '/')).toEqual(['empty', 'a.txt']);
+  });
+});
+
+describe('CompositeBackend resource writes', () => {
+  it('writes to the target while listing shared resources', async () => {
+    const user = new LocalStorageBackend('main', {
+      storage: new MapStorage(),
+    });
+    const shared = new MemoryBackend();
+    const composite = new CompositeBackend({
+      primary: user,
+      secondaries: [shared],
+    });
+
+    await composite.uploadResource('/mine.txt', new Blob(['m']));
+    expect(await names(user, '/')).toEqual(['mine.txt']);
+    expect(await names(composite, '/')).toEqual(
+      expect.arrayContaining(['mine.txt', 'dot.png', 'red.css'])
+    );
+  });
+
+  it('reports write targets without resource support', async () => {
+    const readOnly: IBoardBackend = {
+      load: () => Promise.reject(new Error('unused')),
+      save: async () => {},
+      listResourceFolder: async () => [],
+    };
+    const composite = new CompositeBackend({ primary: readOnly });
+    await expect(
+      composite.uploadResource('/a.txt', new Blob(['a']))
+    ).rejects.toThrow('does not support');
+  });
+});
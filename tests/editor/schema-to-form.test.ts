@@ -294,3 +294,83 @@ describe('schemaToFormFields', () => {
     expect(result).toBeDefined();
   });
 });
+
+describe('expression mode', () => {
+  const clickToggle = (result: ReturnType<typeof schemaToFormField>) => {
+    const onClick = result.values.find((v) => typeof v === 'function');
+    (onClick as () => void)();
+  };
+
+  it('is only offered when asked for', () => {
+    const schema: PropertySchema = { type: 'string' };
+    const plain = schemaToFormField('label', 'Hi', schema, vi.fn());
+    const offered = schemaToFormField('label', 'Hi', schema, vi.fn(), {
+      expressions: true,
+    });
+
+    expect(plain.strings.join('')).not.toContain('expression-toggle');
+    expect(offered.strings.join('')).toContain('expression-toggle');
+  });
+
+  it('turns the value into an expression that gives it', () => {
+    const onChange = vi.fn();
+    clickToggle(
+      schemaToFormField('label', 'Hi', { type: 'string' }, onChange, {
+        expressions: true,
+      })
+    );
+    clickToggle(
+      schemaToFormField('max', 5, { type: 'number' }, onChange, {
+        expressions: true,
+      })
+    );
+
+    expect(onChange.mock.calls).toEqual([['="Hi"'], ['=5']]);
+  });
+
+  it('keeps an empty value empty', () => {
+    const onChange = vi.fn();
+    clickToggle(
+      schemaToFormField('label', '', { type: 'string' }, onChange, {
+        expressions: true,
+      })
+    );
+
+    expect(onChange).toHaveBeenCalledWith('=""');
+  });
+
+  it('goes back to the default value', () => {
+    const onChange = vi.fn();
+    const result = schemaToFormField(
+      'max',
+      '=port("a.b") * 2',
+      { type: 'number', default: 100 },
+      onChange,
+      { expressions: true }
+    );
+    expect(result.values).toContain('Use a fixed value');
+
+    clickToggle(result);
+    expect(onChange).toHaveBeenCalledWith(100);
+  });
+
+  it('is not offered for arrays and objects', () => {
+    const result = schemaToFormField('items', [], { type: 'array' }, vi.fn(), {
+      expressions: true,
+    });
+
+    expect(result.strings.join('')).not.toContain('expression-toggle');
+  });
+
+  it('is not offered for properties read only on creation', () => {
+    const result = schemaToFormField(
+      'type',
+      'number',
+      { type: 'string', configPort: false },
+      vi.fn(),
+      { expressions: true }
+    );
+
+    expect(result.strings.join('')).not.toContain('expression-toggle');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Board servers on temporary directories, reached through
+ * ApiBackend without opening a socket.
+ */
+
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ApiBackend } from '@/backends';
+import { FileSystemBackend, createBoardHandler } from '@/backends/node';
+
+const tempDirs: string[] = [];
+
+export function makeTempDir(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'dashbeard-'));
+  tempDirs.push(dir);
+  return dir;
+}
+
+/** Delete every directory made by makeTempDir. Call from afterAll */
+export function removeTempDirs(): void {
+  for (const dir of tempDirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/** An ApiBackend talking to a board server on a fresh directory */
+export function tempServerBackend(root: string = makeTempDir()): ApiBackend {
+  const handler = createBoardHandler(new FileSystemBackend({ root }), {
+    basePath: '/api',
+  });
+  return new ApiBackend({
+    baseUrl: 'http://boards.test/api',
+    boardId: 'main',
+    fetch: async (input, init) =>
+      (await handler(new Request(input, init))) ??
+      new Response(null, { status: 404 }),
+  });
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { SourceType } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
+import type { BindingDirection } from '@/boards/board-types';
+import { ValueNode } from './value-node';
+
+async function bind(direction: BindingDirection, withFilter = false) {
+  const graph = new NodeGraph();
+  const source = new ValueNode('source');
+  const sink = new ValueNode('sink');
+  graph.addNode(source);
+  graph.addNode(sink);
+  await source
+    .getOutputPort('result')
+    .onNewData(createPortData(1), SourceType.PortOwner);
+  await graph.loadBinding({
+    fromPort: 'source.result',
+    toPort: 'sink.input',
+    id: 'binding-1',
+    direction,
+    ...(withFilter && {
+      filters: [{ type: 'add', config: { value: 10 } }],
+    }),
+  });
+  const output = source.getOutputPort('result');
+  const input = sink.getInputPort('input');
+  return {
+    output,
+    input,
+    sendDown: (value: number) =>
+      output.onNewData(createPortData(value), SourceType.PortOwner),
+    sendUp: (value: number) =>
+      input.onNewData(createPortData(value), SourceType.PortOwner),
+  };
+}
+
+describe('binding direction', () => {
+  for (const withFilter of [false, true]) {
+    const offset = withFilter ? 10 : 0;
+    const label = withFilter ? ' through filters' : '';
+
+    it(`flows both ways by default${label}`, async () => {
+      const { output, input, sendDown, sendUp } = await bind(
+        'both',
+        withFilter
+      );
+      expect(input.getLastData()?.value).toBe(1 + offset);
+      await sendDown(2);
+      expect(input.getLastData()?.value).toBe(2 + offset);
+      await sendUp(30);
+      expect(output.getLastData()?.value).toBe(30 - offset);
+    });
+
+    it(`only flows downstream when asked${label}`, async () => {
+      const { output, input, sendDown, sendUp } = await bind(
+        'downstream',
+        withFilter
+      );
+      expect(input.getLastData()?.value).toBe(1 + offset);
+      await sendDown(2);
+      expect(input.getLastData()?.value).toBe(2 + offset);
+      await sendUp(30);
+      expect(output.getLastData()?.value).toBe(2);
+    });
+
+    it(`only flows upstream when asked${label}`, async () => {
+      const { output, input, sendDown, sendUp } = await bind(
+        'upstream',
+        withFilter
+      );
+      expect(input.getLastData()).toBeNull();
+      await sendDown(2);
+      expect(input.getLastData()).toBeNull();
+      await sendUp(30);
+      expect(output.getLastData()?.value).toBe(30 - offset);
+    });
+  }
+
+  it('does not pull data over upstream-only bindings', async () => {
+    const { output, input } = await bind('upstream');
+    let requested = false;
+    output.parentNode!.setDataRequestHandler('result', async () => {
+      requested = true;
+    });
+    await input.requestNewData();
+    expect(requested).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import type { BindingDefinition } from '@/boards/board-types';
+import { ValueNode } from './value-node';
+
+async function setup(extra: Partial<BindingDefinition> = {}) {
+  const graph = new NodeGraph();
+  const source = new ValueNode('source');
+  const sink = new ValueNode('sink');
+  const manual = new ValueNode('manual');
+  [source, sink, manual].forEach((node) => graph.addNode(node));
+  await graph.loadBinding({
+    fromPort: 'source.result',
+    toPort: 'sink.input',
+    id: 'binding-1',
+    filters: [{ type: 'add', config: { value: 100 } }],
+    ...extra,
+  });
+  const binding = graph.getBindings()[0];
+  return { graph, source, sink, manual, binding };
+}
+
+describe('binding enabled flag', () => {
+  it('loads a disabled binding without connecting it', async () => {
+    const { graph, source, sink, binding } = await setup({ enabled: false });
+    await source.send(1);
+    expect(sink.seen).toEqual([]);
+    expect(binding.enabled).toBe(false);
+    expect(graph.getNode('binding-1-filter-0')).toBeDefined();
+    // Only added once something binds to it
+    expect(graph.getNode('binding-1-control')).toBeUndefined();
+  });
+
+  it('connects and syncs when enabled', async () => {
+    const { source, sink, binding } = await setup({ enabled: false });
+    await source.send(1);
+    await binding.setEnabled(true);
+    expect(sink.seen).toEqual([101]);
+
+    await source.send(2);
+    expect(sink.seen).toEqual([101, 102]);
+  });
+
+  it('keeps its filters while disabled', async () => {
+    const { source, sink, binding } = await setup();
+    await binding.setEnabled(false);
+    await source.send(1);
+    await binding.setEnabled(false);
+    await binding.setEnabled(true);
+    await source.send(2);
+    expect(sink.seen).toEqual([101, 102]);
+  });
+
+  it('follows its control port', async () => {
+    const { graph, source, sink, manual, binding } = await setup();
+    // Manual mode on means the binding is off
+    await graph.loadBinding({
+      fromPort: 'manual.result',
+      toPort: 'binding-1-control.enabled',
+      id: 'manual-mode',
+      filters: [{ type: 'invert', config: {} }],
+    });
+
+    await manual.send(1);
+    expect(binding.enabled).toBe(false);
+    await source.send(1);
+    expect(sink.seen).toEqual([]);
+
+    await manual.send(0);
+    expect(binding.enabled).toBe(true);
+    expect(sink.seen).toEqual([101]);
+  });
+
+  it('waits for its control node when bound first', async () => {
+    const graph = new NodeGraph();
+    const source = new ValueNode('source');
+    const sink = new ValueNode('sink');
+    const manual = new ValueNode('manual');
+    [source, sink, manual].forEach((node) => graph.addNode(node));
+    await manual.send(0);
+
+    await graph.loadBinding({
+      fromPort: 'manual.result',
+      toPort: 'binding-1-control.enabled',
+      id: 'control',
+    });
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+    });
+    // Pending bindings load in the background
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(graph.getBindings().map((b) => b.id)).toContain('control');
+    expect(graph.getBindings()[0].enabled).toBe(false);
+  });
+
+  it('keeps bindings to its control port across a reload', async () => {
+    const { graph, manual, binding } = await setup();
+    await graph.loadBinding({
+      fromPort: 'manual.result',
+      toPort: 'binding-1-control.enabled',
+      id: 'control',
+    });
+
+    graph.deleteBinding(binding.config);
+    expect(graph.getBindings()).toEqual([]);
+    expect(graph.getNode('binding-1-control')).toBeUndefined();
+
+    await manual.send(0);
+    await graph.loadBinding(binding.config);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(
+      graph
+        .getBindings()
+        .map((b) => b.id)
+        .sort()
+    ).toEqual(['binding-1', 'control']);
+    const reloaded = graph.getBindings().find((b) => b.id === 'binding-1');
+    expect(reloaded?.enabled).toBe(false);
+  });
+});
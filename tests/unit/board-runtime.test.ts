@@ -0,0 +1,160 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BoardRuntime } from '@/runtime';
+import { Node } from '@/flow/node';
+import { PopoverManager } from '@/core/popover-manager';
+import { createPortData, getQuality } from '@/flow/data-types';
+import { SourceType } from '@/flow/port';
+import type { BoardDefinition } from '@/boards/board-types';
+import type { ConditionalComponent } from '@/components/built-in/conditional';
+
+const board: BoardDefinition = {
+  id: 'ready-order',
+  metadata: { name: 'Ready order' },
+  rootComponent: {
+    id: 'root',
+    type: 'plain-layout',
+    config: {},
+    children: [
+      { id: 'dialog', type: 'dialog', config: {}, children: [] },
+      { id: 'conditional', type: 'conditional', config: {}, children: [] },
+      {
+        id: 'mode',
+        type: 'variable',
+        config: { type: 'number', defaultValue: 1 },
+      },
+    ],
+  },
+  bindings: [
+    {
+      id: 'to-dialog',
+      fromPort: 'mode.value',
+      toPort: 'dialog.trigger',
+    },
+    {
+      id: 'to-conditional',
+      fromPort: 'mode.value',
+      toPort: 'conditional.input',
+      filters: [{ type: 'multiply', config: { factor: 2 } }],
+    },
+  ],
+};
+
+describe('BoardRuntime', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('starts components after the variables they are bound to', async () => {
+    vi.useFakeTimers();
+    const started: string[] = [];
+    const onReady = Node.prototype.onReady;
+    vi.spyOn(Node.prototype, 'onReady').mockImplementation(async function (
+      this: Node
+    ) {
+      started.push(this.id);
+      await onReady.call(this);
+    });
+    const open = vi.spyOn(PopoverManager, 'open').mockImplementation(() => {});
+
+    const runtime = new BoardRuntime();
+    await runtime.loadBoard(board);
+
+    const mode = started.indexOf('mode');
+    expect(mode).toBeGreaterThanOrEqual(0);
+    expect(started.indexOf('dialog')).toBeGreaterThan(mode);
+    expect(started.indexOf('to-conditional-filter-0')).toBeGreaterThan(mode);
+    expect(started.indexOf('conditional')).toBeGreaterThan(
+      started.indexOf('to-conditional-filter-0')
+    );
+
+    // Both start from the variable's value, passed through the filter
+    const conditional = runtime.getComponent(
+      'conditional'
+    ) as ConditionalComponent;
+    expect(conditional['inputValue']).toBe(2);
+    document.body.appendChild(runtime.rootComponent!);
+    await vi.advanceTimersByTimeAsync(30);
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+
+  it('marks a variable stale when nothing replaces its value', async () => {
+    vi.useFakeTimers();
+    const stale = structuredClone(board);
+    stale.rootComponent!.children![2].config!.staleTimeout = 1;
+    stale.bindings = [];
+
+    const runtime = new BoardRuntime();
+    await runtime.loadBoard(stale);
+    const port = runtime.getNode('mode')!.getOutputPort('value');
+    await vi.advanceTimersByTimeAsync(999);
+    expect(getQuality(port.getLastData())).toBe('good');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(port.getLastData()).toMatchObject({
+      value: 1,
+      annotation: { quality: 'stale' },
+    });
+  });
+
+  it('loads bindings to the control node of another binding', async () => {
+    const switched = structuredClone(board);
+    switched.rootComponent!.children!.push({
+      id: 'gate',
+      type: 'variable',
+      config: { type: 'number', defaultValue: 0 },
+    });
+    switched.bindings = switched.bindings.filter((b) => b.id !== 'to-dialog');
+    switched.bindings.push({
+      id: 'gate-switch',
+      fromPort: 'gate.value',
+      toPort: 'to-conditional-control.enabled',
+    });
+
+    const runtime = new BoardRuntime();
+    await runtime.loadBoard(switched);
+    const conditional = runtime.getComponent(
+      'conditional'
+    ) as ConditionalComponent;
+    const send = (id: string, value: number) =>
+      runtime
+        .getNode(id)!
+        .getOutputPort('value')
+        .onNewData(createPortData(value), SourceType.PortOwner);
+
+    // The gate starts at 0, so the change doesn't pass
+    await send('mode', 5);
+    expect(conditional['inputValue']).toBe(2);
+
+    await send('gate', 1);
+    expect(conditional['inputValue']).toBe(10);
+  });
+
+  it('loads bindings to the parameter ports of a filter', async () => {
+    const scaled = structuredClone(board);
+    scaled.rootComponent!.children!.push({
+      id: 'factor',
+      type: 'variable',
+      config: { type: 'number', defaultValue: 3 },
+    });
+    scaled.bindings = scaled.bindings.filter((b) => b.id !== 'to-dialog');
+    scaled.bindings.push({
+      id: 'set-factor',
+      fromPort: 'factor.value',
+      toPort: 'to-conditional-filter-0.factor',
+    });
+
+    const runtime = new BoardRuntime();
+    await runtime.loadBoard(scaled);
+    const conditional = runtime.getComponent(
+      'conditional'
+    ) as ConditionalComponent;
+    expect(conditional['inputValue']).toBe(3);
+
+    await runtime
+      .getNode('factor')!
+      .getOutputPort('value')
+      .onNewData(createPortData(5), SourceType.PortOwner);
+    expect(conditional['inputValue']).toBe(5);
+  });
+});
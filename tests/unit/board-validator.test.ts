@@ -208,6 +208,71 @@ describe('Board Validation', () => {
     }).not.toThrow();
   });
 
+  it('should accept bindings to the control node of a binding', () => {
+    const board: BoardDefinition = {
+      id: 'simple-dashboard',
+      metadata: { version: '1.0', name: 'Test' },
+      rootComponent: {
+        id: 'main-layout',
+        type: 'stack-layout',
+        config: {},
+        children: [
+          { id: 'comp1', type: 'variable', config: {} },
+          { id: 'comp2', type: 'switch', config: {} },
+        ],
+      },
+      bindings: [
+        { fromPort: 'comp1.value', toPort: 'comp2.value', id: 'binding-1' },
+        {
+          fromPort: 'comp2.value',
+          toPort: 'binding-1-control.enabled',
+          id: 'binding-2',
+        },
+      ],
+    };
+    expect(() => validateBindingReferences(board)).not.toThrow();
+
+    board.bindings[1].toPort = 'binding-3-control.enabled';
+    expect(() => validateBindingReferences(board)).toThrow(
+      'non-existent component'
+    );
+  });
+
+  it('should accept bindings to the filter nodes of a binding', () => {
+    const board: BoardDefinition = {
+      id: 'simple-dashboard',
+      metadata: { version: '1.0', name: 'Test' },
+      rootComponent: {
+        id: 'main-layout',
+        type: 'stack-layout',
+        config: {},
+        children: [
+          { id: 'comp1', type: 'variable', config: {} },
+          { id: 'comp2', type: 'switch', config: {} },
+        ],
+      },
+      bindings: [
+        {
+          fromPort: 'comp1.value',
+          toPort: 'comp2.value',
+          id: 'binding-1',
+          filters: [{ type: 'multiply', config: { factor: 2 } }],
+        },
+        {
+          fromPort: 'comp2.value',
+          toPort: 'binding-1-filter-0.factor',
+          id: 'binding-2',
+        },
+      ],
+    };
+    expect(() => validateBindingReferences(board)).not.toThrow();
+
+    board.bindings[1].toPort = 'binding-1-filter-1.factor';
+    expect(() => validateBindingReferences(board)).toThrow(
+      'non-existent component'
+    );
+  });
+
   it('should perform complete validation', () => {
     expect(() => {
       validateBoardComplete(validBoard);
@@ -262,4 +327,14 @@ describe('Board Validation', () => {
       });
     }).toThrow('non-existent component');
   });
+  it('should check binding directions', () => {
+    const withDirection = (direction: string) => ({
+      ...validBoard,
+      bindings: [{ ...validBoard.bindings[0], direction }],
+    });
+    expect(() => validateBoard(withDirection('downstream'))).not.toThrow();
+    expect(() => validateBoard(withDirection('sideways'))).toThrow(
+      'validation failed'
+    );
+  });
 });
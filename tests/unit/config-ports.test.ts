@@ -0,0 +1,207 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { Node } from '@/flow/node';
+import { Port, SourceType } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
+import { ConditionalComponent } from '@/components/built-in/conditional';
+import { ImageComponent } from '@/components/built-in/image';
+import { VariableComponent } from '@/components/built-in/variable';
+
+class SourceNode extends Node {
+  constructor(id: string) {
+    super(id);
+    this.addPort(
+      new Port({ name: 'result', type: 'number', direction: 'output' })
+    );
+  }
+
+  send(value: unknown) {
+    return this.getOutputPort('result').onNewData(
+      createPortData(value),
+      SourceType.PortOwner
+    );
+  }
+}
+
+function setup(forceVisible = false) {
+  const graph = new NodeGraph();
+  const source = new SourceNode('source');
+  const conditional = new ConditionalComponent({
+    id: 'cond',
+    type: 'conditional',
+    config: { forceVisible },
+    children: [],
+  });
+  graph.addNode(source);
+  graph.addNode(conditional.getNode());
+  return { graph, source, conditional };
+}
+
+describe('config ports', () => {
+  it('are added for each config property with its type', () => {
+    const { conditional } = setup();
+    expect(conditional.getNode().getInputPort('config:forceVisible').type).toBe(
+      'number'
+    );
+
+    const image = new ImageComponent({
+      id: 'image',
+      type: 'image',
+      config: {},
+      children: [],
+    });
+    const port = image.getNode().getInputPort('config:src');
+    expect(port?.type).toBe('string');
+    expect(
+      [...image.getNode().inputPorts.keys()].every(
+        (name) => !name.includes('.')
+      )
+    ).toBe(true);
+  });
+
+  it('override the configured value', async () => {
+    const { graph, source, conditional } = setup();
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'cond.config:forceVisible',
+      id: 'binding-1',
+      filters: [{ type: 'expression', config: { expression: 'value > 5' } }],
+    });
+    await source.send(10);
+    expect(conditional.forceVisible).toBe(true);
+    await source.send(1);
+    expect(conditional.forceVisible).toBe(false);
+    expect(conditional.componentConfig.config?.forceVisible).toBe(false);
+  });
+
+  it('are left out for properties read only on creation', () => {
+    const { conditional } = setup();
+    const variable = new VariableComponent({
+      id: 'var',
+      type: 'variable',
+      config: { type: 'number' },
+      children: [],
+    });
+    expect(conditional.getNode().inputPorts.has('config:merge')).toBe(false);
+    expect(variable.getNode().inputPorts.has('config:type')).toBe(false);
+    expect(variable.getNode().inputPorts.has('config:label')).toBe(true);
+  });
+
+  it('change the stale timeout of a port', async () => {
+    vi.useFakeTimers();
+    try {
+      const graph = new NodeGraph();
+      const source = new SourceNode('source');
+      const variable = new VariableComponent({
+        id: 'var',
+        type: 'variable',
+        config: { type: 'number', defaultValue: 5 },
+        children: [],
+      });
+      graph.addNode(source);
+      graph.addNode(variable.getNode());
+      await graph.loadBinding({
+        fromPort: 'source.result',
+        toPort: 'var.config:staleTimeout',
+        id: 'binding-1',
+      });
+      await source.send(2);
+      const port = variable.getNode().getOutputPort('value');
+      expect(port.schema.get().staleTimeout).toBe(2);
+
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(port.getLastData()?.annotation?.quality).toBeUndefined();
+      await vi.advanceTimersByTimeAsync(1);
+      expect(port.getLastData()).toMatchObject({
+        value: 5,
+        annotation: { quality: 'stale' },
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('give the property back to the config on null', async () => {
+    const { graph, source, conditional } = setup(true);
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'cond.config:forceVisible',
+      id: 'binding-1',
+    });
+    await source.send(0);
+    expect(conditional.forceVisible).toBe(false);
+    await source.send(null);
+    expect(conditional.forceVisible).toBe(true);
+  });
+});
+
+describe('merge config', () => {
+  it('follows an expression', async () => {
+    const graph = new NodeGraph();
+    const source = new SourceNode('source');
+    const conditional = new ConditionalComponent({
+      id: 'cond',
+      type: 'conditional',
+      config: { merge: '=if(port("source.result") > 5, "max", "sum")' },
+      children: [],
+    });
+    graph.addNode(source);
+    graph.addNode(conditional.getNode());
+    document.body.appendChild(conditional);
+    const input = conditional.getNode().getInputPort('input');
+
+    await source.send(10);
+    expect(input.schema.get().merge).toBe('max');
+    await source.send(1);
+    expect(input.schema.get().merge).toBe('sum');
+    conditional.remove();
+  });
+
+  it('reconnects the bindings when it changes', async () => {
+    const graph = new NodeGraph();
+    const mode = new SourceNode('mode');
+    const a = new SourceNode('a');
+    const b = new SourceNode('b');
+    const conditional = new ConditionalComponent({
+      id: 'cond',
+      type: 'conditional',
+      config: { merge: '=if(port("mode.result") > 0, "sum", "single")' },
+      children: [],
+    });
+    [mode, a, b].forEach((node) => graph.addNode(node));
+    graph.addNode(conditional.getNode());
+    document.body.appendChild(conditional);
+    const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+    await mode.send(1);
+    for (const from of ['a', 'b']) {
+      await graph.loadBinding({
+        id: `${from}-cond`,
+        fromPort: `${from}.result`,
+        toPort: 'cond.input',
+      });
+    }
+    await a.send(1);
+    await b.send(2);
+    expect(conditional['inputValue']).toBe(3);
+
+    // A single input takes the first binding, and can't take b's
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await mode.send(0);
+    await settle();
+    expect(error).toHaveBeenCalledWith(
+      expect.stringContaining('Error connecting binding b-cond')
+    );
+    error.mockRestore();
+    await a.send(4);
+    expect(conditional['inputValue']).toBe(4);
+    await b.send(5);
+    expect(conditional['inputValue']).toBe(4);
+
+    await mode.send(1);
+    await settle();
+    await a.send(6);
+    expect(conditional['inputValue']).toBe(11);
+    conditional.remove();
+  });
+});
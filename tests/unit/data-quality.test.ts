@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { Node } from '@/flow/node';
+import { Port, SourceType } from '@/flow/port';
+import {
+  annotate,
+  combineAnnotations,
+  createPortData,
+  getQuality,
+} from '@/flow/data-types';
+import type { PortData } from '@/flow/data-types';
+import { ValueNode } from './value-node';
+
+describe('annotations', () => {
+  it('treats missing quality as good and missing data as bad', () => {
+    expect(getQuality(createPortData(1))).toBe('good');
+    expect(getQuality(createPortData(1, 0, { quality: 'stale' }))).toBe(
+      'stale'
+    );
+    expect(getQuality(null)).toBe('bad');
+  });
+
+  it('combines to the worst quality and joins errors', () => {
+    expect(
+      combineAnnotations(
+        { quality: 'uncertain', error: 'noisy', unit: 'V', sourceId: 'a' },
+        undefined,
+        { quality: 'bad', error: 'offline', unit: 'V', sourceId: 'b' },
+        { error: 'offline', extra: 1 }
+      )
+    ).toEqual({ quality: 'bad', error: 'noisy; offline', unit: 'V', extra: 1 });
+    expect(combineAnnotations({}, { quality: 'good' })).toEqual({});
+    expect(combineAnnotations(undefined)).toBeUndefined();
+  });
+
+  it('adds and removes keys without touching the original', () => {
+    const data = createPortData(1, 5, { quality: 'bad', error: 'x' });
+    const fixed = annotate(data, { quality: 'good', error: undefined });
+    expect(fixed).toEqual({
+      value: 1,
+      timestamp: 5,
+      annotation: { quality: 'good' },
+    });
+    expect(data.annotation).toEqual({ quality: 'bad', error: 'x' });
+  });
+});
+
+describe('annotations through filters', () => {
+  async function bind() {
+    const graph = new NodeGraph();
+    const source = new ValueNode('source');
+    const sink = new ValueNode('sink');
+    const operand = new ValueNode('operand');
+    graph.addNode(source);
+    graph.addNode(sink);
+    graph.addNode(operand);
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+      filters: [{ type: 'add', config: { value: 1 } }],
+    });
+    const send = (port: Port, data: PortData) =>
+      port.onNewData(data, SourceType.PortOwner);
+    return { graph, source, sink, operand, send };
+  }
+
+  it('keeps the annotation of the value', async () => {
+    const { source, sink, send } = await bind();
+    await send(
+      source.getOutputPort('result'),
+      createPortData(1, undefined, { quality: 'uncertain', unit: 'V' })
+    );
+    expect(sink.getInputPort('input').getLastData()).toMatchObject({
+      value: 2,
+      annotation: { quality: 'uncertain', unit: 'V' },
+    });
+  });
+
+  it('combines it with bound extra inputs', async () => {
+    const { graph, source, sink, operand, send } = await bind();
+    await graph.loadBinding({
+      fromPort: 'operand.result',
+      toPort: 'binding-1-filter-0.operand',
+      id: 'binding-2',
+    });
+    await send(
+      operand.getOutputPort('result'),
+      createPortData(5, undefined, { quality: 'bad', error: 'offline' })
+    );
+    await send(source.getOutputPort('result'), createPortData(1));
+    expect(sink.getInputPort('input').getLastData()?.annotation).toMatchObject({
+      quality: 'bad',
+      error: 'offline',
+    });
+  });
+});
+
+describe('stale timeout', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('marks data stale when no update arrives in time', async () => {
+    vi.useFakeTimers();
+    const port = new Port({
+      name: 'value',
+      type: 'number',
+      direction: 'input',
+      staleTimeout: 2,
+    });
+    const seen: PortData[] = [];
+    port.addDataHandler(async (data) => {
+      seen.push(data);
+    });
+
+    await port.onNewData(createPortData(1, 100), SourceType.Upstream);
+    await vi.advanceTimersByTimeAsync(1500);
+    await port.onNewData(createPortData(2, 200), SourceType.Upstream);
+    await vi.advanceTimersByTimeAsync(1500);
+    expect(seen).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(seen).toHaveLength(3);
+    expect(seen[2]).toEqual({
+      value: 2,
+      timestamp: 200,
+      annotation: { quality: 'stale' },
+    });
+
+    // Stale data doesn't go stale again
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(seen).toHaveLength(3);
+  });
+
+  it('marks outputs stale for their consumers', async () => {
+    vi.useFakeTimers();
+    const graph = new NodeGraph();
+    const source = new Node('source');
+    source.addPort(
+      new Port({
+        name: 'result',
+        type: 'number',
+        direction: 'output',
+        staleTimeout: 1,
+      })
+    );
+    const sink = new ValueNode('sink');
+    graph.addNode(source);
+    graph.addNode(sink);
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+    });
+
+    await source
+      .getOutputPort('result')
+      .onNewData(createPortData(1), SourceType.PortOwner);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getQuality(sink.getInputPort('input').getLastData())).toBe('stale');
+  });
+
+  it('stops when the port is destroyed', async () => {
+    vi.useFakeTimers();
+    const port = new Port({
+      name: 'value',
+      type: 'number',
+      direction: 'input',
+      staleTimeout: 1,
+    });
+    await port.onNewData(createPortData(1), SourceType.Upstream);
+    port.destroy();
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(getQuality(port.getLastData())).toBe('good');
+  });
+});
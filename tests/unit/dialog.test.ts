@@ -0,0 +1,52 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi } from 'vitest';
+import type { ComponentConfig } from '@/boards/board-types';
+import { DashboardComponent } from '@/components/dashboard-component';
+import { DialogComponent } from '@/components/built-in/dialog';
+import { PanelLayoutComponent } from '@/components/built-in/panel-layout';
+import { ImageComponent } from '@/components/built-in/image';
+
+describe('DialogComponent', () => {
+  it('refreshes nested components when it opens', async () => {
+    const imageConfig: ComponentConfig = {
+      id: 'image',
+      type: 'image',
+      config: {},
+      children: [],
+    };
+    const innerConfig: ComponentConfig = {
+      id: 'inner',
+      type: 'panel-layout',
+      config: {},
+      children: [imageConfig],
+    };
+    const outerConfig: ComponentConfig = {
+      id: 'outer',
+      type: 'panel-layout',
+      config: {},
+      children: [innerConfig],
+    };
+    const dialog = new DialogComponent({
+      id: 'dialog',
+      type: 'dialog',
+      config: {},
+      children: [outerConfig],
+    });
+    const all = new Map<string, DashboardComponent>([
+      ['dialog', dialog],
+      ['outer', new PanelLayoutComponent(outerConfig)],
+      ['inner', new PanelLayoutComponent(innerConfig)],
+      ['image', new ImageComponent(imageConfig)],
+    ]);
+    const refreshed: string[] = [];
+    for (const component of all.values()) {
+      component.allComponents = all;
+      vi.spyOn(component, 'refreshInputs').mockImplementation(async () => {
+        refreshed.push(component.id);
+      });
+    }
+
+    await dialog['refreshContents']();
+    expect(refreshed.sort()).toEqual(['image', 'inner', 'outer']);
+  });
+});
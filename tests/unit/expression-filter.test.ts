@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { evaluate, evaluateExpression } from '@/flow/expressions';
+import type { BindingFilterItem } from '@/boards/board-types';
+import { ValueNode, bindValueNodes } from './value-node';
+
+async function setup(config: BindingFilterItem['config']) {
+  const nodes = await bindValueNodes([{ type: 'expression', config }]);
+  const other = new ValueNode('other');
+  nodes.graph.addNode(other);
+  return { ...nodes, other };
+}
+
+describe('evaluateExpression', () => {
+  const context = { nodeGraph: { getNode: () => undefined } };
+
+  it('evaluates with or without the = prefix', () => {
+    expect(evaluateExpression('=1 + 2', context)).toBe(3);
+    expect(evaluateExpression('value * 2', context, { value: 4 })).toBe(8);
+    expect(evaluateExpression('round(2.345, 1)', context)).toBe(2.3);
+    expect(evaluateExpression('max(1, 5, 3)', context)).toBe(5);
+  });
+
+  it('throws on errors, where evaluate() returns the input', () => {
+    expect(() => evaluateExpression('=nope + 1', context)).toThrow(
+      'Undefined variable'
+    );
+    expect(() => evaluateExpression('=', context)).toThrow('empty');
+    expect(evaluate('=nope + 1', context)).toBe('=nope + 1');
+  });
+
+  it('looks up port values in the graph', async () => {
+    const graph = new NodeGraph();
+    const node = new ValueNode('node');
+    graph.addNode(node);
+    await node.send(21);
+    expect(evaluate('=port("node.result") * 2', { nodeGraph: graph })).toBe(42);
+    expect(
+      evaluate('=isNull(port("node.missing"))', { nodeGraph: graph })
+    ).toBe(true);
+  });
+});
+
+describe('expression filter', () => {
+  it('computes the value', async () => {
+    const { source, sink } = await setup({
+      expression: '=round(value * 9/5 + 32, 1)',
+    });
+    await source.send(21.5);
+    expect(sink.value).toBe(70.7);
+  });
+
+  it('computes writes back with the reverse expression', async () => {
+    const { source, sink } = await setup({
+      expression: 'value * 9/5 + 32',
+      reverse: '(value - 32) * 5/9',
+    });
+    await sink.write(212);
+    expect(source.value).toBe(100);
+  });
+
+  it('writes nothing back without a reverse expression', async () => {
+    const { source, sink } = await setup({ expression: 'value * 2' });
+    await source.send(1);
+    await sink.write(10);
+    expect(source.value).toBe(1);
+  });
+
+  it('reads other ports', async () => {
+    const { source, sink, other } = await setup({
+      expression: 'value + port("other.result")',
+    });
+    await other.send(100);
+    await source.send(1);
+    expect(sink.value).toBe(101);
+  });
+
+  it('reports errors through the binding', async () => {
+    const { source, sink } = await setup({ expression: 'value + offset' });
+    await source.send(1);
+    expect(sink.getInputPort('input').getLastData()).toMatchObject({
+      value: null,
+      annotation: { quality: 'bad', error: expect.stringContaining('offset') },
+    });
+  });
+
+  it('reports reverse errors downstream', async () => {
+    const { source, sink } = await setup({
+      expression: 'value',
+      reverse: 'nope(value)',
+    });
+    await source.send(1);
+    await sink.write(5);
+    expect(source.value).toBe(1);
+    expect(sink.getInputPort('input').getLastData()?.annotation).toMatchObject({
+      quality: 'bad',
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import type { FilterNode } from '@/flow/filter';
+import type { PortSchema } from '@/flow/port';
+import type { BindingFilterItem } from '@/boards/board-types';
+import { ValueNode, bindValueNodes } from './value-node';
+
+async function setup(
+  filter: BindingFilterItem,
+  port: string,
+  sourceSchema: Partial<PortSchema> = {}
+) {
+  const nodes = await bindValueNodes([filter], {}, sourceSchema);
+  const param = new ValueNode('param');
+  nodes.graph.addNode(param);
+  await nodes.graph.loadBinding({
+    fromPort: 'param.result',
+    toPort: `binding-1-filter-0.${port}`,
+    id: 'param-binding',
+    initialSync: 'none',
+  });
+  return { ...nodes, param };
+}
+
+describe('filter parameter ports', () => {
+  it('are created from the static ports of the manifest', async () => {
+    const { graph } = await setup(
+      { type: 'add', config: { value: 1 } },
+      'operand'
+    );
+    const node = graph.getNode('binding-1-filter-0');
+    expect(node?.inputPorts.has('operand')).toBe(true);
+    expect(node?.getInputPort('operand').getLastData()?.value).toBe(1);
+  });
+
+  it('replace the configured parameter and send the input again', async () => {
+    const { source, sink, param } = await setup(
+      { type: 'add', config: { value: 1 } },
+      'operand'
+    );
+    await source.send(10);
+    expect(sink.value).toBe(11);
+
+    await param.send(5);
+    expect(sink.value).toBe(15);
+
+    await source.send(20);
+    expect(sink.value).toBe(25);
+  });
+
+  it('are used for writes back upstream too', async () => {
+    const { source, sink, param } = await setup(
+      { type: 'multiply', config: { factor: 2 } },
+      'factor'
+    );
+    await param.send(4);
+    await sink.write(20);
+    expect(source.value).toBe(5);
+  });
+
+  it('leave the binding definition alone', async () => {
+    const filter = { type: 'multiply', config: { factor: 2 } };
+    const { param } = await setup(filter, 'factor');
+    await param.send(4);
+    expect(filter.config.factor).toBe(2);
+  });
+
+  it('update the output range of the filter', async () => {
+    const { graph, param } = await setup(
+      { type: 'multiply', config: { factor: 2 } },
+      'factor',
+      { min: 0, max: 10 }
+    );
+    const output = (graph.getNode('binding-1-filter-0') as FilterNode)
+      .outputPort!;
+    expect(output.schema.get()).toMatchObject({ min: 0, max: 20 });
+
+    await param.send(5);
+    expect(output.schema.get()).toMatchObject({
+      name: 'result',
+      direction: 'output',
+      min: 0,
+      max: 50,
+    });
+  });
+
+  it('send the configured value back with downstream-wins', async () => {
+    const graph = new NodeGraph();
+    const source = new ValueNode('source');
+    const sink = new ValueNode('sink');
+    const param = new ValueNode('param');
+    [source, sink, param].forEach((node) => graph.addNode(node));
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+      filters: [{ type: 'add', config: { value: 3 } }],
+    });
+    await graph.loadBinding({
+      fromPort: 'param.result',
+      toPort: 'binding-1-filter-0.operand',
+      id: 'param-binding',
+      initialSync: 'downstream-wins',
+    });
+    expect(param.value).toBe(3);
+  });
+});
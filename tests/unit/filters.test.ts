@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { filterRegistry } from '@/flow/filter';
+import '@/flow/filters';
+
+function implementation(type: string, config: Record<string, unknown>) {
+  return filterRegistry
+    .getManifest(type)!
+    .createImplementation({ type, config });
+}
+
+describe('built-in filters', () => {
+  it('are created with the config of their binding filter item', () => {
+    expect(implementation('add', { value: 2 }).filterInput(1)).toBe(3);
+    expect(implementation('multiply', { factor: 3 }).filterInput(2)).toBe(6);
+    expect(
+      implementation('clampRange', { min: 0, max: 10 }).filterInput(20)
+    ).toBe(10);
+  });
+});
+
+function outputSchema(type: string, config: Record<string, unknown>) {
+  return filterRegistry
+    .getManifest(type)!
+    .createPorts(
+      { name: 'value', direction: 'output', type: 'number', min: 1, max: 10 },
+      { type, config }
+    ).output;
+}
+
+describe('built-in filter ports', () => {
+  it('take their output range from the binding filter item config', () => {
+    expect(outputSchema('multiply', { factor: 3 })).toMatchObject({
+      min: 3,
+      max: 30,
+    });
+    expect(outputSchema('multiply', { factor: -2 })).toMatchObject({
+      min: -20,
+      max: -2,
+    });
+    expect(outputSchema('clampRange', { min: 2, max: 5 })).toMatchObject({
+      min: 2,
+      max: 5,
+    });
+    expect(outputSchema('lowpass', { alpha: 0.5 })).toMatchObject({
+      min: 1,
+      max: 10,
+    });
+  });
+});
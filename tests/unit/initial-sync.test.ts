@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { Port, SourceType, pickInitialSync } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
+import type { PortData } from '@/flow/data-types';
+import type {
+  BindingDefinition,
+  InitialSyncPolicy,
+} from '@/boards/board-types';
+import { ValueNode } from './value-node';
+
+function valueNode(id: string, value: number | null, timestamp: number) {
+  return new ValueNode(
+    id,
+    {},
+    value === null ? null : createPortData(value, timestamp)
+  );
+}
+
+async function bind(
+  initialSync: InitialSyncPolicy | undefined,
+  values: { source: number | null; sink: number | null },
+  extra: Partial<BindingDefinition> = {}
+) {
+  const graph = new NodeGraph();
+  const source = valueNode('source', values.source, 100);
+  const sink = valueNode('sink', values.sink, 200);
+  graph.addNode(source);
+  graph.addNode(sink);
+  await graph.loadBinding({
+    fromPort: 'source.result',
+    toPort: 'sink.input',
+    id: 'binding-1',
+    initialSync,
+    ...extra,
+  });
+  return { graph, source, sink };
+}
+
+describe('pickInitialSync', () => {
+  const older = createPortData(1, 100);
+  const newer = createPortData(2, 200);
+
+  it('picks the preferred side when it has data', () => {
+    expect(pickInitialSync('upstream-wins', older, newer)).toBe('upstream');
+    expect(pickInitialSync('upstream-wins', null, newer)).toBeNull();
+    expect(pickInitialSync('downstream-wins', older, newer)).toBe('downstream');
+    expect(pickInitialSync('downstream-wins', older, null)).toBeNull();
+    expect(pickInitialSync('none', older, newer)).toBeNull();
+  });
+
+  it('picks the newer side, or the only side with data', () => {
+    expect(pickInitialSync('newest-wins', older, newer)).toBe('downstream');
+    expect(pickInitialSync('newest-wins', newer, older)).toBe('upstream');
+    expect(pickInitialSync('newest-wins', older, older)).toBe('upstream');
+    expect(pickInitialSync('newest-wins', null, older)).toBe('downstream');
+    expect(pickInitialSync('newest-wins', older, null)).toBe('upstream');
+    expect(pickInitialSync('newest-wins', null, null)).toBeNull();
+  });
+});
+
+describe('binding initial sync', () => {
+  it('sends the upstream value by default', async () => {
+    const { sink } = await bind(undefined, { source: 1, sink: 2 });
+    expect(sink.value).toBe(1);
+  });
+
+  it('writes the downstream value back upstream', async () => {
+    const { source, sink } = await bind('downstream-wins', {
+      source: 1,
+      sink: 2,
+    });
+    expect(source.value).toBe(2);
+    expect(sink.value).toBe(2);
+  });
+
+  it('keeps the newer value', async () => {
+    const { source } = await bind('newest-wins', { source: 1, sink: 2 });
+    expect(source.value).toBe(2);
+  });
+
+  it('syncs nothing until the first change', async () => {
+    const { source, sink } = await bind('none', { source: 1, sink: 2 });
+    expect([source.value, sink.value]).toEqual([1, 2]);
+
+    await source
+      .getOutputPort('result')
+      .onNewData(createPortData(3), SourceType.PortOwner);
+    expect(sink.value).toBe(3);
+  });
+
+  it('falls back to nothing when the winner has no data', async () => {
+    const { source, sink } = await bind('downstream-wins', {
+      source: 1,
+      sink: null,
+    });
+    expect([source.value, sink.value]).toEqual([1, null]);
+  });
+
+  it('skips a sync that goes against the direction', async () => {
+    const { source } = await bind(
+      'downstream-wins',
+      { source: 1, sink: 2 },
+      { direction: 'downstream' }
+    );
+    expect(source.value).toBe(1);
+  });
+
+  it('syncs the ends of a filter chain', async () => {
+    const { source, sink } = await bind(
+      'downstream-wins',
+      { source: 1, sink: 20 },
+      { filters: [{ type: 'multiply', config: { factor: 10 } }] }
+    );
+    expect(source.value).toBe(2);
+    expect(sink.value).toBe(20);
+  });
+
+  it('compares the ends of a filter chain, not the filters', async () => {
+    const { source } = await bind(
+      'newest-wins',
+      { source: 1, sink: 20 },
+      { filters: [{ type: 'add', config: { value: 1 } }] }
+    );
+    // The filter's output would be newer than both ends
+    expect(source.value).toBe(19);
+  });
+
+  it('applies again when the binding is loaded again', async () => {
+    const { graph, source, sink } = await bind(
+      'downstream-wins',
+      { source: 1, sink: 5 },
+      { filters: [{ type: 'add', config: { value: 1 } }] }
+    );
+    expect(source.value).toBe(4);
+
+    const [binding] = graph.getBindings();
+    graph.deleteBinding(binding.config);
+    expect(graph.getBindings()).toEqual([]);
+    expect(graph.getNode('binding-1-filter-0')).toBeUndefined();
+
+    await sink
+      .getInputPort('input')
+      .onNewData(createPortData(9, Date.now()), SourceType.PortOwner);
+    await graph.loadBinding(binding.config);
+    expect(source.value).toBe(8);
+  });
+
+  it('syncs single links with the given policy', async () => {
+    const connect = async (initialSync: InitialSyncPolicy) => {
+      const upstream = new Port(
+        { name: 'out', type: 'number', direction: 'output' },
+        createPortData(1)
+      );
+      const downstream = new Port({
+        name: 'in',
+        type: 'number',
+        direction: 'input',
+      });
+      const seen: PortData[] = [];
+      downstream.addDataHandler(async (data) => {
+        seen.push(data);
+      });
+      await upstream.connectToInput(downstream, 'both', initialSync);
+      return seen.map((d) => d.value);
+    };
+    expect(await connect('none')).toEqual([]);
+    expect(await connect('upstream-wins')).toEqual([1]);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { Node } from '@/flow/node';
+import { Port, SourceType } from '@/flow/port';
+import { createPortData, mergePortData } from '@/flow/data-types';
+import type { MergePolicy } from '@/flow/data-types';
+
+/** Owns its output like a variable, taking writes from downstream */
+class SourceNode extends Node {
+  value: unknown = null;
+
+  constructor(id: string) {
+    super(id);
+    const port = this.addPort(
+      new Port({ name: 'result', type: 'number', direction: 'output' })
+    );
+    port.addDataHandler(async (data, source) => {
+      if (source !== SourceType.Downstream) return;
+      this.value = data.value;
+      await port.onNewData(data, SourceType.PortOwner);
+    });
+  }
+
+  send(value: number, timestamp?: number) {
+    this.value = value;
+    return this.getOutputPort('result').onNewData(
+      createPortData(value, timestamp),
+      SourceType.PortOwner
+    );
+  }
+}
+
+class SinkNode extends Node {
+  seen: unknown[] = [];
+
+  constructor(id: string, merge?: MergePolicy) {
+    super(id);
+    const port = this.addPort(
+      new Port({ name: 'input', type: 'number', direction: 'input', merge })
+    );
+    port.addDataHandler(async (data, source) => {
+      if (source === SourceType.Upstream) this.seen.push(data.value);
+    });
+  }
+
+  write(value: number) {
+    return this.getInputPort('input').onNewData(
+      createPortData(value),
+      SourceType.PortOwner
+    );
+  }
+}
+
+async function fanIn(merge: MergePolicy | undefined, count = 3) {
+  const graph = new NodeGraph();
+  const sink = new SinkNode('sink', merge);
+  graph.addNode(sink);
+  const sources: SourceNode[] = [];
+  for (let i = 0; i < count; i++) {
+    const source = new SourceNode(`source${i}`);
+    graph.addNode(source);
+    sources.push(source);
+    await graph.loadBinding({
+      fromPort: `source${i}.result`,
+      toPort: 'sink.input',
+      id: `binding-${i}`,
+    });
+  }
+  return { graph, sink, sources };
+}
+
+describe('mergePortData', () => {
+  const data = (value: unknown, timestamp: number) =>
+    createPortData(value, timestamp);
+
+  it('passes the latest data through, later inputs winning ties', () => {
+    const inputs = [data(1, 200), data(2, 100), data(3, 200)];
+    expect(mergePortData('latest', inputs)).toBe(inputs[2]);
+    expect(mergePortData('latest', [])).toBeNull();
+  });
+
+  it('computes numbers with the newest timestamp', () => {
+    const inputs = [data(1, 100), data('5', 300), data(-2, 200)];
+    expect(mergePortData('sum', inputs)).toMatchObject({
+      value: 4,
+      timestamp: 300,
+    });
+    expect(mergePortData('min', inputs)?.value).toBe(-2);
+    expect(mergePortData('max', inputs)?.value).toBe(5);
+  });
+
+  it('computes any and all as 0 or 1', () => {
+    const inputs = [data(0, 1), data(1, 2)];
+    expect(mergePortData('any', inputs)?.value).toBe(1);
+    expect(mergePortData('all', inputs)?.value).toBe(0);
+    expect(mergePortData('all', [data(1, 1), data('yes', 2)])?.value).toBe(1);
+  });
+
+  it('combines annotations, and marks non-numbers bad', () => {
+    const merged = mergePortData('sum', [
+      createPortData(1, 1, { quality: 'uncertain' }),
+      createPortData('x', 2),
+    ]);
+    expect(merged?.value).toBeNull();
+    expect(merged?.annotation).toMatchObject({ quality: 'bad' });
+    expect(merged?.annotation?.error).toContain('non-numeric');
+  });
+});
+
+describe('merging input ports', () => {
+  it('only take one binding without a merge policy', async () => {
+    await expect(fanIn(undefined, 2)).rejects.toThrow('already connected');
+  });
+
+  it('pass on the latest data from any binding', async () => {
+    const { sink, sources } = await fanIn('latest');
+    await sources[0].send(1);
+    await sources[2].send(3);
+    await sources[1].send(2);
+    expect(sink.seen).toEqual([1, 3, 2]);
+  });
+
+  it('merge the data of every binding', async () => {
+    const { sink, sources } = await fanIn('sum');
+    await sources[0].send(1);
+    await sources[1].send(2);
+    await sources[2].send(3);
+    expect(sink.seen).toEqual([1, 3, 6]);
+    expect(sink.getInputPort('input').getLastData()?.value).toBe(6);
+  });
+
+  it('merge the rest again when a binding is deleted', async () => {
+    const { graph, sink, sources } = await fanIn('max');
+    await sources[0].send(1);
+    await sources[1].send(7);
+    graph.deleteBinding({
+      fromPort: 'source1.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+    });
+    await Promise.resolve();
+    expect(sink.seen[sink.seen.length - 1]).toBe(1);
+    expect(sink.getInputPort('input').hasConnection()).toBe(true);
+
+    await sources[1].send(9);
+    expect(sink.seen[sink.seen.length - 1]).toBe(1);
+  });
+
+  it('write back to the latest source only for latest', async () => {
+    const { sink, sources } = await fanIn('latest');
+    await sources[0].send(1);
+    await sources[1].send(2);
+    await sink.write(5);
+    expect(sources.map((s) => s.value)).toEqual([1, 5, null]);
+  });
+
+  it('write back to every source for min, max, any and all', async () => {
+    const { sink, sources } = await fanIn('max');
+    await sources[0].send(1);
+    await sources[1].send(2);
+    await sink.write(0);
+    expect(sources.map((s) => s.value)).toEqual([0, 0, 0]);
+    expect(sink.getInputPort('input').getLastData()?.value).toBe(0);
+  });
+
+  it('never write back a sum', async () => {
+    const { sink, sources } = await fanIn('sum');
+    await sources[0].send(1);
+    await sink.write(10);
+    expect(sources.map((s) => s.value)).toEqual([1, null, null]);
+  });
+
+  it('ask every source for fresh data', async () => {
+    const { sink, sources } = await fanIn('sum');
+    sources.forEach((source, i) => {
+      source.setDataRequestHandler('result', () => source.send(i + 1));
+    });
+    await sink.getInputPort('input').requestNewData();
+    expect(sink.getInputPort('input').getLastData()?.value).toBe(6);
+  });
+
+  it('merge through filters', async () => {
+    const graph = new NodeGraph();
+    const sink = new SinkNode('sink', 'sum');
+    const a = new SourceNode('a');
+    const b = new SourceNode('b');
+    [sink, a, b].forEach((node) => graph.addNode(node));
+    await graph.loadBinding({
+      fromPort: 'a.result',
+      toPort: 'sink.input',
+      id: 'binding-a',
+      filters: [{ type: 'multiply', config: { factor: 10 } }],
+    });
+    await graph.loadBinding({
+      fromPort: 'b.result',
+      toPort: 'sink.input',
+      id: 'binding-b',
+    });
+    await a.send(1);
+    await b.send(2);
+    expect(sink.seen).toEqual([10, 12]);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { Node } from '@/flow/node';
+import { Port, SourceType } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
+
+/** Sends input + offset to its output */
+class OffsetNode extends Node {
+  constructor(id: string, offset: number) {
+    super(id);
+    const input = this.addPort(
+      new Port({ name: 'input', type: 'number', direction: 'input' })
+    );
+    const output = this.addPort(
+      new Port({ name: 'result', type: 'number', direction: 'output' })
+    );
+    input.addDataHandler(async (data, source) => {
+      if (source === SourceType.PortOwner) return;
+      await output.onNewData(
+        createPortData((data.value as number) + offset),
+        SourceType.PortOwner
+      );
+    });
+  }
+}
+
+/** Sends a + b to its output whenever either input changes */
+class SumNode extends Node {
+  constructor(id: string) {
+    super(id);
+    const a = this.addPort(
+      new Port({ name: 'a', type: 'number', direction: 'input' })
+    );
+    const b = this.addPort(
+      new Port({ name: 'b', type: 'number', direction: 'input' })
+    );
+    const output = this.addPort(
+      new Port({ name: 'result', type: 'number', direction: 'output' })
+    );
+    const update = async () => {
+      const sum =
+        ((a.getLastData()?.value as number) ?? 0) +
+        ((b.getLastData()?.value as number) ?? 0);
+      await output.onNewData(createPortData(sum), SourceType.PortOwner);
+    };
+    a.addDataHandler(update);
+    b.addDataHandler(update);
+  }
+}
+
+/** source feeds left and right, which rejoin at sum */
+async function diamond() {
+  const graph = new NodeGraph();
+  const source = new OffsetNode('source', 0);
+  graph.addNode(source);
+  graph.addNode(new OffsetNode('left', 1));
+  graph.addNode(new OffsetNode('right', 2));
+  graph.addNode(new SumNode('sum'));
+  const sink = new OffsetNode('sink', 0);
+  graph.addNode(sink);
+
+  const bindings = [
+    ['source.result', 'left.input'],
+    ['source.result', 'right.input'],
+    ['right.result', 'sum.b'],
+    ['left.result', 'sum.a'],
+    ['sum.result', 'sink.input'],
+  ];
+  for (const [i, [fromPort, toPort]] of bindings.entries()) {
+    await graph.loadBinding({ fromPort, toPort, id: `binding-${i}` });
+  }
+
+  const seen: unknown[] = [];
+  sink.getInputPort('input').addDataHandler(async (data) => {
+    seen.push(data.value);
+  });
+  const send = (value: number) =>
+    source
+      .getOutputPort('result')
+      .onNewData(createPortData(value), SourceType.PortOwner);
+  return { graph, sink, seen, send };
+}
+
+describe('NodeGraph.batch', () => {
+  it('shows intermediate states without a batch', async () => {
+    const { seen, send } = await diamond();
+    await send(10);
+    expect(seen).toEqual([11, 23]);
+  });
+
+  it('delivers rejoining paths once, in topological order', async () => {
+    const { graph, seen, send } = await diamond();
+    await graph.batch(() => send(10));
+    expect(seen).toEqual([23]);
+  });
+
+  it('delivers only the latest data sent to a port', async () => {
+    const { graph, seen, send } = await diamond();
+    await graph.batch(async () => {
+      await send(1);
+      await send(10);
+      expect(seen).toEqual([]);
+      expect(graph.isBatching()).toBe(true);
+    });
+    expect(seen).toEqual([23]);
+    expect(graph.isBatching()).toBe(false);
+  });
+
+  it('joins nested batches into the outermost one', async () => {
+    const { graph, seen, send } = await diamond();
+    await graph.batch(async () => {
+      await graph.batch(() => send(1));
+      expect(seen).toEqual([]);
+      await send(10);
+    });
+    expect(seen).toEqual([23]);
+  });
+
+  it('defers repeat sends to a delivered port to a follow-up batch', async () => {
+    const { graph, sink, seen, send } = await diamond();
+    let echoed = false;
+    sink.getInputPort('input').addDataHandler(async () => {
+      if (echoed) return;
+      echoed = true;
+      await send(20);
+    });
+    await graph.batch(() => send(10));
+    expect(seen).toEqual([23, 43]);
+  });
+
+  it('drops data that never settles and reports it bad', async () => {
+    const { graph, sink, seen, send } = await diamond();
+    let next = 10;
+    sink.getInputPort('input').addDataHandler(async (data) => {
+      if (data.value !== null) await send(next++);
+    });
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await graph.batch(() => send(1));
+    error.mockRestore();
+
+    expect(seen.length).toBeGreaterThan(1);
+    expect(seen.length).toBeLessThan(1000);
+    expect(
+      graph.getNode('source')!.getOutputPort('result').getLastData()
+    ).toMatchObject({
+      value: null,
+      annotation: { quality: 'bad', error: expect.stringMatching(/settle/) },
+    });
+  });
+
+  it('still delivers when the batch function throws', async () => {
+    const { graph, seen, send } = await diamond();
+    await expect(
+      graph.batch(async () => {
+        await send(10);
+        throw new Error('failed');
+      })
+    ).rejects.toThrow('failed');
+    expect(seen).toEqual([23]);
+  });
+
+  it('orders filter nodes along their binding', async () => {
+    const graph = new NodeGraph();
+    const source = new OffsetNode('source', 0);
+    const sink = new SumNode('sink');
+    graph.addNode(source);
+    graph.addNode(sink);
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.a',
+      id: 'binding-a',
+      filters: [{ type: 'multiply', config: { factor: 10 } }],
+    });
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.b',
+      id: 'binding-b',
+    });
+    const seen: unknown[] = [];
+    sink.getOutputPort('result').addDataHandler(async (data) => {
+      seen.push(data.value);
+    });
+
+    await graph.batch(() =>
+      source
+        .getOutputPort('result')
+        .onNewData(createPortData(2), SourceType.PortOwner)
+    );
+
+    expect(seen).toEqual([22]);
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect, vi } from 'vitest';
 import { NodeGraph } from '@/flow/node-graph';
 import { Node } from '@/flow/node';
-import { Port } from '@/flow/port';
+import { Port, SourceType } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
 
 // Test implementation
 class TestNode extends Node {
@@ -346,4 +347,106 @@ describe('NodeGraph', () => {
 
     expect(onDestroy).toHaveBeenCalled();
   });
+  it('should ready upstream nodes before their consumers', async () => {
+    const graph = new NodeGraph();
+    const sink = new NumberNode('sink');
+    const middle = new NumberNode('middle');
+    const source = new NumberNode('source');
+    graph.addNode(sink);
+    graph.addNode(middle);
+    graph.addNode(source);
+    await graph.loadBinding({
+      fromPort: 'middle.result',
+      toPort: 'sink.input',
+      id: 'binding-2',
+    });
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'middle.input',
+      id: 'binding-1',
+      filters: [{ type: 'multiply', config: { factor: 2 } }],
+    });
+
+    const order: string[] = [];
+    for (const node of graph.getNodes()) {
+      node.addOnReadyListener(() => {
+        order.push(node.id);
+      });
+    }
+    await graph.ready();
+
+    expect(order).toEqual(['source', 'binding-1-filter-0', 'middle', 'sink']);
+  });
+
+  it('should ready independent nodes concurrently', async () => {
+    const graph = new NodeGraph();
+    const started: string[] = [];
+    let release!: () => void;
+    const gate = new Promise<void>((resolve) => (release = resolve));
+    for (const id of ['a', 'b']) {
+      const node = new TestNode(id);
+      node.addOnReadyListener(async () => {
+        started.push(id);
+        await gate;
+      });
+      graph.addNode(node);
+    }
+
+    const ready = graph.ready();
+    await Promise.resolve();
+    expect(started).toEqual(['a', 'b']);
+    release();
+    await ready;
+  });
+
+  it('should let sources settle before dependents start', async () => {
+    const graph = new NodeGraph();
+    const source = new NumberNode('source');
+    const sink = new NumberNode('sink');
+    graph.addNode(sink);
+    graph.addNode(source);
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+    });
+
+    source.addOnReadyListener(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      await source
+        .getOutputPort('result')
+        .onNewData(createPortData(5), SourceType.PortOwner);
+    });
+    let seenAtReady: unknown;
+    sink.addOnReadyListener(() => {
+      seenAtReady = sink.getInputPort('input').getLastData()?.value;
+    });
+    await graph.ready();
+
+    expect(seenAtReady).toBe(5);
+  });
+
+  it('should reject cycles through filter nodes', async () => {
+    const graph = new NodeGraph();
+    graph.addNode(new NumberNode('source'));
+    graph.addNode(new NumberNode('sink'));
+    await graph.loadBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+      filters: [{ type: 'add', config: { value: 1 } }],
+    });
+
+    // The add filter's operand port is fed from its own output
+    await expect(
+      graph.loadBinding({
+        fromPort: 'sink.result',
+        toPort: 'binding-1-filter-0.operand',
+        id: 'binding-2',
+      })
+    ).rejects.toThrow(
+      'would create a cycle: sink → binding-1-filter-0 → sink'
+    );
+    await expect(graph.ready()).resolves.toBeUndefined();
+  });
 });
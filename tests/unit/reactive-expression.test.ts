@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { ReactiveExpression, findPortReferences } from '@/flow/expressions';
+import { ValueNode } from './value-node';
+
+function setup() {
+  const graph = new NodeGraph();
+  const a = new ValueNode('a');
+  const b = new ValueNode('b');
+  graph.addNode(a);
+  graph.addNode(b);
+  return { graph, a, b };
+}
+
+describe('findPortReferences', () => {
+  it('finds each literal port reference once', () => {
+    expect(
+      findPortReferences(
+        `=port("a.result") + port('b.result') * port("a.result")`
+      )
+    ).toEqual(['a.result', 'b.result']);
+    expect(findPortReferences('=value + 1')).toEqual([]);
+  });
+});
+
+describe('ReactiveExpression', () => {
+  it('evaluates again when a referenced port changes', async () => {
+    const { graph, a, b } = setup();
+    await a.send(1);
+    const expression = new ReactiveExpression(
+      '=port("a.result") + port("b.result")',
+      graph
+    );
+    expect(expression.getDependencies()).toEqual(['a.result', 'b.result']);
+    // b has no data yet
+    expect(expression.value.get()).toBe(1);
+
+    const seen: unknown[] = [];
+    expression.value.onChange((value) => seen.push(value));
+    await b.send(10);
+    await a.send(2);
+    expect(seen).toEqual([11, 12]);
+  });
+
+  it('only notifies when the result changes', async () => {
+    const { graph, a } = setup();
+    const expression = new ReactiveExpression('=port("a.result") > 5', graph);
+    expect(expression.value.get()).toBe(false);
+    const seen: unknown[] = [];
+    expression.value.onChange((value) => seen.push(value));
+    await a.send(1);
+    await a.send(2);
+    await a.send(7);
+    expect(seen).toEqual([true]);
+  });
+
+  it('waits for ports that are added later', async () => {
+    const graph = new NodeGraph();
+    const expression = new ReactiveExpression(
+      '=port("late.result") * 2',
+      graph
+    );
+    const late = new ValueNode('late');
+    await late.send(4);
+    graph.addNode(late);
+    expect(expression.value.get()).toBe(8);
+
+    await graph.removeNode('late');
+    const again = new ValueNode('late');
+    graph.addNode(again);
+    await again.send(5);
+    expect(expression.value.get()).toBe(10);
+  });
+
+  it('keeps the error of a failed evaluation', async () => {
+    const { graph, a } = setup();
+    const expression = new ReactiveExpression(
+      '=port("a.result") + missing',
+      graph
+    );
+    expect(expression.value.get()).toBeNull();
+    expect(expression.error).toContain('missing');
+
+    await a.send(1);
+    expect(expression.error).toContain('missing');
+  });
+
+  it('stops following the ports when destroyed', async () => {
+    const { graph, a } = setup();
+    const expression = new ReactiveExpression('=port("a.result")', graph);
+    await a.send(1);
+    expression.destroy();
+    await a.send(2);
+    expect(expression.value.get()).toBe(1);
+  });
+});
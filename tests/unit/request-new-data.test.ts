@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NodeGraph } from '@/flow/node-graph';
+import { SourceType } from '@/flow/port';
+import type { Port } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
+import { ValueNode } from './value-node';
+
+async function connect(
+  filters: { type: string; config: Record<string, unknown> }[] = []
+) {
+  const graph = new NodeGraph();
+  const source = new ValueNode('source');
+  const sink = new ValueNode('sink');
+  graph.addNode(source);
+  graph.addNode(sink);
+  await graph.loadBinding({
+    fromPort: 'source.result',
+    toPort: 'sink.input',
+    id: 'binding-1',
+    filters,
+  });
+  const received: unknown[] = [];
+  sink.getInputPort('input').addDataHandler(async (data) => {
+    received.push(data.value);
+  });
+  return { graph, source, sink, received };
+}
+
+describe('Port.requestNewData', () => {
+  it('should ask the owning node of the connected output', async () => {
+    const { source, sink, received } = await connect();
+    let reading = 1;
+    source.setDataRequestHandler('result', async (port) => {
+      await port.onNewData(createPortData(reading++), SourceType.PortOwner);
+    });
+
+    await sink.getInputPort('input').requestNewData();
+    await sink.getInputPort('input').requestNewData();
+
+    expect(received).toEqual([1, 2]);
+    expect(sink.getInputPort('input').getLastData()?.value).toBe(2);
+  });
+
+  it('should resend the last value when the owner has no handler', async () => {
+    const { source, sink, received } = await connect();
+    await source
+      .getOutputPort('result')
+      .onNewData(createPortData(7), SourceType.PortOwner);
+    received.length = 0;
+
+    await sink.getInputPort('input').requestNewData();
+
+    expect(received).toEqual([7]);
+  });
+
+  it('should pass requests up and replies down through filters', async () => {
+    const { graph, source, received } = await connect([
+      { type: 'add', config: { value: 10 } },
+      { type: 'multiply', config: { factor: 2 } },
+    ]);
+    const handler = vi.fn(async (port: Port) => {
+      await port.onNewData(createPortData(5), SourceType.PortOwner);
+    });
+    source.setDataRequestHandler('result', handler);
+
+    await graph.getBindings()[0].requestNewData();
+
+    expect(handler).toHaveBeenCalledOnce();
+    expect(received).toEqual([30]);
+  });
+
+  it('should do nothing for unconnected ports', async () => {
+    const node = new ValueNode('alone');
+    const handler = vi.fn();
+    node.getInputPort('input').addDataHandler(handler);
+
+    await node.getInputPort('input').requestNewData();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('should stop answering once the handler is removed', async () => {
+    const { source, sink, received } = await connect();
+    const remove = source.setDataRequestHandler('result', async (port) => {
+      await port.onNewData(createPortData(1), SourceType.PortOwner);
+    });
+    remove();
+
+    await sink.getInputPort('input').requestNewData();
+
+    // Nothing was ever sent, so there is no last value to resend
+    expect(received).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { BindingFilterItem } from '@/boards/board-types';
+import { bindValueNodes } from './value-node';
+
+function setup(filter: BindingFilterItem) {
+  return bindValueNodes([filter], { initialSync: 'none' });
+}
+
+describe('timed filters', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('debounce sends the latest value once values settle', async () => {
+    const { source, sink } = await setup({
+      type: 'debounce',
+      config: { wait: 100 },
+    });
+    await source.send(1);
+    await vi.advanceTimersByTimeAsync(50);
+    await source.send(2);
+    await source.send(3);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(sink.seen).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(sink.seen).toEqual([3]);
+  });
+
+  it('debounce times writes back upstream on their own', async () => {
+    const { source, sink } = await setup({
+      type: 'debounce',
+      config: { wait: 100 },
+    });
+    // A slider being dragged
+    for (let value = 1; value <= 10; value++) {
+      await sink.write(value);
+      await vi.advanceTimersByTimeAsync(20);
+    }
+    expect(source.seen).toEqual([]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(source.seen).toEqual([10]);
+  });
+
+  it('throttle sends the first value at once and the last one later', async () => {
+    const { source, sink } = await setup({
+      type: 'throttle',
+      config: { interval: 100 },
+    });
+    await source.send(1);
+    expect(sink.seen).toEqual([1]);
+    await source.send(2);
+    await source.send(3);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sink.seen).toEqual([1, 3]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    await source.send(4);
+    expect(sink.seen).toEqual([1, 3, 4]);
+  });
+
+  it('delay sends every value later, in order', async () => {
+    const { source, sink } = await setup({
+      type: 'delay',
+      config: { delay: 100 },
+    });
+    await source.send(1);
+    await vi.advanceTimersByTimeAsync(30);
+    await source.send(2);
+    await vi.advanceTimersByTimeAsync(70);
+    expect(sink.seen).toEqual([1]);
+    await vi.advanceTimersByTimeAsync(30);
+    expect(sink.seen).toEqual([1, 2]);
+  });
+
+  it('minInterval drops values that come too soon', async () => {
+    const { source, sink } = await setup({
+      type: 'minInterval',
+      config: { interval: 100 },
+    });
+    await source.send(1);
+    await vi.advanceTimersByTimeAsync(50);
+    await source.send(2);
+    await vi.advanceTimersByTimeAsync(50);
+    await source.send(3);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(sink.seen).toEqual([1, 3]);
+  });
+
+  it('holdFor resets once no new value arrives', async () => {
+    const { source, sink } = await setup({
+      type: 'holdFor',
+      config: { duration: 100, resetValue: 0 },
+    });
+    await source.send(1);
+    await vi.advanceTimersByTimeAsync(60);
+    await source.send(2);
+    await vi.advanceTimersByTimeAsync(60);
+    expect(sink.seen).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(40);
+    expect(sink.seen).toEqual([1, 2, 0]);
+  });
+
+  it('stop their timers when the binding is deleted', async () => {
+    const { graph, source, sink } = await setup({
+      type: 'delay',
+      config: { delay: 100 },
+    });
+    await source.send(1);
+    graph.deleteBinding({
+      fromPort: 'source.result',
+      toPort: 'sink.input',
+      id: 'binding-1',
+    });
+    expect(vi.getTimerCount()).toBe(0);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(sink.seen).toEqual([]);
+  });
+
+  it('report a bad duration', async () => {
+    const { source, sink } = await setup({
+      type: 'debounce',
+      config: { wait: 'soon' },
+    });
+    await source.send(1);
+    expect(sink.getInputPort('input').getLastData()).toMatchObject({
+      value: null,
+      annotation: { quality: 'bad', error: 'wait must be a duration in ms' },
+    });
+  });
+});
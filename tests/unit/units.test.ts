@@ -0,0 +1,123 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import {
+  canConvert,
+  convertPortSchema,
+  convertUnit,
+  convertUnitDifference,
+  displayUnitFor,
+  displayUnitSystem,
+  unitRegistry,
+} from '@/flow/units';
+import type { PortSchema } from '@/flow/port';
+import type { BindingFilterItem } from '@/boards/board-types';
+import { bindValueNodes } from './value-node';
+
+function setup(config: BindingFilterItem['config']) {
+  return bindValueNodes(
+    [{ type: 'convertUnit', config }],
+    {},
+    { unit: '°C', min: -40, max: 100, step: 0.5 }
+  );
+}
+
+describe('units', () => {
+  afterEach(() => displayUnitSystem.set(null));
+
+  it('convert within a quantity', () => {
+    expect(convertUnit(100, '°C', '°F')).toBe(212);
+    expect(convertUnit(-40, '°F', '°C')).toBe(-40);
+    expect(convertUnit(0, '°C', 'K')).toBe(273.15);
+    expect(convertUnit(1, 'bar', 'kPa')).toBe(100);
+    expect(convertUnit(1, 'mi', 'km')).toBe(1.609344);
+    expect(convertUnit(90, 'min', 'h')).toBe(1.5);
+    expect(convertUnit(0.5, '%', 'ppm')).toBe(5000);
+    expect(convertUnitDifference(1, '°C', '°F')).toBe(1.8);
+  });
+
+  it('refuse unknown and incompatible units', () => {
+    expect(() => convertUnit(1, 'm', 'furlong')).toThrow('Unknown unit');
+    expect(() => convertUnit(1, 'm', 's')).toThrow('Cannot convert length');
+    expect(canConvert('m', 'ft')).toBe(true);
+    expect(canConvert('m', 'kg')).toBe(false);
+    expect(() =>
+      unitRegistry.register({
+        symbol: 'x',
+        name: 'broken',
+        quantity: 'length',
+        factor: 0,
+      })
+    ).toThrow('Invalid factor');
+  });
+
+  it('convert port schemas, dropping ranges they cannot convert', () => {
+    const schema: PortSchema = {
+      name: 'value',
+      type: 'number',
+      direction: 'output',
+      unit: '°C',
+      min: 0,
+      max: 100,
+      hi: 80,
+      step: 0.5,
+    };
+    expect(convertPortSchema(schema, '°F')).toMatchObject({
+      unit: '°F',
+      min: 32,
+      max: 212,
+      hi: 176,
+      step: 0.9,
+    });
+    const unknown = convertPortSchema({ ...schema, unit: undefined }, '°F');
+    expect(unknown.unit).toBe('°F');
+    expect(unknown.min).toBeUndefined();
+    expect(unknown.step).toBeUndefined();
+  });
+
+  it('pick the display unit of the preferred system', () => {
+    expect(displayUnitFor('°C')).toBe('°C');
+    displayUnitSystem.set('imperial');
+    expect(displayUnitFor('°C')).toBe('°F');
+    expect(displayUnitFor('bar')).toBe('psi');
+    expect(displayUnitFor('°F')).toBe('°F');
+    expect(displayUnitFor('s')).toBe('s');
+    expect(displayUnitFor('furlong')).toBe('furlong');
+    expect(displayUnitFor('psi', 'metric')).toBe('bar');
+  });
+});
+
+describe('convertUnit filter', () => {
+  it('converts values and annotates the new unit', async () => {
+    const { source, sink } = await setup({ to: '°F' });
+    await source.send(100, { unit: '°C' });
+    expect(sink.value).toBe(212);
+    expect(sink.getInputPort('input').getLastData()?.annotation?.unit).toBe(
+      '°F'
+    );
+  });
+
+  it('writes back in the source unit', async () => {
+    const { source, sink } = await setup({ to: '°F' });
+    await sink.write(32);
+    expect(source.value).toBe(0);
+  });
+
+  it('declares the converted range on its output', async () => {
+    const { graph } = await setup({ to: 'K' });
+    const output = graph.getNode('binding-1-filter-0')?.getOutputPort('result');
+    expect(output?.schema.get()).toMatchObject({
+      unit: 'K',
+      min: 233.15,
+      max: 373.15,
+      step: 0.5,
+    });
+  });
+
+  it('reports values it cannot convert as bad', async () => {
+    const { source, sink } = await setup({ from: 'm', to: '°F' });
+    await source.send(1, { unit: '°C' });
+    expect(sink.getInputPort('input').getLastData()).toMatchObject({
+      value: null,
+      annotation: { quality: 'bad' },
+    });
+  });
+});
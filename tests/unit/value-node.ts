@@ -0,0 +1,98 @@
+/**
+ * A node holding a value, like a variable, so flow tests can
+ * bind two of them and watch what crosses.
+ */
+import { NodeGraph } from '@/flow/node-graph';
+import { Node } from '@/flow/node';
+import { Port, SourceType } from '@/flow/port';
+import type { PortSchema } from '@/flow/port';
+import { createPortData } from '@/flow/data-types';
+import type { DataAnnotation, PortData } from '@/flow/data-types';
+import type {
+  BindingDefinition,
+  BindingFilterItem,
+} from '@/boards/board-types';
+
+/** Holds a value, like a variable, and shares changes to it */
+export class ValueNode extends Node {
+  value: unknown = null;
+
+  /** Every value that arrived from a binding, in order */
+  seen: unknown[] = [];
+
+  /**
+   * @param schema Overrides for both ports, e.g. a unit
+   * @param initialData What both ports hold before any binding
+   */
+  constructor(
+    id: string,
+    schema: Partial<PortSchema> = {},
+    initialData: PortData | null = null
+  ) {
+    super(id);
+    this.value = initialData?.value ?? null;
+    for (const direction of ['input', 'output'] as const) {
+      const port = this.addPort(
+        new Port(
+          {
+            name: direction === 'input' ? 'input' : 'result',
+            type: 'number',
+            ...schema,
+            direction,
+          },
+          initialData
+        )
+      );
+      port.addDataHandler(async (data, source) => {
+        if (source === SourceType.PortOwner) return;
+        this.value = data.value;
+        this.seen.push(data.value);
+      });
+    }
+  }
+
+  /** Send a value downstream from the result port */
+  send(value: unknown, annotation?: DataAnnotation) {
+    this.value = value;
+    return this.getOutputPort('result').onNewData(
+      createPortData(value, undefined, annotation),
+      SourceType.PortOwner
+    );
+  }
+
+  /** Write a value back upstream from the input port */
+  write(value: unknown) {
+    this.value = value;
+    return this.getInputPort('input').onNewData(
+      createPortData(value),
+      SourceType.PortOwner
+    );
+  }
+}
+
+/**
+ * Bind `source.result` to `sink.input` through filters, as
+ * `binding-1`.
+ *
+ * @param binding Overrides for the binding definition
+ * @param sourceSchema Overrides for the source's ports
+ */
+export async function bindValueNodes(
+  filters: BindingFilterItem[] = [],
+  binding: Partial<BindingDefinition> = {},
+  sourceSchema: Partial<PortSchema> = {}
+) {
+  const graph = new NodeGraph();
+  const source = new ValueNode('source', sourceSchema);
+  const sink = new ValueNode('sink');
+  graph.addNode(source);
+  graph.addNode(sink);
+  await graph.loadBinding({
+    fromPort: 'source.result',
+    toPort: 'sink.input',
+    id: 'binding-1',
+    filters,
+    ...binding,
+  });
+  return { graph, source, sink };
+}
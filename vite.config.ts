@@ -1,12 +1,37 @@
 import { dirname, resolve } from "node:path";
 import path from "path";
 import { fileURLToPath } from "node:url";
-import { defineConfig } from 'vite';
+import { defineConfig, type Plugin } from 'vite';
 import { resolve } from 'path';
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
+/**
+ * Serve a board server on /api during `npm run dev`, so
+ * the editor example saves to files in ./boards. Loaded
+ * through Vite so the source's path aliases resolve.
+ */
+function boardServer(): Plugin {
+  return {
+    name: 'dashbeard-board-server',
+    apply: 'serve',
+    configureServer(server) {
+      type Listener = (req: unknown, res: unknown, next: () => void) => void;
+      let listener: Promise<Listener> | null = null;
+      server.middlewares.use((req, res, next) => {
+        listener ??= server
+          .ssrLoadModule('/src/backends/dev-board-server.ts')
+          .then((module) =>
+            module.createDevListener(resolve(__dirname, 'boards'))
+          );
+        listener.then((listen) => listen(req, res, next), next);
+      });
+    },
+  };
+}
+
 export default defineConfig({
   base: './',
+  plugins: [boardServer()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),